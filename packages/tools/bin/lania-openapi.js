@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/**
+ * 根据本地 OpenAPI 3 文档（JSON / YAML）生成 AxiosWrapper 的接口定义与类型
+ *
+ * 用法：lania-openapi <openapi.json|openapi.yaml> [-o src/api.ts] [--export-name api]
+ *                     [--import-from @lania-tools/tools/axios-wrapper] [--no-group]
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { generateApiFromOpenApi } from '../dist/esm/axios/OpenApiGenerator.esm.js';
+
+const USAGE = `Usage: lania-openapi <openapi.json|openapi.yaml> [options]
+
+Options:
+  -o, --output <file>       write to file instead of stdout
+  --export-name <name>      name of the exported definition table (default: api)
+  --import-from <module>    module that exports apiType / defineApi
+                            (default: @lania-tools/tools/axios-wrapper)
+  --no-group                do not group endpoints by their first tag
+  -h, --help                show this message`;
+
+async function parseDocument(file, text) {
+    if (!['.yaml', '.yml'].includes(extname(file).toLowerCase())) return JSON.parse(text);
+    let yaml;
+    try {
+        yaml = await import('yaml');
+    } catch {
+        throw new Error('Reading YAML documents requires the "yaml" package: npm i -D yaml');
+    }
+    return yaml.parse(text);
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            'export-name': { type: 'string' },
+            'import-from': { type: 'string' },
+            'no-group': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+
+    const [input] = positionals;
+    const document = await parseDocument(input, await readFile(input, 'utf8'));
+    const source = generateApiFromOpenApi(document, {
+        exportName: values['export-name'],
+        importFrom: values['import-from'],
+        groupByTag: !values['no-group'],
+    });
+    if (values.output) {
+        await writeFile(values.output, source);
+        console.log(`Generated ${values.output} from ${input}`);
+    } else {
+        process.stdout.write(source);
+    }
+}
+
+main().catch((error) => {
+    console.error(`lania-openapi: ${error.message}`);
+    process.exitCode = 1;
+});
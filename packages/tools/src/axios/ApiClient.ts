@@ -0,0 +1,139 @@
+import type { AxiosResponse } from 'axios';
+import type { TaskPriority } from './GlobalConcurrencyController';
+import type { AxiosWrapper, AxiosWrapperMethodConfig, RequestPolicy } from './index';
+
+export type ApiMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * 单个接口的定义。query / body / response / error 只用于类型推导，通过 apiType<T>() 声明，运行时不会读取
+ */
+export interface ApiRoute<Path extends string = string> {
+    method: ApiMethod;
+    /** 请求路径，`:name` 为路径参数，如 /users/:id */
+    path: Path;
+    query?: unknown;
+    body?: unknown;
+    response?: unknown;
+    /** 错误响应（4xx / 5xx）的响应体 */
+    error?: unknown;
+    /** 该接口默认的缓存/去重/防抖/节流/重试策略，调用时传入的 policy 优先 */
+    policy?: RequestPolicy | false;
+    priority?: TaskPriority;
+    /** 该接口默认的请求配置（headers / timeout 等） */
+    config?: AxiosWrapperMethodConfig;
+}
+
+/**
+ * 接口定义表，可按业务模块任意嵌套
+ */
+export interface ApiSchema {
+    [name: string]: ApiRoute | ApiSchema;
+}
+
+/** 从路径中提取参数名，如 '/users/:id/posts/:postId' → 'id' | 'postId' */
+type PathParamNames<P extends string> = P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+export type ApiPathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+/** 全部字段可选的对象允许省略 */
+type Field<K extends string, T> = Partial<T> extends T ? { [F in K]?: T } : { [F in K]: T };
+
+/**
+ * 调用接口时的参数：路径参数平铺，查询参数放在 query，请求体放在 body
+ */
+export type ApiRequestArgs<R extends ApiRoute> = ApiPathParams<R['path']> &
+    ('query' extends keyof R ? Field<'query', R['query']> : unknown) &
+    ('body' extends keyof R ? Field<'body', R['body']> : unknown);
+
+export type ApiResponse<R extends ApiRoute> = 'response' extends keyof R ? R['response'] : unknown;
+
+export type ApiErrorResponse<R extends ApiRoute> = 'error' extends keyof R ? R['error'] : unknown;
+
+export type ApiEndpoint<R extends ApiRoute> =
+    Partial<ApiRequestArgs<R>> extends ApiRequestArgs<R>
+        ? (
+              args?: ApiRequestArgs<R>,
+              config?: AxiosWrapperMethodConfig,
+          ) => Promise<AxiosResponse<ApiResponse<R>>>
+        : (
+              args: ApiRequestArgs<R>,
+              config?: AxiosWrapperMethodConfig,
+          ) => Promise<AxiosResponse<ApiResponse<R>>>;
+
+/**
+ * 由接口定义表推导出的客户端，结构与定义表一致
+ */
+export type ApiClient<S extends ApiSchema> = {
+    [K in keyof S]: S[K] extends ApiRoute
+        ? ApiEndpoint<S[K]>
+        : S[K] extends ApiSchema
+          ? ApiClient<S[K]>
+          : never;
+};
+
+/**
+ * 在接口定义中声明 query / body / response 的类型，如 `response: apiType<User>()`
+ */
+export function apiType<T>(): T {
+    return undefined as unknown as T;
+}
+
+/**
+ * 声明接口定义表，保留路径等字面量类型，便于单独维护后传给 createApiClient
+ */
+export function defineApi<const S extends ApiSchema>(schema: S): S {
+    return schema;
+}
+
+function isApiRoute(value: ApiRoute | ApiSchema): value is ApiRoute {
+    return typeof value.method === 'string' && typeof value.path === 'string';
+}
+
+/**
+ * 将路径参数填入路径，缺少参数时抛出错误
+ */
+export function buildApiPath(path: string, params: Record<string, any> = {}) {
+    return path.replace(/:(\w+)/g, (_, name: string) => {
+        const value = params[name];
+        if (value === undefined || value === null) {
+            throw new Error(`Missing path parameter "${name}" for ${path}`);
+        }
+        return encodeURIComponent(String(value));
+    });
+}
+
+/**
+ * 根据接口定义表生成类型安全的客户端，所有请求都经过 AxiosWrapper.request
+ */
+export function createApiClient<const S extends ApiSchema>(
+    wrapper: AxiosWrapper,
+    schema: S,
+): ApiClient<S> {
+    const client: Record<string, any> = {};
+    Object.keys(schema).forEach((name) => {
+        const definition = schema[name];
+        if (!isApiRoute(definition)) {
+            client[name] = createApiClient(wrapper, definition);
+            return;
+        }
+        const { method, path, policy, priority, config: routeConfig } = definition;
+        client[name] = (args: Record<string, any> = {}, config: AxiosWrapperMethodConfig = {}) => {
+            const { query, body, ...params } = args;
+            return wrapper.request({
+                ...routeConfig,
+                ...config,
+                policy: config.policy ?? policy ?? routeConfig?.policy,
+                priority: config.priority ?? priority ?? routeConfig?.priority,
+                method,
+                url: buildApiPath(path, params),
+                params: query,
+                data: body,
+            });
+        };
+    });
+    return client as ApiClient<S>;
+}
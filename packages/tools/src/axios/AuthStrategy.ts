@@ -0,0 +1,225 @@
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { MUTATING_METHODS } from './const';
+import { setRequestHeader } from './helper';
+
+/**
+ * 认证信息的上下文
+ */
+export interface AuthContext {
+    /** tokenProvider 返回（或刚刷新得到）的 Access Token，未配置 tokenProvider 时为 undefined */
+    token?: string;
+}
+
+/**
+ * 认证策略：为请求添加认证信息。
+ * 每次发送都会调用，包括重试、刷新 Token 后的重发与离线回放，签名类策略会重新签名
+ */
+export interface AuthStrategy {
+    readonly name: string;
+    apply(config: InternalAxiosRequestConfig, context: AuthContext): void | Promise<void>;
+}
+
+/** 可以是固定值，也可以每次请求时获取 */
+export type AuthValue = string | (() => string | Promise<string>);
+
+const resolveAuthValue = async (value: AuthValue) =>
+    typeof value === 'function' ? value() : value;
+
+export interface BearerAuthOptions {
+    /** 请求头名称，默认 Authorization */
+    header?: string;
+    /** 前缀，默认 Bearer，传入空字符串时只发送 Token */
+    scheme?: string;
+}
+
+/**
+ * `Authorization: Bearer <token>`，配置了 tokenProvider 且未设置 authStrategy 时默认使用
+ */
+export class BearerAuthStrategy implements AuthStrategy {
+    readonly name = 'bearer';
+
+    constructor(private options: BearerAuthOptions = {}) {}
+
+    apply(config: InternalAxiosRequestConfig, { token }: AuthContext) {
+        if (token === undefined) return;
+        const { header = 'Authorization', scheme = 'Bearer' } = this.options;
+        setRequestHeader(config, header, scheme ? `${scheme} ${token}` : token);
+    }
+}
+
+export interface ApiKeyAuthOptions {
+    key: AuthValue;
+    /** 请求头名称，默认 X-API-Key */
+    header?: string;
+    /** 设置后改为通过该查询参数发送 */
+    queryParam?: string;
+}
+
+/**
+ * 通过自定义请求头（或查询参数）发送 API Key
+ */
+export class ApiKeyAuthStrategy implements AuthStrategy {
+    readonly name = 'api-key';
+
+    constructor(private options: ApiKeyAuthOptions) {}
+
+    async apply(config: InternalAxiosRequestConfig) {
+        const { key, header = 'X-API-Key', queryParam } = this.options;
+        const value = await resolveAuthValue(key);
+        if (queryParam) {
+            config.params = { ...config.params, [queryParam]: value };
+        } else {
+            setRequestHeader(config, header, value);
+        }
+    }
+}
+
+/**
+ * 参与 HMAC 签名的请求信息
+ */
+export interface HmacSignInput {
+    /** 大写的请求方法 */
+    method: string;
+    /** 包含 baseURL 与查询参数的完整地址 */
+    url: string;
+    timestamp: string;
+    nonce: string;
+    /** 序列化后的请求体，FormData / Blob 等二进制请求体为空字符串 */
+    body: string;
+}
+
+export interface HmacAuthOptions {
+    secret: AuthValue;
+    /** 密钥标识，设置后通过 headers.keyId 发送 */
+    keyId?: string;
+    /** 摘要算法，默认 SHA-256 */
+    algorithm?: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+    /** 签名的编码，默认 hex */
+    encoding?: 'hex' | 'base64';
+    /** 各请求头名称 */
+    headers?: { signature?: string; timestamp?: string; nonce?: string; keyId?: string };
+    /** 待签名字符串，默认 `METHOD\nURL\nTIMESTAMP\nNONCE\nBODY` */
+    getSignPayload?: (input: HmacSignInput) => string;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+const toBase64 = (buffer: ArrayBuffer) =>
+    btoa(String.fromCharCode(...Array.from(new Uint8Array(buffer))));
+
+function createNonce() {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+}
+
+/** 与 axios 默认的序列化保持一致：字符串原样发送，普通对象按 JSON 发送 */
+function serializeBody(data: any) {
+    if (data === undefined || data === null) return '';
+    if (typeof data === 'string') return data;
+    if (typeof FormData !== 'undefined' && data instanceof FormData) return '';
+    if (typeof Blob !== 'undefined' && data instanceof Blob) return '';
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return '';
+    if (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) {
+        return data.toString();
+    }
+    return JSON.stringify(data);
+}
+
+/**
+ * HMAC 请求签名：每次发送时生成新的时间戳与随机数并重新签名，基于 Web Crypto（crypto.subtle）
+ */
+export class HmacAuthStrategy implements AuthStrategy {
+    readonly name = 'hmac';
+
+    constructor(private options: HmacAuthOptions) {}
+
+    async apply(config: InternalAxiosRequestConfig) {
+        const {
+            secret,
+            keyId,
+            algorithm = 'SHA-256',
+            encoding = 'hex',
+            headers = {},
+            getSignPayload = ({ method, url, timestamp, nonce, body }: HmacSignInput) =>
+                [method, url, timestamp, nonce, body].join('\n'),
+        } = this.options;
+        const input: HmacSignInput = {
+            method: (config.method || 'get').toUpperCase(),
+            url: axios.getUri(config),
+            timestamp: String(Date.now()),
+            nonce: createNonce(),
+            body: serializeBody(config.data),
+        };
+        const encoder = new TextEncoder();
+        const key = await crypto.subtle.importKey(
+            'raw',
+            encoder.encode(await resolveAuthValue(secret)),
+            { name: 'HMAC', hash: algorithm },
+            false,
+            ['sign'],
+        );
+        const signature = await crypto.subtle.sign(
+            'HMAC',
+            key,
+            encoder.encode(getSignPayload(input)),
+        );
+
+        setRequestHeader(config, headers.timestamp || 'X-Timestamp', input.timestamp);
+        setRequestHeader(config, headers.nonce || 'X-Nonce', input.nonce);
+        setRequestHeader(
+            config,
+            headers.signature || 'X-Signature',
+            encoding === 'base64' ? toBase64(signature) : toHex(signature),
+        );
+        if (keyId) setRequestHeader(config, headers.keyId || 'X-Key-Id', keyId);
+    }
+}
+
+export interface CsrfAuthOptions {
+    /** 读取 Token 的 Cookie 名称，默认 XSRF-TOKEN */
+    cookieName?: string;
+    /** 发送 Token 的请求头名称，默认 X-XSRF-TOKEN */
+    header?: string;
+    /** 需要携带 Token 的请求方法，默认 post / put / patch / delete */
+    methods?: string[];
+    /** 自定义获取 Token（如从 meta 标签读取），设置后不再读取 Cookie */
+    getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+}
+
+function readCookie(name: string) {
+    if (typeof document === 'undefined') return null;
+    const prefix = `${name}=`;
+    const cookie = document.cookie
+        .split(';')
+        .map((item) => item.trim())
+        .find((item) => item.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+/**
+ * Cookie + CSRF 双重提交：请求携带 Cookie（withCredentials），
+ * 并把 Cookie 中的 CSRF Token 放到请求头，只处理变更类请求
+ */
+export class CsrfAuthStrategy implements AuthStrategy {
+    readonly name = 'csrf';
+
+    constructor(private options: CsrfAuthOptions = {}) {}
+
+    async apply(config: InternalAxiosRequestConfig) {
+        const {
+            cookieName = 'XSRF-TOKEN',
+            header = 'X-XSRF-TOKEN',
+            methods = MUTATING_METHODS,
+            getToken,
+        } = this.options;
+        config.withCredentials = true;
+        if (!methods.includes((config.method || 'get').toLowerCase())) return;
+        const token = getToken ? await getToken() : readCookie(cookieName);
+        if (token) setRequestHeader(config, header, token);
+    }
+}
@@ -0,0 +1,283 @@
+import type { AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { generateRequestKey, getCancelReason, isNetworkError as isNetworkFailure } from './helper';
+import type { CancelReason } from './LifecycleEmitter';
+import type { ResponseValidationError } from './ResponseValidator';
+
+/**
+ * 错误分类：
+ * - network：没有收到响应（断网、DNS 失败、跨域被拦截等）
+ * - timeout：请求超时
+ * - http：非 2xx（validateStatus 未通过）的 HTTP 响应
+ * - business：codeHandlers 处理的业务状态码
+ * - auth：登录态失效（Refresh Token 过期或刷新失败）
+ * - cancelled：主动取消（cancelRequest / cancelGroup / signal）
+ * - throttled：被防抖 / 节流取消
+ * - validation：响应数据未通过 responseSchema 验证
+ * - unknown：其他错误，如拦截器中抛出的错误
+ */
+export type AxiosWrapperErrorKind =
+    | 'network'
+    | 'timeout'
+    | 'http'
+    | 'business'
+    | 'auth'
+    | 'cancelled'
+    | 'throttled'
+    | 'validation'
+    | 'unknown';
+
+export interface AxiosWrapperErrorOptions {
+    /** 错误码，与 AxiosError.code 一致，如 ERR_NETWORK、ECONNABORTED */
+    code?: string;
+    config?: InternalAxiosRequestConfig;
+    request?: any;
+    response?: AxiosResponse;
+    /** 原始错误 */
+    cause?: unknown;
+}
+
+type RetriedConfig = AxiosRequestConfig & { __retryCount?: number };
+
+/**
+ * AxiosWrapper 抛出的错误基类。
+ * 保留 AxiosError 的 isAxiosError / code / config / request / response / status 字段，
+ * axios.isAxiosError 可以识别；不直接继承 AxiosError，避免模块加载时依赖 axios 的运行时导出
+ */
+export class AxiosWrapperError extends Error {
+    readonly isAxiosError = true;
+    code?: string;
+    config?: InternalAxiosRequestConfig;
+    request?: any;
+    response?: AxiosResponse;
+    status?: number;
+    /** 请求标识，与缓存、去重使用的 Key 一致 */
+    requestKey?: string;
+    /** 第几次发送时失败，包含重试与刷新 Token 后的重发，从 1 开始 */
+    attempt = 1;
+
+    constructor(
+        message: string,
+        public readonly kind: AxiosWrapperErrorKind = 'unknown',
+        options: AxiosWrapperErrorOptions = {},
+    ) {
+        super(message);
+        this.name = 'AxiosWrapperError';
+        this.code = options.code;
+        this.config = options.config;
+        this.request = options.request;
+        this.response = options.response;
+        this.status = options.response?.status;
+        // 与 AxiosError.from 一致设为不可枚举，避免序列化日志时遇到循环引用
+        if (options.cause !== undefined) {
+            Object.defineProperty(this, 'cause', {
+                value: options.cause,
+                writable: true,
+                configurable: true,
+            });
+        }
+        Object.setPrototypeOf(this, new.target.prototype);
+        if (options.config) this.setRequest(options.config);
+    }
+
+    /**
+     * 记录请求标识与发送次数
+     */
+    setRequest(config: AxiosRequestConfig) {
+        this.requestKey = generateRequestKey(config);
+        this.attempt = ((config as RetriedConfig).__retryCount || 0) + 1;
+        return this;
+    }
+}
+
+export class NetworkError extends AxiosWrapperError {
+    constructor(message = 'Network Error', options: AxiosWrapperErrorOptions = {}) {
+        super(message, 'network', {
+            ...options,
+            code: options.code ?? 'ERR_NETWORK',
+        });
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends AxiosWrapperError {
+    constructor(message = 'Request timeout', options: AxiosWrapperErrorOptions = {}) {
+        super(message, 'timeout', {
+            ...options,
+            code: options.code ?? 'ECONNABORTED',
+        });
+        this.name = 'TimeoutError';
+    }
+}
+
+export class HttpStatusError extends AxiosWrapperError {
+    declare response: AxiosResponse;
+    declare status: number;
+
+    constructor(message: string, options: AxiosWrapperErrorOptions & { response: AxiosResponse }) {
+        const { status } = options.response;
+        super(message || `Request failed with status code ${status}`, 'http', {
+            ...options,
+            code: options.code ?? (status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST'),
+        });
+        this.name = 'HttpStatusError';
+    }
+}
+
+/**
+ * codeHandlers 中的处理器抛出错误，或命中 businessErrorCodes 时抛出
+ */
+export class BusinessError extends AxiosWrapperError {
+    declare response: AxiosResponse;
+
+    constructor(
+        /** 响应数据中的业务状态码（response.data.code） */
+        public businessCode: string | number,
+        options: AxiosWrapperErrorOptions & { response: AxiosResponse },
+    ) {
+        const cause = options.cause as { message?: string } | undefined;
+        super(cause?.message || `Business error: ${businessCode}`, 'business', options);
+        this.name = 'BusinessError';
+    }
+}
+
+/**
+ * 登录态失效的原因：
+ * - refresh-token-expired：命中 refreshTokenExpiredCodes
+ * - refresh-failed：刷新 Access Token 失败，cause 为刷新时的错误
+ * - token-rejected：刷新后重发的请求仍返回 Token 过期
+ */
+export type AuthExpiredReason = 'refresh-token-expired' | 'refresh-failed' | 'token-rejected';
+
+export class AuthExpiredError extends AxiosWrapperError {
+    constructor(
+        message: string,
+        public reason: AuthExpiredReason,
+        options: AxiosWrapperErrorOptions = {},
+    ) {
+        super(message, 'auth', options);
+        this.name = 'AuthExpiredError';
+    }
+}
+
+/**
+ * 请求被取消，axios.isCancel 可以识别
+ */
+export class CancelledError extends AxiosWrapperError {
+    // axios.isCancel 通过该标记识别取消错误
+    readonly __CANCEL__ = true;
+
+    constructor(
+        message = 'canceled',
+        public reason: CancelReason = 'abort',
+        options: AxiosWrapperErrorOptions = {},
+    ) {
+        super(message, reason === 'abort' ? 'cancelled' : 'throttled', {
+            ...options,
+            code: options.code ?? 'ERR_CANCELED',
+        });
+        this.name = 'CancelledError';
+    }
+}
+
+export class ThrottledError extends CancelledError {
+    declare reason: 'debounce' | 'throttle';
+    // 兼容 CancelError 接口：getCancelReason 通过 isCancel 与 type 识别
+    readonly isCancel = true;
+    readonly type: 'debounce' | 'throttle';
+
+    constructor(
+        message: string,
+        reason: 'debounce' | 'throttle',
+        options: AxiosWrapperErrorOptions = {},
+    ) {
+        super(message, reason, options);
+        this.type = reason;
+        this.name = 'ThrottledError';
+    }
+}
+
+/**
+ * 把请求过程中的错误统一转换为 AxiosWrapperError 的子类，原始错误保存在 cause 中。
+ * 已是 AxiosWrapperError 时只补充缺少的请求信息
+ *
+ * @param error 原始错误
+ * @param config 错误本身没有携带请求配置时使用
+ */
+export function toAxiosWrapperError(
+    error: unknown,
+    config?: AxiosRequestConfig,
+): AxiosWrapperError {
+    if (error instanceof AxiosWrapperError) {
+        if (config && error.requestKey === undefined) error.setRequest(config);
+        return error;
+    }
+    const err = error as any;
+    const message = typeof err?.message === 'string' ? err.message : String(error);
+    const options: AxiosWrapperErrorOptions = {
+        code: err?.code,
+        config: err?.config,
+        request: err?.request,
+        response: err?.response,
+        cause: error,
+    };
+    const reason = getCancelReason(err);
+
+    let normalized: AxiosWrapperError;
+    if (reason === 'debounce' || reason === 'throttle') {
+        normalized = new ThrottledError(message, reason, options);
+    } else if (reason) {
+        normalized = new CancelledError(message, reason, options);
+    } else if (err?.response) {
+        normalized = new HttpStatusError(message, { ...options, response: err.response });
+    } else if (
+        err?.code === 'ETIMEDOUT' ||
+        (err?.code === 'ECONNABORTED' && /timeout/i.test(message))
+    ) {
+        normalized = new TimeoutError(message, options);
+    } else if (isNetworkFailure(err)) {
+        normalized = new NetworkError(message, options);
+    } else {
+        normalized = new AxiosWrapperError(message, 'unknown', options);
+    }
+    if (config && normalized.requestKey === undefined) normalized.setRequest(config);
+    return normalized;
+}
+
+export function isAxiosWrapperError(error: unknown): error is AxiosWrapperError {
+    return error instanceof AxiosWrapperError;
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+    return error instanceof NetworkError;
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+    return error instanceof TimeoutError;
+}
+
+export function isHttpStatusError(error: unknown): error is HttpStatusError {
+    return error instanceof HttpStatusError;
+}
+
+export function isBusinessError(error: unknown): error is BusinessError {
+    return error instanceof BusinessError;
+}
+
+export function isAuthExpiredError(error: unknown): error is AuthExpiredError {
+    return error instanceof AuthExpiredError;
+}
+
+/**
+ * 是否被取消，包括防抖 / 节流取消
+ */
+export function isCancelledError(error: unknown): error is CancelledError {
+    return error instanceof CancelledError;
+}
+
+export function isThrottledError(error: unknown): error is ThrottledError {
+    return error instanceof ThrottledError;
+}
+
+export function isResponseValidationError(error: unknown): error is ResponseValidationError {
+    return isAxiosWrapperError(error) && error.kind === 'validation';
+}
@@ -1,32 +1,310 @@
 import { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { generateRequestKey } from './helper';
-interface CacheEntry {
+import { generateRequestKey, getHeader, matchUrlPattern, toPlainHeaders } from './helper';
+import type { CacheStorageAdapter } from './CacheStorageAdapter';
+
+/**
+ * 缓存条目，需保持可 JSON 序列化以便持久化
+ */
+export interface CacheEntry {
     data: any;
     expireAt?: number;
+    /** 请求信息与标签，用于按 URL / 标签失效 */
+    url?: string;
+    method?: string;
+    tags?: string[];
+    /** 以下字段由 setResponse 写入，用于 HTTP 缓存语义（还原原始响应、条件请求） */
+    status?: number;
+    statusText?: string;
+    headers?: Record<string, any>;
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * 带过期状态的缓存读取结果
+ */
+export interface CacheLookup {
+    data: any;
+    /** 是否已超过 TTL（仅在 stale-while-revalidate 宽限期内才会返回） */
+    stale: boolean;
+    /** 原始缓存条目 */
+    entry: CacheEntry;
+}
+
+/**
+ * 缓存失效的匹配条件
+ * - string：URL 匹配模式，`*` 匹配任意字符，如 '/users*'
+ * - RegExp：匹配请求 URL
+ * - 函数：自定义判定，参数为缓存条目及其 Key
+ */
+export type CacheMatcher = string | RegExp | ((entry: CacheEntry, key: string) => boolean);
+
+export interface CacheManagerOptions {
+    /** 持久化适配器，未设置时只缓存在内存中 */
+    storage?: CacheStorageAdapter;
+    /** 最大条目数，超出后按 LRU 淘汰 */
+    maxEntries?: number;
+    /** 最大总体积（按 JSON 字符数估算），超出后按 LRU 淘汰 */
+    maxBytes?: number;
 }
 
 export class CacheManager {
+    /** 内存缓存，Map 的插入顺序即 LRU 顺序（越靠前越久未使用） */
     private cache: Map<string, CacheEntry> = new Map();
+    /** 每个条目的估算体积 */
+    private sizes: Map<string, number> = new Map();
+    private totalBytes = 0;
+    /** 进行中的请求，相同 Key 的并发请求共享同一个 Promise */
+    private inflight: Map<string, Promise<any>> = new Map();
+    private options: CacheManagerOptions;
+    /** 持久化数据加载完成的 Promise，读取缓存前需要等待 */
+    public readonly ready: Promise<void>;
+
+    constructor(options: CacheManagerOptions = {}) {
+        this.options = options;
+        this.ready = this.hydrate();
+    }
 
     public get(config: AxiosRequestConfig) {
         const key = generateRequestKey(config);
         const entry = this.cache.get(key);
         if (entry) {
-            if (!entry.expireAt || entry.expireAt > Date.now()) return entry.data;
-            this.cache.delete(key);
+            if (!entry.expireAt || entry.expireAt > Date.now()) {
+                this.touch(key, entry);
+                return entry.data;
+            }
+            this.evictExpired(key, entry);
         }
         return null;
     }
 
-    public set(config: AxiosRequestConfig, data: any, ttl?: number) {
+    /**
+     * 读取缓存，允许返回已过期但仍在宽限期内的条目（stale-while-revalidate）
+     * @param maxStale 过期后仍可使用的最长时间（毫秒），默认不限
+     */
+    public getStale(config: AxiosRequestConfig, maxStale = Infinity): CacheLookup | null {
         const key = generateRequestKey(config);
-        this.cache.set(key, {
+        const entry = this.cache.get(key);
+        if (!entry) return null;
+        const now = Date.now();
+        if (!entry.expireAt || now - entry.expireAt <= maxStale) {
+            this.touch(key, entry);
+            return { data: entry.data, stale: !!entry.expireAt && entry.expireAt <= now, entry };
+        }
+        this.evictExpired(key, entry);
+        return null;
+    }
+
+    /**
+     * 读取原始条目，不检查过期、不影响 LRU 顺序
+     */
+    public peek(config: AxiosRequestConfig): CacheEntry | null {
+        return this.cache.get(generateRequestKey(config)) || null;
+    }
+
+    public set(config: AxiosRequestConfig, data: any, ttl?: number, tags?: string[]) {
+        const key = generateRequestKey(config);
+        this.store(key, {
             data: data && typeof (data as any).data !== 'undefined' ? (data as any).data : data,
             expireAt: ttl ? Date.now() + ttl : undefined,
+            ...this.describe(config, tags),
         });
     }
 
+    /**
+     * 写入完整响应：保留原始响应体、状态码、响应头以及 ETag / Last-Modified 校验器
+     * @param ttl 有效期（毫秒），0 表示立即过期（每次都需要协商），未设置表示永不过期
+     * @param tags 缓存标签，可通过 invalidateTags 批量失效
+     */
+    public setResponse(response: AxiosResponse, ttl?: number, tags?: string[]) {
+        const headers = toPlainHeaders(response.headers);
+        this.store(generateRequestKey(response.config), {
+            data: response.data,
+            expireAt: ttl === undefined ? undefined : Date.now() + ttl,
+            ...this.describe(response.config, tags),
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+            etag: getHeader(headers, 'etag'),
+            lastModified: getHeader(headers, 'last-modified'),
+        });
+    }
+
+    /**
+     * 延长已有条目的有效期（如收到 304 Not Modified 后）
+     */
+    public extend(config: AxiosRequestConfig, ttl?: number) {
+        const key = generateRequestKey(config);
+        const entry = this.cache.get(key);
+        if (!entry) return;
+        this.store(key, { ...entry, expireAt: ttl === undefined ? undefined : Date.now() + ttl });
+    }
+
+    /**
+     * 删除单个请求的缓存
+     */
+    public delete(config: AxiosRequestConfig) {
+        this.remove(generateRequestKey(config));
+    }
+
+    /**
+     * 按 URL 模式或自定义条件批量删除缓存
+     * @returns 删除的条目数
+     */
+    public invalidate(matcher: CacheMatcher) {
+        return this.removeWhere((entry, key) =>
+            typeof matcher === 'function'
+                ? matcher(entry, key)
+                : entry.url !== undefined && matchUrlPattern(entry.url, matcher),
+        );
+    }
+
+    /**
+     * 删除带有任一指定标签的缓存
+     * @returns 删除的条目数
+     */
+    public invalidateTags(tags: string[]) {
+        if (!tags.length) return 0;
+        return this.removeWhere((entry) => !!entry.tags?.some((tag) => tags.includes(tag)));
+    }
+
+    /**
+     * 请求去重：相同 Key 的请求在完成前只会执行一次 factory，其余调用共享结果
+     */
+    public dedupe<T>(config: AxiosRequestConfig, factory: () => Promise<T>): Promise<T> {
+        const key = generateRequestKey(config);
+        const pending = this.inflight.get(key);
+        if (pending) return pending;
+
+        const promise = factory().finally(() => this.inflight.delete(key));
+        this.inflight.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * 当前缓存条目数
+     */
+    public get size() {
+        return this.cache.size;
+    }
+
     public clear() {
         this.cache.clear();
+        this.sizes.clear();
+        this.totalBytes = 0;
+        this.persist((storage) => storage.clear());
+    }
+
+    /**
+     * 写入条目并执行 LRU 淘汰
+     * @param persist 是否同步写入持久化适配器（从适配器加载时无需回写）
+     */
+    private store(key: string, entry: CacheEntry, persist = true) {
+        const { maxEntries, maxBytes } = this.options;
+        let size: number;
+        try {
+            size = JSON.stringify(entry).length;
+        } catch {
+            // 无法序列化（如循环引用）的数据不进入缓存
+            return;
+        }
+        // 单条就超过上限，直接放弃缓存
+        if (maxBytes && size > maxBytes) return;
+
+        this.remove(key, false);
+        this.cache.set(key, entry);
+        this.sizes.set(key, size);
+        this.totalBytes += size;
+        if (persist) this.persist((storage) => storage.set(key, entry));
+
+        // 淘汰最久未使用的条目，直到满足上限
+        for (const oldest of this.cache.keys()) {
+            const overEntries = !!maxEntries && this.cache.size > maxEntries;
+            const overBytes = !!maxBytes && this.totalBytes > maxBytes;
+            if (!overEntries && !overBytes) break;
+            if (oldest !== key) this.remove(oldest);
+        }
+    }
+
+    /**
+     * 删除条目
+     * @param persist 是否同步删除持久化数据
+     */
+    private remove(key: string, persist = true) {
+        if (!this.cache.has(key)) return;
+        this.cache.delete(key);
+        this.totalBytes -= this.sizes.get(key) || 0;
+        this.sizes.delete(key);
+        if (persist) this.persist((storage) => storage.delete(key));
+    }
+
+    /**
+     * 删除满足条件的全部条目
+     */
+    private removeWhere(predicate: (entry: CacheEntry, key: string) => boolean) {
+        const keys = [...this.cache.entries()]
+            .filter(([key, entry]) => predicate(entry, key))
+            .map(([key]) => key);
+        keys.forEach((key) => this.remove(key));
+        return keys.length;
+    }
+
+    /**
+     * 条目中用于失效匹配的请求信息
+     */
+    private describe(config: AxiosRequestConfig, tags?: string[]) {
+        return {
+            url: config.url,
+            method: (config.method || 'get').toLowerCase(),
+            tags: tags?.length ? tags : undefined,
+        };
+    }
+
+    /**
+     * 过期条目的清理：带有 ETag / Last-Modified 的条目仍可用于条件请求，保留到被 LRU 淘汰
+     */
+    private evictExpired(key: string, entry: CacheEntry) {
+        if (entry.etag || entry.lastModified) return;
+        this.remove(key);
+    }
+
+    /**
+     * 标记为最近使用：移到 Map 末尾
+     */
+    private touch(key: string, entry: CacheEntry) {
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+    }
+
+    /**
+     * 从持久化适配器加载已有条目，已在内存中的新数据优先
+     */
+    private async hydrate() {
+        const { storage } = this.options;
+        if (!storage) return;
+        try {
+            const keys = await storage.keys();
+            for (const key of keys) {
+                const entry = await storage.get(key);
+                if (entry && !this.cache.has(key)) this.store(key, entry, false);
+            }
+        } catch (e) {
+            console.warn('Failed to load persisted cache:', e);
+        }
+    }
+
+    /**
+     * 调用持久化适配器，吞掉同步异常与异步拒绝（如存储配额已满），不影响请求本身
+     */
+    private persist(action: (storage: CacheStorageAdapter) => void | Promise<void>) {
+        const { storage } = this.options;
+        if (!storage) return;
+        try {
+            Promise.resolve(action(storage)).catch((e) =>
+                console.warn('Failed to persist cache:', e),
+            );
+        } catch (e) {
+            console.warn('Failed to persist cache:', e);
+        }
     }
 }
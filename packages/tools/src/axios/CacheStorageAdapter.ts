@@ -0,0 +1,101 @@
+import { IndexedDBHelper, LocalStorageHelper, SessionStorageHelper } from '../web-storage-helper';
+import type { CacheEntry } from './CacheManager';
+
+/**
+ * 缓存持久化适配器
+ * 方法既可以同步返回，也可以返回 Promise（如 IndexedDB）。
+ * CacheManager 启动时通过 keys() + get() 读取全部条目，之后写入/删除会同步到适配器。
+ */
+export interface CacheStorageAdapter {
+    get(key: string): CacheEntry | null | Promise<CacheEntry | null>;
+    set(key: string, entry: CacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    clear(): void | Promise<void>;
+    keys(): string[] | Promise<string[]>;
+}
+
+/** 持久化键的默认前缀，用于和业务自己的存储数据区分 */
+const DEFAULT_PREFIX = 'lania-axios-cache:';
+
+/**
+ * 基于 Web Storage（localStorage / sessionStorage）Helper 的适配器
+ */
+class WebStorageCacheAdapter implements CacheStorageAdapter {
+    constructor(
+        private helper: typeof LocalStorageHelper | typeof SessionStorageHelper,
+        private prefix: string,
+    ) {}
+
+    get(key: string) {
+        return this.helper.get<CacheEntry>(this.prefix + key);
+    }
+
+    set(key: string, entry: CacheEntry) {
+        this.helper.set(this.prefix + key, entry);
+    }
+
+    delete(key: string) {
+        this.helper.delete(this.prefix + key);
+    }
+
+    clear() {
+        // 只清理带前缀的缓存键，不影响其他数据
+        this.keys().forEach((key) => this.delete(key));
+    }
+
+    keys() {
+        return this.helper
+            .keys()
+            .filter((key) => key.startsWith(this.prefix))
+            .map((key) => key.slice(this.prefix.length));
+    }
+}
+
+/**
+ * localStorage 适配器，缓存跨会话保留
+ */
+export class LocalStorageCacheAdapter extends WebStorageCacheAdapter {
+    constructor(prefix = DEFAULT_PREFIX) {
+        super(LocalStorageHelper, prefix);
+    }
+}
+
+/**
+ * sessionStorage 适配器，缓存在标签页关闭后清除
+ */
+export class SessionStorageCacheAdapter extends WebStorageCacheAdapter {
+    constructor(prefix = DEFAULT_PREFIX) {
+        super(SessionStorageHelper, prefix);
+    }
+}
+
+/**
+ * IndexedDB 适配器，适合体积较大的响应
+ */
+export class IndexedDBCacheAdapter implements CacheStorageAdapter {
+    constructor(private prefix = DEFAULT_PREFIX) {}
+
+    get(key: string) {
+        return IndexedDBHelper.get<CacheEntry>(this.prefix + key);
+    }
+
+    set(key: string, entry: CacheEntry) {
+        return IndexedDBHelper.set(this.prefix + key, entry);
+    }
+
+    delete(key: string) {
+        return IndexedDBHelper.delete(this.prefix + key);
+    }
+
+    async clear() {
+        const keys = await this.keys();
+        await Promise.all(keys.map((key) => this.delete(key)));
+    }
+
+    async keys() {
+        const keys = await IndexedDBHelper.keys();
+        return keys
+            .filter((key) => key.startsWith(this.prefix))
+            .map((key) => key.slice(this.prefix.length));
+    }
+}
@@ -1,9 +1,16 @@
 import { CancelTokenSource } from 'axios';
 
+/**
+ * 可取消的请求句柄：推荐使用 AbortController，CancelTokenSource 仅为兼容旧代码保留
+ */
+export type CancelableSource = AbortController | CancelTokenSource;
+
 export class CancelTokenManager {
-    private cancelTokens: Map<string, CancelTokenSource> = new Map();
+    private cancelTokens: Map<string, CancelableSource> = new Map();
+    /** 按分组记录进行中的请求，用于 cancelGroup（如路由切换时取消该页面发起的全部请求） */
+    private groups: Map<string, Set<AbortController>> = new Map();
 
-    public set(cancelTokenId: string, cancelTokenSource: CancelTokenSource) {
+    public set(cancelTokenId: string, cancelTokenSource: CancelableSource) {
         this.cancelTokens.set(cancelTokenId, cancelTokenSource);
     }
 
@@ -11,8 +18,15 @@ export class CancelTokenManager {
         return this.cancelTokens.has(cancelTokenId);
     }
 
-    public delete(cancelTokenId: string) {
-        if (this.has(cancelTokenId)) {
+    /**
+     * 删除取消句柄
+     * @param source 传入时只有当前登记的句柄与之相同才删除，避免误删同 ID 的新请求
+     */
+    public delete(cancelTokenId: string, source?: CancelableSource) {
+        if (
+            this.has(cancelTokenId) &&
+            (!source || this.cancelTokens.get(cancelTokenId) === source)
+        ) {
             this.cancelTokens.delete(cancelTokenId);
         }
     }
@@ -26,17 +40,58 @@ export class CancelTokenManager {
 
     public clear() {
         this.cancelTokens.clear();
+        this.groups.clear();
     }
 
     public cancelById(cancelTokenId: string) {
         const token = this.cancelTokens.get(cancelTokenId);
         if (token) {
-            token.cancel(`The request canceled: ${cancelTokenId}`);
+            this.cancelSource(token, `The request canceled: ${cancelTokenId}`);
             this.cancelTokens.delete(cancelTokenId);
         }
     }
 
     public cancelAll() {
         this.cancelTokens.forEach((_token, key) => this.cancelById(key));
+        this.groups.forEach((_controllers, group) => this.cancelGroup(group));
+    }
+
+    /**
+     * 将请求加入分组
+     */
+    public addToGroup(group: string, controller: AbortController) {
+        const controllers = this.groups.get(group) || new Set<AbortController>();
+        controllers.add(controller);
+        this.groups.set(group, controllers);
+    }
+
+    /**
+     * 请求结束后移出分组
+     */
+    public removeFromGroup(group: string, controller: AbortController) {
+        const controllers = this.groups.get(group);
+        if (!controllers) return;
+        controllers.delete(controller);
+        if (!controllers.size) this.groups.delete(group);
+    }
+
+    /**
+     * 取消分组内的全部请求（包括仍在并发队列中排队的请求）
+     */
+    public cancelGroup(group: string) {
+        const controllers = this.groups.get(group);
+        if (!controllers) return;
+        this.groups.delete(group);
+        controllers.forEach((controller) =>
+            this.cancelSource(controller, `The request group canceled: ${group}`),
+        );
+    }
+
+    private cancelSource(source: CancelableSource, message: string) {
+        if ('abort' in source) {
+            source.abort(message);
+        } else {
+            source.cancel(message);
+        }
     }
 }
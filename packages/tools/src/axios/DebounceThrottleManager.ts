@@ -1,4 +1,5 @@
 import { AxiosRequestConfig } from 'axios';
+import { ThrottledError } from './AxiosWrapperError';
 import { generateRequestKey } from './helper';
 /**
  * 自定义取消错误类型
@@ -23,29 +24,14 @@ interface ThrottleItem {
 // 文件: ./errors/CancelError.ts 或 DebounceThrottleManager.ts 内部
 
 /**
- * 专用于表示请求被取消的错误。
- * 它兼容 Axios 的取消机制（通过 isCancel 属性），并允许使用 instanceof 进行类型安全判断。
+ * 专用于表示请求被防抖/节流取消的错误。
+ * 它兼容 Axios 的取消机制（axios.isCancel），并允许使用 instanceof 进行类型安全判断。
  */
-export class DebounceThrottleCancelError extends Error {
-    // 必须包含此属性以兼容 Axios 的 axios.isCancel(error) 检查
-    public isCancel: boolean = true;
-    // 用于存储 Axios 自身的请求配置等信息，可选
-    public config?: any;
-    public type: 'debounce' | 'throttle';
-
+export class DebounceThrottleCancelError extends ThrottledError {
     constructor(message: string = 'Request was cancelled.', type: 'debounce' | 'throttle') {
-        // 调用 Error 构造函数
-        super(message);
+        super(message, type);
         // 设置 name 属性，有助于调试时识别错误类型
         this.name = 'CancelError';
-        this.type = type;
-        // 保持原型链在继承时的正确性（对旧版JS环境重要）
-        // 现代 TypeScript 目标环境可能不需要，但保留更安全
-        if (typeof Object.setPrototypeOf === 'function') {
-            Object.setPrototypeOf(this, DebounceThrottleCancelError.prototype);
-        } else {
-            (this as any).__proto__ = DebounceThrottleCancelError.prototype;
-        }
     }
 }
 
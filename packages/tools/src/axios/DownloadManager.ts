@@ -0,0 +1,160 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { GlobalConcurrencyController, TaskPriority } from './GlobalConcurrencyController';
+import { getRequestHost } from './helper';
+import {
+    DownloadResult,
+    DownloadTask,
+    DownloadTaskProgress,
+    DownloadTaskStatus,
+} from './DownloadTask';
+
+/**
+ * 下载结果的输出方式
+ * - blob：拼接为 Blob 返回
+ * - stream：通过 task.stream 按顺序输出，不在内存中保留完整文件
+ * - save：拼接为 Blob 并通过 <a download> 保存到本地
+ */
+export type DownloadOutput = 'blob' | 'stream' | 'save';
+
+export interface DownloadOptions {
+    method?: 'get' | 'post';
+    /** 附加的请求配置（params / data / headers 等） */
+    config?: AxiosRequestConfig;
+    /** 保存的文件名，默认解析 Content-Disposition */
+    filename?: string;
+    output?: DownloadOutput; // 默认 blob
+    chunkSize?: number; // 每个 Range 请求的字节数，默认 CHUNK_SIZE（5MB）
+    concurrency?: number; // 单个文件同时下载的分片数，默认 3，同时受全局并发控制器限制
+    retryTimes?: number; // 单个分片的重试次数，默认 3
+    retryDelay?: number; // 重试间隔（毫秒），默认 1000
+    priority?: TaskPriority; // 分片在并发队列中的优先级，默认 low
+    signal?: AbortSignal; // 中止整个下载
+    expectedHash?: string; // 期望的文件摘要，不一致时下载失败
+    hashAlgorithm?: 'md5' | 'sha1' | 'sha256'; // expectedHash 的算法，默认 md5
+    onProgress?: (progress: DownloadTaskProgress, task: DownloadTask) => void;
+    onStatusChange?: (status: DownloadTaskStatus, task: DownloadTask) => void;
+}
+
+/**
+ * 分片的字节区间，end 不含
+ */
+export interface DownloadRange {
+    start: number;
+    end: number;
+    /** ETag 或 Last-Modified，作为 If-Range 发送 */
+    validator?: string;
+}
+
+/**
+ * 下载管理器：通过 HTTP Range 请求并行下载分片，分片请求受全局并发控制器限制
+ */
+export class DownloadManager {
+    private tasks: DownloadTask[] = [];
+
+    constructor(
+        private instance: AxiosInstance,
+        private concurrencyController: GlobalConcurrencyController,
+    ) {}
+
+    /**
+     * 下载文件，返回下载结果
+     */
+    download(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+        return this.createTask(url, options).promise;
+    }
+
+    /**
+     * 创建下载任务并立即开始，返回可暂停/恢复/取消的任务对象
+     */
+    createTask(url: string, options: DownloadOptions = {}) {
+        const task = new DownloadTask(this, url, options);
+        this.tasks.push(task);
+        // 外部中止信号等同于取消任务，未结束时由任务自己监听
+        if (options.signal?.aborted) task.cancel();
+        void task.run();
+        return task;
+    }
+
+    getTasks() {
+        return [...this.tasks];
+    }
+
+    /**
+     * 从列表中移除任务，未结束的任务会先被取消
+     */
+    removeTask(taskOrId: DownloadTask | string) {
+        const task =
+            typeof taskOrId === 'string' ? this.tasks.find((t) => t.id === taskOrId) : taskOrId;
+        if (!task) return;
+        this.tasks = this.tasks.filter((t) => t !== task);
+        task.cancel();
+    }
+
+    pauseAll() {
+        this.tasks.forEach((task) => task.pause());
+    }
+
+    resumeAll() {
+        this.tasks.forEach((task) => task.resume());
+    }
+
+    cancelAll() {
+        this.tasks.forEach((task) => task.cancel());
+    }
+
+    /**
+     * 发送一次分片请求，range 为 null 时请求完整文件。
+     * 请求跳过缓存、去重与实例级重试，失败时由这里延迟重试（取消不重试），重试等待期间不占用并发槽位。
+     */
+    async requestRange(
+        url: string,
+        options: DownloadOptions,
+        range: DownloadRange | null,
+        onProgress: (loaded: number) => void,
+        signal: AbortSignal,
+    ): Promise<AxiosResponse<ArrayBuffer>> {
+        const {
+            method = 'get',
+            config = {},
+            retryTimes = 3,
+            retryDelay = 1000,
+            priority = 'low',
+        } = options;
+        const headers: Record<string, string> = { ...(config.headers as any) };
+        if (range) {
+            headers.Range = `bytes=${range.start}-${range.end - 1}`;
+            if (range.validator) headers['If-Range'] = range.validator;
+        }
+        const requestConfig = {
+            ...config,
+            url,
+            method,
+            headers,
+            responseType: 'arraybuffer',
+            signal,
+            policy: false,
+            onDownloadProgress: (e) => onProgress(e.loaded),
+        } as AxiosRequestConfig;
+        const runOptions = {
+            priority,
+            key: getRequestHost(url, config.baseURL ?? this.instance.defaults?.baseURL),
+            signal,
+        };
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.concurrencyController.run(
+                    () => this.instance.request<ArrayBuffer>(requestConfig),
+                    runOptions,
+                );
+            } catch (error: any) {
+                if (axios.isCancel(error) || signal.aborted) throw error;
+                // 超过最大重试次数，抛出原始错误
+                if (attempt >= retryTimes) throw error;
+                console.warn(
+                    `Download range ${headers.Range || 'full'} failed (Attempt ${attempt + 1}/${retryTimes}). Retrying in ${retryDelay}ms...`,
+                );
+                await new Promise((r) => setTimeout(r, retryDelay));
+            }
+        }
+    }
+}
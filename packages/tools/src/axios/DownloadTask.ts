@@ -0,0 +1,420 @@
+import { CanceledError } from 'axios';
+import SparkMD5 from 'spark-md5';
+import type { DownloadManager, DownloadOptions } from './DownloadManager';
+import { getDownloadFilename, getHeader, saveBlob } from './helper';
+import { CHUNK_SIZE } from './const';
+import { digestSha, ShaHasher } from './sha-hasher';
+
+/**
+ * 下载任务状态
+ * - pending：等待开始（刚创建或刚恢复）
+ * - downloading：下载分片中
+ * - verifying：校验文件摘要
+ * - paused / done / failed / canceled
+ */
+export type DownloadTaskStatus =
+    | 'pending'
+    | 'downloading'
+    | 'verifying'
+    | 'paused'
+    | 'done'
+    | 'failed'
+    | 'canceled';
+
+/**
+ * 下载进度
+ */
+export interface DownloadTaskProgress {
+    /** 已下载字节数（含进行中分片的已接收部分） */
+    loaded: number;
+    /** 文件大小，服务端未返回时为 0 */
+    total: number;
+    /** 百分比，0 ~ 100，大小未知时为 0 */
+    percent: number;
+    /** 本次下载的平均速度（字节/秒） */
+    speed: number;
+    /** 预计剩余时间（秒），速度或大小未知时为 Infinity */
+    eta: number;
+}
+
+export interface DownloadResult {
+    filename: string;
+    size: number;
+    /** Content-Type */
+    type: string;
+    /** output 为 blob / save 时有值 */
+    blob?: Blob;
+    /** 计算出的文件摘要，传入 expectedHash 时有值 */
+    hash?: string;
+}
+
+interface Deferred<T> {
+    promise: Promise<T>;
+    resolve: (value: T) => void;
+    reject: (reason?: any) => void;
+}
+
+function createDeferred<T>(): Deferred<T> {
+    let resolve!: (value: T) => void;
+    let reject!: (reason?: any) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    // 调用方可能只消费 stream 而不等待 promise，避免未处理的 rejection
+    promise.catch(() => undefined);
+    return { promise, resolve, reject };
+}
+
+/**
+ * 文件摘要：MD5 按文件顺序增量累积；SHA 在完整内容会保留（blob / save）时于下载完成后由 SubtleCrypto 一次性计算，
+ * 流式输出不保留已输出的分片，只能由 ShaHasher 增量计算
+ */
+function createHasher(algorithm: NonNullable<DownloadOptions['hashAlgorithm']>, stream: boolean) {
+    if (algorithm === 'md5') {
+        const spark = new SparkMD5.ArrayBuffer();
+        return {
+            update(bytes: Uint8Array) {
+                spark.append(
+                    bytes.buffer.slice(
+                        bytes.byteOffset,
+                        bytes.byteOffset + bytes.byteLength,
+                    ) as ArrayBuffer,
+                );
+            },
+            async digest() {
+                return spark.end();
+            },
+        };
+    }
+    const shaAlgorithm = algorithm;
+    const sha = stream ? new ShaHasher(shaAlgorithm) : null;
+    return {
+        update(bytes: Uint8Array) {
+            sha?.append(bytes);
+        },
+        async digest(blob?: Blob) {
+            return sha ? sha.end() : digestSha(shaAlgorithm, await blob!.arrayBuffer());
+        },
+    };
+}
+
+/**
+ * 解析 Content-Range: bytes 0-1023/5000，返回文件总大小，未知时返回 null
+ */
+function parseContentRangeTotal(value?: string) {
+    const match = value && /\/(\d+)\s*$/.exec(value);
+    return match ? Number(match[1]) : null;
+}
+
+let taskSeed = 0;
+
+/**
+ * 单个文件的下载任务，由 DownloadManager 创建。
+ * 先请求第一个分片探测文件大小与 Range 支持情况，再并行下载其余分片；
+ * 暂停会中止进行中的分片，已完成的分片保留在内存中，恢复时只下载剩余部分。
+ */
+export class DownloadTask {
+    public readonly id = `download-${++taskSeed}`;
+    /** output 为 stream 时可用，按文件顺序输出已下载的内容 */
+    public readonly stream: ReadableStream<Uint8Array> | null = null;
+    public filename: string;
+    /** 文件大小，探测完成前为 null */
+    public total: number | null = null;
+    /** 失败原因，status 为 failed 时有值 */
+    public error: any = null;
+    private _status: DownloadTaskStatus = 'pending';
+    private chunks: { start: number; end: number }[] = [];
+    private finished: Set<number> = new Set();
+    /** 已完成但尚未按顺序输出的分片 */
+    private pendingData: Map<number, Uint8Array> = new Map();
+    /** 下一个按顺序输出的分片索引 */
+    private nextOutput = 0;
+    /** 已按顺序输出的内容（output 为 stream 时不保留） */
+    private parts: Uint8Array[] = [];
+    /** 进行中分片的已接收字节数 */
+    private chunkLoaded: Map<number, number> = new Map();
+    private rangeSupported = false;
+    /** ETag 或 Last-Modified，通过 If-Range 保证各分片来自同一版本的文件 */
+    private validator?: string;
+    private type = '';
+    private hasher: ReturnType<typeof createHasher> | null;
+    private streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+    private controller: AbortController | null = null;
+    private deferred = createDeferred<DownloadResult>();
+    private sessionStart = 0;
+    private sessionStartBytes = 0;
+    /** options.signal 中止时取消任务 */
+    private onSignalAbort = () => this.cancel();
+
+    constructor(
+        private manager: DownloadManager,
+        public readonly url: string,
+        private options: DownloadOptions,
+    ) {
+        this.filename = options.filename || '';
+        const { expectedHash, hashAlgorithm = 'md5' } = options;
+        this.hasher = expectedHash
+            ? createHasher(hashAlgorithm, options.output === 'stream')
+            : null;
+        if (options.output === 'stream') {
+            this.stream = new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                    this.streamController = controller;
+                },
+            });
+        }
+        options.signal?.addEventListener('abort', this.onSignalAbort);
+    }
+
+    get status() {
+        return this._status;
+    }
+
+    /**
+     * 下载完成时 resolve；失败或取消时 reject。失败后调用 resume() 会生成新的 promise
+     */
+    get promise() {
+        return this.deferred.promise;
+    }
+
+    /**
+     * 开始下载，由 DownloadManager 创建任务后立即调用，resume() 后再次调用
+     */
+    public async run() {
+        if (this._status !== 'pending') return;
+        const controller = new AbortController();
+        const { signal } = controller;
+        this.controller = controller;
+        this.setStatus('downloading');
+        this.sessionStart = Date.now();
+        this.sessionStartBytes = this.getLoaded();
+        try {
+            if (this.total === null) await this.probe(signal);
+            if (signal.aborted) return;
+
+            // 每条通道依次领取下一个未下载的分片
+            const inFlight = new Set<number>();
+            const nextIndex = () =>
+                this.chunks.findIndex((_, i) => !this.finished.has(i) && !inFlight.has(i));
+            const lane = async () => {
+                let index: number;
+                while (!signal.aborted && (index = nextIndex()) !== -1) {
+                    inFlight.add(index);
+                    await this.fetchChunk(index, signal);
+                }
+            };
+            const { concurrency = 3 } = this.options;
+            const lanes = this.rangeSupported ? concurrency : 1;
+            await Promise.all(Array.from({ length: lanes }, lane));
+            if (signal.aborted) return;
+
+            await this.finish();
+        } catch (error) {
+            // 暂停与取消由 pause() / cancel() 处理
+            if (signal.aborted) return;
+            controller.abort();
+            this.chunkLoaded.clear();
+            this.error = error;
+            this.setStatus('failed');
+            this.streamController?.error(error);
+            this.deferred.reject(error);
+        } finally {
+            if (this.controller === controller) this.controller = null;
+        }
+    }
+
+    /**
+     * 暂停：中止进行中的分片，已完成的分片保留
+     */
+    public pause() {
+        if (this._status !== 'pending' && this._status !== 'downloading') return;
+        this.controller?.abort();
+        this.chunkLoaded.clear();
+        this.setStatus('paused');
+    }
+
+    /**
+     * 从暂停或失败状态恢复；stream 输出失败后流已关闭，无法恢复
+     */
+    public resume() {
+        if (this._status === 'failed' && !this.stream) {
+            this.deferred = createDeferred();
+            this.error = null;
+        } else if (this._status !== 'paused') {
+            return;
+        }
+        this.setStatus('pending');
+        void this.run();
+    }
+
+    /**
+     * 取消下载并释放已下载的内容，promise 以 CanceledError 拒绝
+     */
+    public cancel() {
+        if (['done', 'failed', 'canceled'].includes(this._status)) return;
+        this.controller?.abort();
+        this.chunkLoaded.clear();
+        this.pendingData.clear();
+        this.parts = [];
+        this.setStatus('canceled');
+        const error = new CanceledError('Download canceled');
+        this.streamController?.error(error);
+        this.deferred.reject(error);
+    }
+
+    public getProgress(): DownloadTaskProgress {
+        const total = this.total || 0;
+        const loaded = this.getLoaded();
+        const elapsed = (Date.now() - this.sessionStart) / 1000;
+        const speed =
+            this._status === 'downloading' && elapsed > 0
+                ? (loaded - this.sessionStartBytes) / elapsed
+                : 0;
+        let eta = speed > 0 && total ? (total - loaded) / speed : Infinity;
+        if (this.total !== null && loaded >= total) eta = 0;
+        return {
+            loaded,
+            total,
+            percent: total ? (loaded / total) * 100 : this._status === 'done' ? 100 : 0,
+            speed,
+            eta,
+        };
+    }
+
+    /**
+     * 请求第一个分片：206 时按 Content-Range 规划其余分片；
+     * 200 说明服务端不支持 Range，响应即为完整文件
+     */
+    private async probe(signal: AbortSignal) {
+        const { chunkSize = CHUNK_SIZE } = this.options;
+        const res = await this.manager.requestRange(
+            this.url,
+            this.options,
+            { start: 0, end: chunkSize },
+            (loaded) => this.onChunkProgress(0, loaded),
+            signal,
+        );
+        const bytes = new Uint8Array(res.data);
+        const total =
+            res.status === 206
+                ? parseContentRangeTotal(getHeader(res.headers, 'content-range'))
+                : null;
+        this.rangeSupported = total !== null;
+        this.total = total ?? bytes.byteLength;
+        this.validator = getHeader(res.headers, 'etag') || getHeader(res.headers, 'last-modified');
+        this.type = getHeader(res.headers, 'content-type') || '';
+        this.filename = getDownloadFilename(this.url, res.headers, this.filename);
+
+        // 不支持 Range 时响应已是完整文件，作为唯一的分片
+        this.chunks = [];
+        const size = this.rangeSupported ? chunkSize : this.total;
+        for (let start = 0; start < this.total; start += size) {
+            this.chunks.push({ start, end: Math.min(start + size, this.total) });
+        }
+        if (!this.chunks.length) return;
+        this.completeChunk(0, bytes);
+    }
+
+    private async fetchChunk(index: number, signal: AbortSignal) {
+        const { start, end } = this.chunks[index];
+        const res = await this.manager.requestRange(
+            this.url,
+            this.options,
+            this.rangeSupported ? { start, end, validator: this.validator } : null,
+            (loaded) => this.onChunkProgress(index, loaded),
+            signal,
+        );
+        if (signal.aborted) return;
+        // If-Range 不匹配时服务端返回 200 与完整的新文件
+        if (this.rangeSupported && res.status !== 206) {
+            throw new Error(`Download source changed during transfer: ${this.url}`);
+        }
+        const bytes = new Uint8Array(res.data);
+        if (bytes.byteLength !== end - start) {
+            throw new Error(
+                `Unexpected chunk size for bytes ${start}-${end - 1}: ${bytes.byteLength}`,
+            );
+        }
+        this.completeChunk(index, bytes);
+    }
+
+    private onChunkProgress(index: number, loaded: number) {
+        this.chunkLoaded.set(index, loaded);
+        this.reportProgress();
+    }
+
+    /**
+     * 记录完成的分片，并按文件顺序输出连续的已完成分片
+     */
+    private completeChunk(index: number, bytes: Uint8Array) {
+        this.chunkLoaded.delete(index);
+        this.finished.add(index);
+        this.pendingData.set(index, bytes);
+        while (this.pendingData.has(this.nextOutput)) {
+            const data = this.pendingData.get(this.nextOutput)!;
+            this.pendingData.delete(this.nextOutput);
+            this.hasher?.update(data);
+            if (this.streamController) this.streamController.enqueue(data);
+            else this.parts.push(data);
+            this.nextOutput++;
+        }
+        this.reportProgress();
+    }
+
+    private async finish() {
+        const { expectedHash, output = 'blob' } = this.options;
+        const blob = this.streamController
+            ? undefined
+            : new Blob(this.parts as BlobPart[], { type: this.type });
+        let hash: string | undefined;
+        if (this.hasher) {
+            this.setStatus('verifying');
+            hash = await this.hasher.digest(blob);
+            // 校验期间已被取消
+            if (this._status !== 'verifying') return;
+            if (hash.toLowerCase() !== expectedHash!.toLowerCase()) {
+                throw new Error(
+                    `Download integrity check failed: expected ${expectedHash}, got ${hash}`,
+                );
+            }
+        }
+        if (this.streamController) {
+            this.streamController.close();
+        } else {
+            this.parts = [];
+            if (output === 'save') saveBlob(blob!, this.filename);
+        }
+        this.setStatus('done');
+        this.reportProgress();
+        this.deferred.resolve({
+            filename: this.filename,
+            size: this.total || 0,
+            type: this.type,
+            blob,
+            hash,
+        });
+    }
+
+    private getLoaded() {
+        let loaded = 0;
+        this.finished.forEach((i) => (loaded += this.chunks[i].end - this.chunks[i].start));
+        this.chunkLoaded.forEach((bytes) => (loaded += bytes));
+        return loaded;
+    }
+
+    private setStatus(status: DownloadTaskStatus) {
+        this._status = status;
+        // 结束后移除外部中止信号的监听，失败后恢复时重新监听
+        if (['done', 'failed', 'canceled'].includes(status)) {
+            this.options.signal?.removeEventListener('abort', this.onSignalAbort);
+        } else {
+            this.options.signal?.addEventListener('abort', this.onSignalAbort);
+        }
+        this.options.onStatusChange?.(status, this);
+    }
+
+    private reportProgress() {
+        this.options.onProgress?.(this.getProgress(), this);
+    }
+}
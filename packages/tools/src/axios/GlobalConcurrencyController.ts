@@ -1,4 +1,51 @@
-import { MAX_CONCURRENT_REQUESTS } from './const';
+import { CanceledError } from 'axios';
+import { MAX_CONCURRENT_REQUESTS, TASK_PRIORITIES } from './const';
+
+/**
+ * 任务优先级：'high' | 'normal' | 'low' 或数字，数值越大越先执行
+ */
+export type TaskPriority = keyof typeof TASK_PRIORITIES | number;
+
+/**
+ * 提交任务时的调度选项
+ */
+export interface RunOptions {
+    /** 优先级，默认 'normal'，同优先级按提交顺序执行 */
+    priority?: TaskPriority;
+    /** 分组 Key（如请求的 host），用于按 Key 限制并发 */
+    key?: string;
+    /** 中止信号：任务仍在排队时中止会将其移出队列并以 CanceledError 拒绝 */
+    signal?: AbortSignal;
+}
+
+export interface GlobalConcurrencyControllerOptions {
+    /** 全局最大并发数 */
+    maxConcurrent?: number;
+    /** 每个 Key 的默认最大并发数，未设置时只受全局限制 */
+    maxConcurrentPerKey?: number;
+    /** 指定 Key 的最大并发数，优先级高于 maxConcurrentPerKey */
+    keyLimits?: Record<string, number>;
+}
+
+/**
+ * 队列统计信息
+ */
+export interface ConcurrencyStats {
+    /** 执行中的任务数 */
+    active: number;
+    /** 排队中的任务数 */
+    queued: number;
+    /** 已完成（含失败）的任务数 */
+    completed: number;
+    /** 已开始执行的任务的平均等待时间（毫秒） */
+    averageWait: number;
+    /** 当前全局最大并发数 */
+    maxConcurrent: number;
+    /** 是否已暂停 */
+    paused: boolean;
+    /** 各 Key 执行中的任务数 */
+    activeByKey: Record<string, number>;
+}
 
 /**
  * 结构体：表示一个等待中的任务。
@@ -10,35 +57,76 @@ interface QueuedTask<T> {
     resolve: (value: T) => void;
     // 任务失败时调用的 Promise reject 函数
     reject: (reason?: any) => void;
+    // 数值化的优先级
+    priority: number;
+    // 分组 Key
+    key?: string;
+    // 入队时间，用于统计等待时长
+    enqueuedAt: number;
+    // 移除中止信号监听，任务开始执行后调用
+    cleanup?: () => void;
 }
 
 export class GlobalConcurrencyController {
     private maxConcurrent: number;
+    private maxConcurrentPerKey?: number;
+    private keyLimits: Map<string, number>;
     private activeCount = 0;
-    // 队列存储 QueuedTask 结构，用于处理 resolve/reject
+    private activeByKey: Map<string, number> = new Map();
+    // 队列按优先级从高到低排列，同优先级保持 FIFO
     private queue: QueuedTask<any>[] = [];
+    private paused = false;
+    private completedCount = 0;
+    private startedCount = 0;
+    private totalWait = 0;
+
+    /**
+     * @param options 最大并发数或完整配置。如果传入 0 或负数，则默认使用 MAX_CONCURRENT_REQUESTS。
+     */
+    constructor(options?: number | GlobalConcurrencyControllerOptions) {
+        const opts = typeof options === 'number' ? { maxConcurrent: options } : options || {};
+        this.maxConcurrent = this.normalizeLimit(opts.maxConcurrent);
+        this.maxConcurrentPerKey = opts.maxConcurrentPerKey;
+        this.keyLimits = new Map(Object.entries(opts.keyLimits || {}));
+    }
+
+    /**
+     * 确保 maxConcurrent 是一个正数，否则使用默认值
+     */
+    private normalizeLimit(limit?: number) {
+        return typeof limit !== 'number' || limit <= 0 ? MAX_CONCURRENT_REQUESTS : limit;
+    }
 
     /**
-     * @param maxConcurrent 最大并发数。如果传入 0 或负数，则默认使用 MAX_CONCURRENT_REQUESTS。
+     * 指定 Key 的并发上限，未配置时返回 Infinity
      */
-    constructor(maxConcurrent?: number) {
-        // 确保 maxConcurrent 是一个正数，否则设置为 Infinity
-        this.maxConcurrent = typeof maxConcurrent !== 'number' || maxConcurrent <= 0 ? MAX_CONCURRENT_REQUESTS : maxConcurrent;
+    private getKeyLimit(key?: string) {
+        if (key === undefined) return Infinity;
+        return this.keyLimits.get(key) ?? this.maxConcurrentPerKey ?? Infinity;
     }
 
     /**
-     * 内部调度器：检查队列并启动下一个任务。
+     * 任务所属 Key 是否还有空闲槽位
+     */
+    private hasKeySlot(key?: string) {
+        if (key === undefined) return true;
+        return (this.activeByKey.get(key) || 0) < this.getKeyLimit(key);
+    }
+
+    /**
+     * 内部调度器：按优先级启动所有可以执行的任务。
+     * 被 Key 限制挡住的任务不会阻塞其他 Key 的任务。
      */
     private scheduleNext(): void {
-        // 确保队列中有任务并且当前活动任务数未超过限制（以防万一）
-        if (this.queue.length > 0 && this.activeCount < this.maxConcurrent) {
-            const nextTask = this.queue.shift();
-            // 如果成功取出任务，立即开始执行
-            if (nextTask) {
-                // 启动任务，但不需要等待它的结果。
-                // 这里的 activeCount 增加是在 run 方法的 finally 块执行之前。
-                this.executeTask(nextTask);
+        let index = 0;
+        while (!this.paused && this.activeCount < this.maxConcurrent && index < this.queue.length) {
+            const nextTask = this.queue[index];
+            if (!this.hasKeySlot(nextTask.key)) {
+                index++;
+                continue;
             }
+            this.queue.splice(index, 1);
+            this.executeTask(nextTask);
         }
     }
 
@@ -46,13 +134,26 @@ export class GlobalConcurrencyController {
      * 执行实际任务并处理结果
      */
     private executeTask<T>(queuedTask: QueuedTask<T>): void {
+        const { key } = queuedTask;
+        // 已开始执行的任务由其自身（如 axios 的 signal）负责响应中止
+        queuedTask.cleanup?.();
         // 增加活跃任务计数
         this.activeCount++;
+        if (key !== undefined) this.activeByKey.set(key, (this.activeByKey.get(key) || 0) + 1);
+        this.startedCount++;
+        this.totalWait += Date.now() - queuedTask.enqueuedAt;
+
+        let result: Promise<T>;
+        try {
+            result = queuedTask.task();
+        } catch (error) {
+            // 同步抛出的异常同样按失败处理，避免计数泄漏
+            result = Promise.reject(error);
+        }
         // 执行任务并处理其结果
-        queuedTask
-            .task()
-            .then((result) => {
-                queuedTask.resolve(result); // 成功时通知等待的 Promise
+        Promise.resolve(result)
+            .then((value) => {
+                queuedTask.resolve(value); // 成功时通知等待的 Promise
             })
             .catch((error) => {
                 queuedTask.reject(error); // 失败时通知等待的 Promise
@@ -60,6 +161,12 @@ export class GlobalConcurrencyController {
             .finally(() => {
                 // 任务完成，减少活跃任务计数
                 this.activeCount--;
+                if (key !== undefined) {
+                    const count = (this.activeByKey.get(key) || 1) - 1;
+                    if (count > 0) this.activeByKey.set(key, count);
+                    else this.activeByKey.delete(key);
+                }
+                this.completedCount++;
                 // 尝试启动队列中的下一个任务
                 this.scheduleNext();
             });
@@ -67,29 +174,101 @@ export class GlobalConcurrencyController {
 
     /**
      * 运行一个异步任务，如果并发数已满则将其排队。
+     * 有空闲槽位时任务会在本次调用中同步启动。
      * @param task 要执行的异步函数，返回一个 Promise<T>。
+     * @param options 优先级与分组 Key
      * @returns 任务执行结果的 Promise。
      */
-    async run<T>(task: () => Promise<T>): Promise<T> {
-        // 1. 如果有空闲的槽位，立即执行任务。
-        if (this.activeCount < this.maxConcurrent) {
-            this.activeCount++; // 提前增加计数，保证原子性
-            try {
-                return await task();
-            } finally {
-                this.activeCount--; // 任务完成，减少计数
-                this.scheduleNext(); // 尝试启动下一个排队任务
-            }
-        }
+    run<T>(task: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+        const { priority = 'normal', key, signal } = options;
+        const numericPriority = typeof priority === 'number' ? priority : TASK_PRIORITIES[priority];
 
-        // 2. 如果没有空闲槽位，将任务排队等待。
         return new Promise<T>((resolve, reject) => {
-            this.queue.push({ task, resolve, reject });
-            // 额外调用 scheduleNext():
-            // 如果 maxConcurrent 恰好为 0（虽然构造函数会将其转为 MAX_CONCURRENT_REQUESTS）
-            // 或者 activeCount 刚刚减少，这个调用可以确保任务在 activeCount 恢复后立即开始。
-            // 尤其在任务从队列中被启动，但 activeCount 还没来得及增加时，它可以防止死锁。
+            if (signal?.aborted) {
+                reject(this.createAbortError(signal));
+                return;
+            }
+            const queuedTask: QueuedTask<T> = {
+                task,
+                resolve,
+                reject,
+                priority: numericPriority,
+                key,
+                enqueuedAt: Date.now(),
+            };
+            // 插入到第一个优先级更低的任务之前，保证同优先级 FIFO
+            const index = this.queue.findIndex((item) => item.priority < numericPriority);
+            if (index === -1) this.queue.push(queuedTask);
+            else this.queue.splice(index, 0, queuedTask);
+
+            if (signal) {
+                const onAbort = () => {
+                    const position = this.queue.indexOf(queuedTask);
+                    if (position === -1) return;
+                    this.queue.splice(position, 1);
+                    reject(this.createAbortError(signal));
+                };
+                signal.addEventListener('abort', onAbort);
+                queuedTask.cleanup = () => signal.removeEventListener('abort', onAbort);
+            }
             this.scheduleNext();
         });
     }
+
+    /**
+     * 排队任务被中止时的错误，axios.isCancel 可以识别
+     */
+    private createAbortError(signal: AbortSignal) {
+        const reason = (signal as AbortSignal & { reason?: unknown }).reason;
+        return new CanceledError(
+            typeof reason === 'string' ? reason : 'The queued task was aborted',
+        );
+    }
+
+    /**
+     * 暂停调度：执行中的任务不受影响，新任务只排队不执行
+     */
+    pause() {
+        this.paused = true;
+    }
+
+    /**
+     * 恢复调度，立即启动排队中的任务
+     */
+    resume() {
+        this.paused = false;
+        this.scheduleNext();
+    }
+
+    /**
+     * 运行时调整全局最大并发数，调大后会立即启动排队中的任务
+     */
+    setMaxConcurrent(maxConcurrent: number) {
+        this.maxConcurrent = this.normalizeLimit(maxConcurrent);
+        this.scheduleNext();
+    }
+
+    /**
+     * 运行时调整指定 Key 的最大并发数，传入 undefined 表示恢复默认
+     */
+    setKeyLimit(key: string, limit?: number) {
+        if (limit === undefined) this.keyLimits.delete(key);
+        else this.keyLimits.set(key, limit);
+        this.scheduleNext();
+    }
+
+    /**
+     * 获取队列统计信息
+     */
+    getStats(): ConcurrencyStats {
+        return {
+            active: this.activeCount,
+            queued: this.queue.length,
+            completed: this.completedCount,
+            averageWait: this.startedCount ? this.totalWait / this.startedCount : 0,
+            maxConcurrent: this.maxConcurrent,
+            paused: this.paused,
+            activeByKey: Object.fromEntries(this.activeByKey),
+        };
+    }
 }
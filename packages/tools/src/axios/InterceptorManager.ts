@@ -1,24 +1,56 @@
-import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AxiosWrapperError, BusinessError, toAxiosWrapperError } from './AxiosWrapperError';
 import { CacheManager } from './CacheManager';
-// 假设 DebounceThrottleManager 导出了自定义的 CancelError
 import { DebounceThrottleManager } from './DebounceThrottleManager';
+import {
+    getCancelReason,
+    getHeader,
+    parseCacheControl,
+    resolveRequestPolicy,
+    setRequestHeader,
+} from './helper';
+import type { LifecycleEmitter } from './LifecycleEmitter';
+import {
+    ErrorMiddlewareContext,
+    MiddlewareContextMap,
+    MiddlewarePhase,
+    MiddlewarePipeline,
+    RequestMiddlewareContext,
+    ResponseMiddlewareContext,
+} from './MiddlewarePipeline';
+import { ResponseSchema, validateResponse } from './ResponseValidator';
 import type { WrapperOptions } from '..';
 
 interface InterceptorManagerOptions {
     instanceOptions: WrapperOptions & {
         // 核心业务逻辑（Token刷新和重试）由父级 AxiosWrapper 提供，以保证职责分离
         requestWithRefreshToken: (res: AxiosResponse<any, any>) => Promise<AxiosResponse<any, any>>;
-        retryRequest: (err: any) => Promise<AxiosResponse<any, any>>;
+        // 发送前检查 Token 是否即将过期或正在刷新，返回应使用的 Token
+        ensureFreshToken: (token: string) => Promise<string>;
+        // 按 authStrategy 为请求添加认证信息
+        applyAuth: (config: InternalAxiosRequestConfig, token?: string) => Promise<void>;
+        // 判断是否重试并计算等待时间，等待与重新排队由 AxiosWrapper.dispatch 完成
+        scheduleRetry: (err: any) => Promise<boolean>;
+        // stale-while-revalidate 的后台刷新，同样交由 AxiosWrapper 放入并发队列
+        revalidateRequest: (config: InternalAxiosRequestConfig) => void;
     };
     instance: AxiosInstance;
     cacheManager: CacheManager;
     debounceThrottleManager: DebounceThrottleManager;
+    lifecycle: LifecycleEmitter;
 }
 
+// 发起条件请求（If-None-Match / If-Modified-Since）时在配置上做的标记
+type RevalidatingConfig = InternalAxiosRequestConfig & {
+    __cacheRevalidating?: boolean;
+};
+
 // 缓存命中时，返回的假响应错误对象必须包含这个标志
 // 确保它不会被 ResponseError 拦截器捕获
 interface CacheHitError extends AxiosResponse {
     __fromCache: true;
+    /** 命中的是已过期数据（stale-while-revalidate），后台正在刷新 */
+    __stale?: boolean;
 }
 
 export class InterceptorManager {
@@ -26,21 +58,85 @@ export class InterceptorManager {
     private instance: AxiosInstance;
     private cacheManager: CacheManager;
     private debounceThrottleManager: DebounceThrottleManager;
+    private lifecycle: LifecycleEmitter;
     private errorLocks: Set<string> = new Set(); // 锁键统一使用 string 类型
+    /** 已经过 onError 上报的错误，重试中内层请求的失败向外抛出时不再重复上报 */
+    private reportedErrors: WeakSet<AxiosWrapperError> = new WeakSet();
+    private pipelines: {
+        [P in MiddlewarePhase]: MiddlewarePipeline<MiddlewareContextMap[P]>;
+    };
 
     constructor(opts: InterceptorManagerOptions) {
         this.instanceOptions = opts.instanceOptions;
         this.instance = opts.instance;
         this.cacheManager = opts.cacheManager;
         this.debounceThrottleManager = opts.debounceThrottleManager;
+        this.lifecycle = opts.lifecycle;
+        this.pipelines = this.createPipelines();
+    }
+
+    /**
+     * 获取指定阶段的中间件管道
+     */
+    public getPipeline<P extends MiddlewarePhase>(
+        phase: P,
+    ): MiddlewarePipeline<MiddlewareContextMap[P]> {
+        return this.pipelines[phase];
+    }
+
+    /**
+     * 内置行为注册为具名中间件，可以通过 getPipeline 调整顺序、移除或包装
+     */
+    private createPipelines() {
+        // 执行完内置逻辑后继续后续中间件
+        const step =
+            <Ctx>(fn: (ctx: Ctx) => unknown) =>
+            async (ctx: Ctx, next: () => Promise<void>) => {
+                await fn(ctx);
+                await next();
+            };
+        // 错误中间件返回响应时视为错误已恢复，跳过后续中间件
+        const recover =
+            (fn: (ctx: ErrorMiddlewareContext) => Promise<AxiosResponse | void>) =>
+            async (ctx: ErrorMiddlewareContext, next: () => Promise<void>) => {
+                const result = await fn(ctx);
+                if (result && result.config) {
+                    ctx.response = result;
+                    return;
+                }
+                await next();
+            };
+
+        // 缓存相关中间件在最前：写入的是未经 responseHandler / codeHandlers 转换的原始响应，
+        // 缓存命中时再统一经过后续转换，保证与网络响应的处理结果一致
+        return {
+            request: new MiddlewarePipeline<RequestMiddlewareContext>()
+                .use(step(this.tokenMiddleware), { name: 'token' })
+                .use(step(this.cacheRequestMiddleware), { name: 'cache' })
+                .use(step(this.debounceMiddleware), { name: 'debounce' })
+                .use(step(this.throttleMiddleware), { name: 'throttle' })
+                .use(step(this.customRequestMiddleware), { name: 'interceptor' }),
+            response: new MiddlewarePipeline<ResponseMiddlewareContext>()
+                .use(step(this.notModifiedMiddleware), { name: 'notModified' })
+                .use(step(this.cacheResponseMiddleware), { name: 'cache' })
+                .use(step(this.invalidateMiddleware), { name: 'invalidate' })
+                .use(step(this.flagMiddleware), { name: 'responseHandler' })
+                .use(step(this.doubleTokenMiddleware), { name: 'doubleToken' })
+                .use(step(this.customResponseMiddleware), { name: 'interceptor' })
+                .use(step(this.validateResponseMiddleware), { name: 'validate' }),
+            error: new MiddlewarePipeline<ErrorMiddlewareContext>()
+                .use(recover(this.doubleTokenErrorMiddleware), { name: 'doubleToken' })
+                .use(recover(this.customResponseErrorMiddleware), { name: 'interceptor' })
+                .use(recover(this.retryMiddleware), { name: 'retry' }),
+        };
     }
 
     /**
      * 判断是否为主动取消、防抖/节流取消或缓存命中的错误
      */
     private isCancelError(err: any): boolean {
-        // 兼容 Axios 原生 CancelToken (axios.isCancel) 和 我们自定义的防抖错误 (err.isCancel)
-        return err instanceof DebounceThrottleManager || axios.isCancel(err);
+        // 兼容 Axios 原生取消 (axios.isCancel) 和 我们自定义的防抖/节流错误 (DebounceThrottleCancelError)
+        return getCancelReason(err) !== null;
     }
 
     /**
@@ -83,33 +179,63 @@ export class InterceptorManager {
         this.instance.interceptors.response.use(
             async (response) => {
                 const ctx = { response };
-                await this.runResponseMiddlewares(ctx);
+                try {
+                    await this.runResponseMiddlewares(ctx);
+                } catch (err) {
+                    throw toAxiosWrapperError(err, response.config);
+                }
                 return ctx.response;
             },
             async (err) => {
                 const ctx = { err };
+                // 0. Axios 会把请求拦截器 onFulfilled 中的 reject 直接交给这里（而非请求拦截器自身的 onRejected），
+                // 因此缓存命中的假响应需要在此处转回成功路径，并照常经过响应中间件
+                if (this.isCacheHitError(ctx.err)) {
+                    const hitCtx = { response: ctx.err as AxiosResponse };
+                    try {
+                        await this.runResponseMiddlewares(hitCtx);
+                    } catch (err) {
+                        throw toAxiosWrapperError(err, hitCtx.response.config);
+                    }
+                    return hitCtx.response;
+                }
                 // 1. 健壮性修复：如果是取消错误，直接返回，不触发全局错误和重试
                 if (this.isCancelError(ctx.err)) {
-                    return Promise.reject(ctx.err);
+                    return Promise.reject(toAxiosWrapperError(ctx.err));
                 }
-                await this.runResponseErrorMiddlewares(ctx);
-                // 触发全局 onError 回调
-                this.instanceOptions.onError?.(ctx.err);
-                return Promise.reject(ctx.err);
+                // 重试成功等情况下错误中间件会设置新的响应，该响应已经过响应中间件，直接返回
+                const errorCtx: ErrorMiddlewareContext = ctx;
+                try {
+                    await this.pipelines.error.run(errorCtx);
+                } catch (err) {
+                    // 重试次数用尽、刷新 Token 失败等中间件抛出的错误同样统一为 AxiosWrapperError 并上报
+                    throw this.reportError(toAxiosWrapperError(err, ctx.err?.config));
+                }
+                if (errorCtx.response) return errorCtx.response;
+                // 统一错误类型后触发全局 onError 回调（中间件可能替换了 ctx.err）
+                return Promise.reject(
+                    this.reportError(toAxiosWrapperError(errorCtx.err, ctx.err?.config)),
+                );
             },
         );
     }
 
+    /**
+     * 经 onError 上报错误，每个错误只上报一次；即将重试的失败不上报
+     */
+    private reportError(error: AxiosWrapperError) {
+        const retryScheduled = (error.config as { __retryScheduled?: boolean } | undefined)
+            ?.__retryScheduled;
+        if (!retryScheduled && !this.reportedErrors.has(error)) {
+            this.reportedErrors.add(error);
+            this.instanceOptions.onError?.(error);
+        }
+        return error;
+    }
+
     // ===================== 请求中间件 =====================
-    private async runRequestMiddlewares(ctx: { config: InternalAxiosRequestConfig }) {
-        const middlewares = [
-            this.tokenMiddleware,
-            this.cacheRequestMiddleware,
-            this.debounceMiddleware,
-            this.throttleMiddleware,
-            this.customRequestMiddleware,
-        ];
-        for (const m of middlewares) await m.call(this, ctx);
+    private async runRequestMiddlewares(ctx: RequestMiddlewareContext) {
+        await this.pipelines.request.run(ctx);
     }
 
     private async runRequestErrorMiddlewares(ctx: {
@@ -126,60 +252,99 @@ export class InterceptorManager {
     }
 
     private tokenMiddleware = async (ctx: { config: InternalAxiosRequestConfig }) => {
-        const { tokenProvider } = this.instanceOptions;
-        if (tokenProvider) {
-            const token = await tokenProvider();
-            ctx.config.headers = ctx.config.headers || {};
-            // 兼容 Axios 新旧版本 headers 结构
-            const headers = ctx.config.headers as any;
-            if (typeof headers.set === 'function') {
-                // Axios 1.x+ Headers 对象
-                headers.set('Authorization', `Bearer ${token}`);
-            } else {
-                // 兼容 Axios 0.x 或普通对象
-                headers['Authorization'] = `Bearer ${token}`;
-            }
-        }
+        const { tokenProvider, ensureFreshToken, applyAuth } = this.instanceOptions;
+        const token = tokenProvider ? await ensureFreshToken(await tokenProvider()) : undefined;
+        await applyAuth(ctx.config, token);
     };
 
     private cacheRequestMiddleware = async (ctx: { config: InternalAxiosRequestConfig }) => {
-        if (!this.instanceOptions.enableCache) return;
+        const { cache } = resolveRequestPolicy(ctx.config, this.instanceOptions);
+        // bypass 时跳过读取，但响应仍会在 cacheResponseMiddleware 中写入缓存
+        if (!cache.enabled || cache.bypass) return;
+        // 等待持久化缓存加载完成，保证刷新页面后能立即命中上次的响应
+        await this.cacheManager.ready;
 
-        const cached = this.cacheManager.get(ctx.config);
+        // 非 stale-while-revalidate 模式下只使用新鲜数据
+        const lookup = this.cacheManager.getStale(
+            ctx.config,
+            cache.staleWhileRevalidate ? cache.maxStale : 0,
+        );
 
-        if (cached !== null) {
+        if (lookup && (!lookup.stale || cache.staleWhileRevalidate)) {
+            const { entry, stale } = lookup;
+            this.lifecycle.emit('cache', { config: ctx.config, status: stale ? 'stale' : 'hit' });
+            // 过期数据先返回，同时触发后台刷新
+            if (stale) this.instanceOptions.revalidateRequest(ctx.config);
             // 致命修复：返回一个 Promise.reject，但包含 __fromCache 标志。
             // 这会导致它进入 Request.onError，然后被转发到 Response.onFulfilled。
             // 这样才能触发 cacheResponseMiddleware 之后的响应中间件。
             const fakeResponse: CacheHitError = {
                 __fromCache: true,
-                data: cached,
-                status: 200,
-                statusText: 'Cache Hit',
-                headers: {},
+                __stale: stale,
+                data: entry.data,
+                // HTTP 缓存模式下还原原始状态码与响应头
+                status: cache.http && entry.status ? entry.status : 200,
+                statusText:
+                    cache.http && entry.statusText !== undefined ? entry.statusText : 'Cache Hit',
+                headers: cache.http && entry.headers ? entry.headers : {},
                 config: ctx.config,
                 request: {},
             } as any;
             return Promise.reject(fakeResponse);
         }
+
+        this.lifecycle.emit('cache', { config: ctx.config, status: 'miss' });
+        // HTTP 缓存模式：过期条目携带 ETag / Last-Modified 发起条件请求
+        if (cache.http) this.attachValidators(ctx.config);
     };
 
+    /**
+     * 为条件请求添加 If-None-Match / If-Modified-Since，并允许 304 进入成功路径
+     */
+    private attachValidators(config: RevalidatingConfig) {
+        const entry = this.cacheManager.peek(config);
+        if (!entry || (!entry.etag && !entry.lastModified)) return;
+
+        if (entry.etag) setRequestHeader(config, 'If-None-Match', entry.etag);
+        if (entry.lastModified) setRequestHeader(config, 'If-Modified-Since', entry.lastModified);
+
+        const validateStatus = config.validateStatus;
+        config.validateStatus = (status: number) =>
+            status === 304 ||
+            (validateStatus ? validateStatus(status) : status >= 200 && status < 300);
+        config.__cacheRevalidating = true;
+    }
+
+    /**
+     * 根据 Cache-Control 计算缓存有效期
+     * @returns null 表示不可缓存（no-store），0 表示每次都需协商（no-cache）
+     */
+    private resolveHttpCacheTTL(headers: any, fallback?: number): number | null | undefined {
+        const cacheControl = parseCacheControl(getHeader(headers, 'cache-control'));
+        if (cacheControl.noStore) return null;
+        if (cacheControl.noCache) return 0;
+        if (cacheControl.maxAge !== undefined) return cacheControl.maxAge * 1000;
+        return fallback;
+    }
+
     private debounceMiddleware = async (ctx: { config: InternalAxiosRequestConfig }) => {
-        if (this.instanceOptions.enableDebounce) {
+        const { debounce } = resolveRequestPolicy(ctx.config, this.instanceOptions);
+        if (debounce.enabled) {
             // 注意：debounceRequest/throttleRequest 内部可能通过 Promise.reject(CancelError) 拒绝，
             // 该错误会在 Request Interceptor 中被 isCancelError 捕获并处理。
             ctx.config = (await this.debounceThrottleManager.debounceRequest(
                 ctx.config,
-                this.instanceOptions.debounceInterval,
+                debounce.interval,
             )) as InternalAxiosRequestConfig;
         }
     };
 
     private throttleMiddleware = async (ctx: { config: InternalAxiosRequestConfig }) => {
-        if (this.instanceOptions.enableThrottle) {
+        const { throttle } = resolveRequestPolicy(ctx.config, this.instanceOptions);
+        if (throttle.enabled) {
             ctx.config = (await this.debounceThrottleManager.throttleRequest(
                 ctx.config,
-                this.instanceOptions.throttleInterval,
+                throttle.interval,
             )) as InternalAxiosRequestConfig;
         }
     };
@@ -209,89 +374,148 @@ export class InterceptorManager {
     };
 
     // ===================== 响应中间件 =====================
-    private async runResponseMiddlewares(ctx: { response: AxiosResponse }) {
-        const middlewares = [
-            this.flagMiddleware,
-            this.doubleTokenMiddleware,
-            this.customResponseMiddleware,
-            this.cacheResponseMiddleware,
-        ];
-        for (const m of middlewares) await m.call(this, ctx);
-    }
-
-    private async runResponseErrorMiddlewares(ctx: { err: any }): Promise<AxiosResponse | void> {
-        // 注意：isCancelError 已经在 Response Interceptor 外部处理，这里无需再次检查。
-        const middlewares = [this.customResponseErrorMiddleware, this.retryMiddleware];
-        for (const m of middlewares) {
-            // 关键修改：检查中间件的返回值
-            // 这里的 m.call(this, ctx) 需要接受 AxiosResponse 的返回类型
-            const result = await m.call(this, ctx);
-            // 如果 retryMiddleware 成功返回了一个响应 (AxiosResponse)，则立即返回该响应，
-            // 从而退出 Response Interceptor 的 onRejected 链，并进入 onFulfilled 链。
-            if (result && (result as AxiosResponse).config) {
-                // 简单检查是否为 AxiosResponse
-                return result as AxiosResponse;
-            }
-        }
-
-        // 如果所有中间件都运行完毕，没有返回成功的响应，则返回 void
+    private async runResponseMiddlewares(ctx: ResponseMiddlewareContext) {
+        await this.pipelines.response.run(ctx);
     }
 
     private flagMiddleware = (ctx: { response: AxiosResponse }) => {
-        const { responseHandler, codeHandlers } = this.instanceOptions;
-        const code = ctx.response.data?.code;
+        const { responseHandler, codeHandlers, businessErrorCodes } = this.instanceOptions;
+        const original = ctx.response;
+        const code = original.data?.code;
         // 1. 全局响应处理器 (responseHandler)
         if (responseHandler) {
             const res = responseHandler(ctx.response);
             res && (ctx.response = res);
-            return;
-        }
-        // 2. 业务状态码处理器 (codeHandlers)
-        if (codeHandlers && code !== undefined && code !== null) {
+        } else if (codeHandlers && code !== undefined && code !== null) {
+            // 2. 业务状态码处理器 (codeHandlers)
             const codeStr = String(code); // 统一将 key 转换为 string
             // 检查 codeHandlers 中是否存在对应的处理器
-            if (codeStr in codeHandlers) {
-                // 检查锁：防止短时间内对同一种错误码触发多次处理逻辑（如弹窗/跳转）
-                if (this.errorLocks.has(codeStr)) return;
+            // 检查锁：防止短时间内对同一种错误码触发多次处理逻辑（如弹窗/跳转）
+            if (codeStr in codeHandlers && !this.errorLocks.has(codeStr)) {
                 this.errorLocks.add(codeStr);
                 try {
                     // 执行业务处理器
                     const res = codeHandlers[codeStr]?.(ctx.response);
                     res && (ctx.response = res);
+                } catch (err) {
+                    // 处理器抛出的错误视为业务错误
+                    throw this.rejectBusinessCode(original, code, err);
                 } finally {
                     // 延迟清理锁
                     setTimeout(() => this.errorLocks.delete(codeStr), 1000);
                 }
             }
         }
+        // 3. 业务错误码：处理器执行后（加锁期间同样）以 BusinessError 拒绝，Token 过期码交由 doubleToken 处理
+        if (
+            code !== undefined &&
+            code !== null &&
+            businessErrorCodes?.includes(code) &&
+            !this.isTokenExpiredResponse(original)
+        ) {
+            throw this.rejectBusinessCode(original, code);
+        }
     };
 
-    private doubleTokenMiddleware = async (ctx: { response: AxiosResponse }) => {
+    /**
+     * 创建 BusinessError：移除缓存中的该响应，并经 onError 上报（与 validateResponseMiddleware 一致）
+     */
+    private rejectBusinessCode(response: AxiosResponse, code: string | number, cause?: unknown) {
+        const error = new BusinessError(code, { config: response.config, response, cause });
+        this.cacheManager.delete(response.config);
+        return this.reportError(error);
+    }
+
+    /**
+     * 是否为 Access/Refresh Token 过期的响应（仅在启用双 Token 时判断）
+     */
+    private isTokenExpiredResponse(response: AxiosResponse) {
         const opt = this.instanceOptions;
-        const code = ctx.response.data?.code;
+        const code = response.data?.code;
+        return (
+            !!opt.enableDoubleToken &&
+            (!!opt.accessTokenExpiredCodes?.includes(code) ||
+                !!opt.accessTokenExpiredStatuses?.includes(response.status) ||
+                !!opt.refreshTokenExpiredCodes?.includes(code))
+        );
+    }
 
+    private doubleTokenMiddleware = async (ctx: { response: AxiosResponse }) => {
         // 只有在启用双 Token 且捕获到 Access/Refresh Token 过期码时才触发
-        if (
-            opt.enableDoubleToken &&
-            (opt.accessTokenExpiredCodes?.includes(code) ||
-                opt.refreshTokenExpiredCodes?.includes(code))
-        ) {
+        if (this.isTokenExpiredResponse(ctx.response)) {
             // 调用父级提供的核心刷新逻辑，等待其重试请求返回
-            ctx.response = await opt.requestWithRefreshToken(ctx.response);
+            ctx.response = await this.instanceOptions.requestWithRefreshToken(ctx.response);
         }
     };
 
+    /**
+     * 以 HTTP 状态码（accessTokenExpiredStatuses，如 401）表示 Token 过期时，响应走的是错误路径
+     */
+    private doubleTokenErrorMiddleware = async (ctx: {
+        err: any;
+    }): Promise<AxiosResponse<any, any> | void> => {
+        const response = ctx.err?.response as AxiosResponse | undefined;
+        if (response?.config && this.isTokenExpiredResponse(response)) {
+            return this.instanceOptions.requestWithRefreshToken(response);
+        }
+    };
+
+    /**
+     * 条件请求返回 304 时，用缓存的响应体与原始响应头还原完整响应
+     */
+    private notModifiedMiddleware = (ctx: { response: AxiosResponse }) => {
+        const { config, status } = ctx.response;
+        if (status !== 304 || !(config as RevalidatingConfig).__cacheRevalidating) return;
+        const entry = this.cacheManager.peek(config);
+        if (!entry) return;
+        this.lifecycle.emit('cache', { config, status: 'revalidated' });
+
+        // 304 可能携带新的 Cache-Control，据此刷新有效期
+        const { cache } = resolveRequestPolicy(config, this.instanceOptions);
+        const ttl = this.resolveHttpCacheTTL(ctx.response.headers, cache.ttl);
+        if (ttl === null) this.cacheManager.delete(config);
+        else this.cacheManager.extend(config, ttl);
+
+        ctx.response = {
+            ...ctx.response,
+            __fromCache: true,
+            __revalidated: true,
+            data: entry.data,
+            status: entry.status ?? 200,
+            statusText: entry.statusText ?? 'OK',
+            headers: entry.headers ?? {},
+        } as AxiosResponse;
+    };
+
     private cacheResponseMiddleware = (ctx: { response: AxiosResponse }) => {
-        if (this.instanceOptions.enableCache) {
-            // 只有非缓存命中的请求才需要写入新缓存
-            if (!(ctx.response as any).__fromCache) {
-                this.cacheManager.set(
-                    ctx.response.config,
-                    ctx.response.data,
-                    this.instanceOptions.cacheTTL,
-                );
+        const { config } = ctx.response;
+        const { cache } = resolveRequestPolicy(config, this.instanceOptions);
+        // 只有非缓存命中的请求才需要写入新缓存
+        if (!cache.enabled || (ctx.response as any).__fromCache) return;
+        // Token 过期的响应会由 doubleTokenMiddleware 重新请求，不能写入缓存
+        if (this.isTokenExpiredResponse(ctx.response)) return;
+
+        let ttl = cache.ttl || undefined;
+        if (cache.http) {
+            const httpTTL = this.resolveHttpCacheTTL(ctx.response.headers, ttl);
+            // Cache-Control: no-store，同时清除旧的缓存
+            if (httpTTL === null) {
+                this.cacheManager.delete(config);
+                return;
             }
+            ttl = httpTTL;
         }
+        this.cacheManager.setResponse(ctx.response, ttl, cache.tags);
+    };
+
+    /**
+     * 请求成功后按 policy.invalidate 与实例级 cacheInvalidationRules 失效缓存
+     */
+    private invalidateMiddleware = (ctx: { response: AxiosResponse }) => {
+        if ((ctx.response as any).__fromCache) return;
+        const { invalidate } = resolveRequestPolicy(ctx.response.config, this.instanceOptions);
+        invalidate.urls.forEach((url) => this.cacheManager.invalidate(url));
+        this.cacheManager.invalidateTags(invalidate.tags);
     };
 
     private customResponseMiddleware = async (ctx: { response: AxiosResponse }) => {
@@ -301,6 +525,23 @@ export class InterceptorManager {
         }
     };
 
+    /**
+     * 按 responseSchema 验证最终交给调用方的数据。
+     * 失败时移除缓存中的该响应，并经 onError 上报（此时已不在 onRejected 路径上，需要在这里触发）
+     */
+    private validateResponseMiddleware = async (ctx: { response: AxiosResponse }) => {
+        const schema = (ctx.response.config as { responseSchema?: ResponseSchema } | undefined)
+            ?.responseSchema;
+        if (!schema) return;
+        try {
+            await validateResponse(ctx.response, schema);
+        } catch (err) {
+            const error = toAxiosWrapperError(err, ctx.response.config);
+            this.cacheManager.delete(ctx.response.config);
+            throw this.reportError(error);
+        }
+    };
+
     private customResponseErrorMiddleware = async (ctx: {
         err: any;
     }): Promise<AxiosResponse<any, any> | void> => {
@@ -315,14 +556,14 @@ export class InterceptorManager {
         }
     };
 
-    // 并且修改 retryMiddleware 的签名，显式地声明返回值类型
-    private retryMiddleware = async (ctx: {
-        err: any;
-    }): Promise<AxiosResponse<any, any> | void> => {
-        if (this.instanceOptions.enableRetry) {
-            // 调用父级提供的重试核心逻辑。
-            // retryRequest 内部会处理重试计数、延迟和重新进入 GlobalConcurrencyController
-            return this.instanceOptions.retryRequest(ctx.err); // 返回 Promise<AxiosResponse>
+    private retryMiddleware = async (ctx: { err: any }): Promise<void> => {
+        // 非 Axios 请求错误（没有 config）无法重试
+        if (!ctx.err?.config) return;
+        const { retry } = resolveRequestPolicy(ctx.err.config, this.instanceOptions);
+        if (retry.enabled) {
+            // 调用父级提供的重试核心逻辑：决定重试时在配置上做标记，
+            // 错误照常拒绝（不经 onError 上报），由 dispatch 释放并发名额、等待后重新排队
+            await this.instanceOptions.scheduleRetry(ctx.err);
         }
     };
 }
@@ -0,0 +1,109 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { EventBus, EventHandler } from '../event-bus';
+
+/**
+ * 请求被取消的原因
+ * - debounce / throttle：被防抖、节流取消
+ * - abort：cancelRequest / cancelGroup / signal 等主动取消
+ */
+export type CancelReason = 'debounce' | 'throttle' | 'abort';
+
+/**
+ * 缓存查询结果
+ * - hit：命中新鲜缓存
+ * - stale：命中过期缓存（stale-while-revalidate），后台正在刷新
+ * - miss：未命中，发起网络请求
+ * - revalidated：条件请求返回 304，复用了缓存的响应体
+ */
+export type CacheEventStatus = 'hit' | 'stale' | 'miss' | 'revalidated';
+
+/**
+ * AxiosWrapper 生命周期事件及其参数
+ */
+export interface AxiosLifecycleEvents {
+    /** 请求提交给 AxiosWrapper（进入并发队列之前） */
+    request: { config: AxiosRequestConfig };
+    /** 请求离开并发队列开始执行，waitTime 为排队时间（毫秒） */
+    queue: { config: AxiosRequestConfig; waitTime: number };
+    /** 请求成功，duration 为从提交到完成的总耗时（含排队、重试） */
+    response: { config: AxiosRequestConfig; response: AxiosResponse; duration: number };
+    /** 请求失败（不含取消） */
+    error: { config: AxiosRequestConfig; error: any; duration: number };
+    /** 请求被取消 */
+    cancel: { config: AxiosRequestConfig; error: any; reason: CancelReason; duration: number };
+    /** 缓存查询 */
+    cache: { config: AxiosRequestConfig; status: CacheEventStatus };
+    /** 即将重试，attempt 从 1 开始，delay 为等待时间（毫秒） */
+    retry: { config: AxiosRequestConfig; error: any; attempt: number; delay: number };
+    /** 双 Token 刷新，每次刷新依次触发 start 与 success / failure */
+    refresh: { status: 'start' | 'success' | 'failure'; error?: any };
+}
+
+export type AxiosLifecycleEvent = keyof AxiosLifecycleEvents;
+
+export type AxiosLifecycleListener<K extends AxiosLifecycleEvent> = (
+    payload: AxiosLifecycleEvents[K],
+) => void;
+
+/**
+ * 类型安全的生命周期事件发射器，基于 EventBus
+ * 监听器中的异常会被 EventBus 捕获并打印，不影响请求本身。
+ */
+export class LifecycleEmitter {
+    private bus = new EventBus();
+    /** 监听器与实际注册到 EventBus 的处理函数的映射，只向监听器传递事件参数 */
+    private handlers: Map<string, Map<AxiosLifecycleListener<any>, EventHandler>> = new Map();
+
+    /**
+     * 监听事件
+     * @returns 取消监听的函数
+     */
+    public on<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        this.bus.on(event, this.register(event, listener));
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * 只监听一次
+     */
+    public once<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        this.bus.on(event, this.register(event, listener, true), { once: true });
+        return () => this.off(event, listener);
+    }
+
+    public off<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        const handler = this.handlers.get(event)?.get(listener);
+        if (!handler) return;
+        this.handlers.get(event)!.delete(listener);
+        this.bus.off(event, handler);
+    }
+
+    /**
+     * 触发事件，同步监听器会在本次调用中执行
+     */
+    public emit<K extends AxiosLifecycleEvent>(event: K, payload: AxiosLifecycleEvents[K]) {
+        void this.bus.emit(event, payload);
+    }
+
+    public clear() {
+        this.bus.clear();
+        this.handlers.clear();
+    }
+
+    private register<K extends AxiosLifecycleEvent>(
+        event: K,
+        listener: AxiosLifecycleListener<K>,
+        once = false,
+    ): EventHandler {
+        // 同一事件重复注册同一监听器时只保留一份，保证 off 能完整移除
+        this.off(event, listener);
+        const handler: EventHandler = (payload) => {
+            if (once) this.handlers.get(event)?.delete(listener);
+            listener(payload as AxiosLifecycleEvents[K]);
+        };
+        const listeners = this.handlers.get(event) || new Map();
+        listeners.set(listener, handler);
+        this.handlers.set(event, listeners);
+        return handler;
+    }
+}
@@ -0,0 +1,217 @@
+import { AxiosRequestConfig } from 'axios';
+import type { LifecycleEmitter } from './LifecycleEmitter';
+
+export interface MetricsCollectorOptions {
+    /** 每个接口保留的最近耗时样本数，用于计算分位数，默认 500 */
+    maxSamples?: number;
+    /** 接口分组方式，默认 `GET /api/users`（去掉查询参数） */
+    endpointKey?: (config: AxiosRequestConfig) => string;
+}
+
+/**
+ * 耗时统计（毫秒）
+ */
+export interface LatencyStats {
+    min: number;
+    max: number;
+    avg: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+/**
+ * 单个接口（或汇总）的指标
+ */
+export interface EndpointMetrics {
+    /** 完成的请求数（成功 + 失败，不含取消） */
+    count: number;
+    errors: number;
+    /** 失败率，0 ~ 1 */
+    errorRate: number;
+    cancels: number;
+    retries: number;
+    cacheHits: number;
+    cacheMisses: number;
+    /** 缓存命中率（含过期命中），0 ~ 1 */
+    cacheHitRatio: number;
+    /** 平均排队时间 */
+    averageQueueWait: number;
+    latency: LatencyStats;
+}
+
+export interface MetricsSnapshot {
+    /** 快照生成时间 */
+    timestamp: number;
+    total: EndpointMetrics;
+    endpoints: Record<string, EndpointMetrics>;
+}
+
+interface EndpointRecord {
+    samples: number[];
+    count: number;
+    errors: number;
+    cancels: number;
+    retries: number;
+    cacheHits: number;
+    cacheMisses: number;
+    queued: number;
+    totalQueueWait: number;
+}
+
+/**
+ * 默认的接口分组：请求方法 + 不含查询参数的 URL
+ */
+function defaultEndpointKey(config: AxiosRequestConfig) {
+    const method = (config.method || 'get').toUpperCase();
+    const url = (config.url || '').split('?')[0];
+    return `${method} ${url}`;
+}
+
+/**
+ * 按分位数取值（最近秩法）
+ */
+function percentile(sorted: number[], p: number) {
+    if (!sorted.length) return 0;
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+}
+
+/**
+ * 指标聚合器：订阅生命周期事件，按接口统计耗时分位数、失败率与缓存命中率
+ */
+export class MetricsCollector {
+    private records: Map<string, EndpointRecord> = new Map();
+    private maxSamples: number;
+    private endpointKey: (config: AxiosRequestConfig) => string;
+    private unsubscribes: (() => void)[];
+
+    constructor(emitter: LifecycleEmitter, options: MetricsCollectorOptions = {}) {
+        this.maxSamples = options.maxSamples ?? 500;
+        this.endpointKey = options.endpointKey || defaultEndpointKey;
+        this.unsubscribes = [
+            emitter.on('response', ({ config, duration }) => {
+                const record = this.getRecord(config);
+                record.count++;
+                this.addSample(record, duration);
+            }),
+            emitter.on('error', ({ config, duration }) => {
+                const record = this.getRecord(config);
+                record.count++;
+                record.errors++;
+                this.addSample(record, duration);
+            }),
+            emitter.on('cancel', ({ config }) => {
+                this.getRecord(config).cancels++;
+            }),
+            emitter.on('retry', ({ config }) => {
+                this.getRecord(config).retries++;
+            }),
+            emitter.on('queue', ({ config, waitTime }) => {
+                const record = this.getRecord(config);
+                record.queued++;
+                record.totalQueueWait += waitTime;
+            }),
+            emitter.on('cache', ({ config, status }) => {
+                const record = this.getRecord(config);
+                if (status === 'hit' || status === 'stale') record.cacheHits++;
+                else if (status === 'miss') record.cacheMisses++;
+            }),
+        ];
+    }
+
+    /**
+     * 生成当前指标快照，可直接上报
+     */
+    public snapshot(): MetricsSnapshot {
+        const endpoints: Record<string, EndpointMetrics> = {};
+        const total = this.createRecord();
+        this.records.forEach((record, key) => {
+            endpoints[key] = this.summarize(record);
+            total.samples.push(...record.samples);
+            total.count += record.count;
+            total.errors += record.errors;
+            total.cancels += record.cancels;
+            total.retries += record.retries;
+            total.cacheHits += record.cacheHits;
+            total.cacheMisses += record.cacheMisses;
+            total.queued += record.queued;
+            total.totalQueueWait += record.totalQueueWait;
+        });
+        return { timestamp: Date.now(), total: this.summarize(total), endpoints };
+    }
+
+    /**
+     * 清空已收集的指标（如每次上报之后）
+     */
+    public reset() {
+        this.records.clear();
+    }
+
+    /**
+     * 停止收集
+     */
+    public dispose() {
+        this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+        this.unsubscribes = [];
+    }
+
+    private getRecord(config: AxiosRequestConfig) {
+        const key = this.endpointKey(config);
+        let record = this.records.get(key);
+        if (!record) {
+            record = this.createRecord();
+            this.records.set(key, record);
+        }
+        return record;
+    }
+
+    private createRecord(): EndpointRecord {
+        return {
+            samples: [],
+            count: 0,
+            errors: 0,
+            cancels: 0,
+            retries: 0,
+            cacheHits: 0,
+            cacheMisses: 0,
+            queued: 0,
+            totalQueueWait: 0,
+        };
+    }
+
+    /**
+     * 记录耗时样本，超过 maxSamples 时丢弃最旧的样本
+     */
+    private addSample(record: EndpointRecord, duration: number) {
+        record.samples.push(duration);
+        if (record.samples.length > this.maxSamples) record.samples.shift();
+    }
+
+    private summarize(record: EndpointRecord): EndpointMetrics {
+        const sorted = [...record.samples].sort((a, b) => a - b);
+        const sum = sorted.reduce((acc, value) => acc + value, 0);
+        const lookups = record.cacheHits + record.cacheMisses;
+        return {
+            count: record.count,
+            errors: record.errors,
+            errorRate: record.count ? record.errors / record.count : 0,
+            cancels: record.cancels,
+            retries: record.retries,
+            cacheHits: record.cacheHits,
+            cacheMisses: record.cacheMisses,
+            cacheHitRatio: lookups ? record.cacheHits / lookups : 0,
+            averageQueueWait: record.queued ? record.totalQueueWait / record.queued : 0,
+            latency: {
+                min: sorted.length ? sorted[0] : 0,
+                max: sorted.length ? sorted[sorted.length - 1] : 0,
+                avg: sorted.length ? sum / sorted.length : 0,
+                p50: percentile(sorted, 0.5),
+                p90: percentile(sorted, 0.9),
+                p95: percentile(sorted, 0.95),
+                p99: percentile(sorted, 0.99),
+            },
+        };
+    }
+}
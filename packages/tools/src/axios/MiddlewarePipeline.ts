@@ -0,0 +1,146 @@
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Koa 风格的中间件：在 next() 之前或之后处理 ctx，不调用 next() 即可短路后续中间件
+ */
+export type Middleware<Ctx> = (ctx: Ctx, next: () => Promise<void>) => void | Promise<void>;
+
+/**
+ * 管道阶段：request 发送前，response 成功响应，error 失败响应
+ */
+export type MiddlewarePhase = 'request' | 'response' | 'error';
+
+export interface RequestMiddlewareContext {
+    config: InternalAxiosRequestConfig;
+}
+
+export interface ResponseMiddlewareContext {
+    response: AxiosResponse;
+}
+
+export interface ErrorMiddlewareContext {
+    err: any;
+    /** 设置后视为错误已恢复（如重试成功），以该响应作为请求结果 */
+    response?: AxiosResponse;
+}
+
+export interface MiddlewareContextMap {
+    request: RequestMiddlewareContext;
+    response: ResponseMiddlewareContext;
+    error: ErrorMiddlewareContext;
+}
+
+export interface MiddlewareOptions {
+    /** 中间件名称，用于 remove / wrap / move 以及其他中间件的 before / after */
+    name?: string;
+    /** 插入到指定中间件之前 */
+    before?: string;
+    /** 插入到指定中间件之后，before 与 after 都未设置时追加到末尾 */
+    after?: string;
+}
+
+/**
+ * 通过 WrapperOptions.middlewares 注册的中间件，phase 默认 request
+ */
+export type MiddlewareDefinition = {
+    [P in MiddlewarePhase]: MiddlewareOptions & {
+        phase?: P;
+        middleware: Middleware<MiddlewareContextMap[P]>;
+    };
+}[MiddlewarePhase];
+
+interface MiddlewareEntry<Ctx> {
+    name: string;
+    middleware: Middleware<Ctx>;
+}
+
+let middlewareSeed = 0;
+
+/**
+ * 有序的中间件管道，内置行为（缓存、防抖、双 Token、重试等）都是其中的具名中间件
+ */
+export class MiddlewarePipeline<Ctx> {
+    private entries: MiddlewareEntry<Ctx>[] = [];
+
+    /**
+     * 注册中间件，名称重复或 before / after 指向的中间件不存在时抛出错误
+     */
+    use(middleware: Middleware<Ctx>, options: MiddlewareOptions = {}) {
+        const name = options.name || `middleware-${++middlewareSeed}`;
+        if (this.has(name)) throw new Error(`Middleware "${name}" already exists`);
+        this.entries.splice(this.resolveIndex(options), 0, { name, middleware });
+        return this;
+    }
+
+    /**
+     * 移除中间件，返回是否存在
+     */
+    remove(name: string) {
+        const index = this.indexOf(name);
+        if (index === -1) return false;
+        this.entries.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * 包装已有的中间件，如在内置的 retry 前后记录日志
+     */
+    wrap(name: string, wrapper: (middleware: Middleware<Ctx>) => Middleware<Ctx>) {
+        const entry = this.entries[this.indexOf(name)];
+        if (!entry) throw new Error(`Middleware "${name}" not found`);
+        entry.middleware = wrapper(entry.middleware);
+        return this;
+    }
+
+    /**
+     * 调整中间件的位置
+     */
+    move(name: string, options: Pick<MiddlewareOptions, 'before' | 'after'>) {
+        const index = this.indexOf(name);
+        if (index === -1) throw new Error(`Middleware "${name}" not found`);
+        // 先校验目标位置，避免移出后无法放回
+        this.resolveIndex(options);
+        if ((options.before ?? options.after) === name) return this;
+        const [entry] = this.entries.splice(index, 1);
+        this.entries.splice(this.resolveIndex(options), 0, entry);
+        return this;
+    }
+
+    has(name: string) {
+        return this.indexOf(name) !== -1;
+    }
+
+    /**
+     * 按执行顺序返回中间件名称
+     */
+    names() {
+        return this.entries.map((entry) => entry.name);
+    }
+
+    /**
+     * 按顺序执行中间件，执行期间对管道的修改从下一次执行开始生效
+     */
+    run(ctx: Ctx): Promise<void> {
+        const middlewares = this.entries.map((entry) => entry.middleware);
+        let lastIndex = -1;
+        const dispatch = async (index: number): Promise<void> => {
+            if (index <= lastIndex) throw new Error('next() called multiple times');
+            lastIndex = index;
+            const middleware = middlewares[index];
+            if (middleware) await middleware(ctx, () => dispatch(index + 1));
+        };
+        return dispatch(0);
+    }
+
+    private indexOf(name: string) {
+        return this.entries.findIndex((entry) => entry.name === name);
+    }
+
+    private resolveIndex({ before, after }: Pick<MiddlewareOptions, 'before' | 'after'>) {
+        const target = before ?? after;
+        if (target === undefined) return this.entries.length;
+        const index = this.indexOf(target);
+        if (index === -1) throw new Error(`Middleware "${target}" not found`);
+        return before !== undefined ? index : index + 1;
+    }
+}
@@ -0,0 +1,316 @@
+import axios, {
+    AxiosAdapter,
+    AxiosError,
+    AxiosHeaders,
+    AxiosResponse,
+    CanceledError,
+    InternalAxiosRequestConfig,
+} from 'axios';
+import { generateRequestKey, getHeader, matchUrlPattern, toPlainHeaders } from './helper';
+import type { CacheUrlPattern } from './index';
+
+/**
+ * 运行模式
+ * - mock：只使用注册的路由
+ * - record：请求交给真实适配器，并把响应记录为 fixture
+ * - replay：先匹配路由，再按 fixture 回放
+ */
+export type MockMode = 'mock' | 'record' | 'replay';
+
+/**
+ * 模拟的响应
+ */
+export interface MockResponse {
+    /** 状态码，默认 200，不满足 validateStatus 时按 axios 的规则拒绝 */
+    status?: number;
+    statusText?: string;
+    data?: any;
+    headers?: Record<string, string>;
+}
+
+/**
+ * 路由的响应：固定响应，或根据请求配置动态生成
+ */
+export type MockReply =
+    | MockResponse
+    | ((config: InternalAxiosRequestConfig) => MockResponse | Promise<MockResponse>);
+
+export interface MockRouteOptions {
+    /** 模拟延迟（毫秒），未设置时使用 MockAdapterOptions.delay */
+    delay?: number;
+    /** 注入错误：network 模拟断网，timeout 模拟超时 */
+    error?: 'network' | 'timeout';
+    /** 只匹配前 N 次请求，之后路由自动移除 */
+    times?: number;
+}
+
+/**
+ * 录制的请求与响应，可以直接序列化为 JSON 文件
+ */
+export interface MockFixture {
+    /** 请求标识（generateRequestKey），回放时按它匹配 */
+    key: string;
+    method: string;
+    url: string;
+    response: Required<MockResponse>;
+}
+
+export interface MockAdapterOptions {
+    /** 运行模式，默认 mock */
+    mode?: MockMode;
+    /** 回放使用的 fixture，通常来自 record 模式导出的 JSON */
+    fixtures?: MockFixture[];
+    /** 全局模拟延迟（毫秒），默认 0 */
+    delay?: number;
+    /** 没有匹配的路由或 fixture 时交给真实适配器，默认 false（返回 404） */
+    passthrough?: boolean;
+    /** 真实适配器，用于 record 与 passthrough，默认使用 axios 的默认适配器 */
+    adapter?: InternalAxiosRequestConfig['adapter'];
+}
+
+interface MockRoute {
+    method: string;
+    url: CacheUrlPattern;
+    reply: MockReply;
+    options: MockRouteOptions;
+}
+
+/**
+ * 模拟适配器：替换 axios 实例的 adapter，因此拦截器（缓存/重试/Token 等）照常执行。
+ * 路由按注册顺序匹配，字符串 URL 中的 `*` 匹配任意字符，匹配时忽略查询参数。
+ */
+export class MockAdapter {
+    private routes: MockRoute[] = [];
+    private fixtures: Map<string, MockFixture> = new Map();
+    private mode: MockMode;
+    private delay: number;
+    private passthrough: boolean;
+    private realAdapter: AxiosAdapter;
+
+    constructor(options: MockAdapterOptions = {}) {
+        this.mode = options.mode || 'mock';
+        this.delay = options.delay ?? 0;
+        this.passthrough = options.passthrough ?? false;
+        this.realAdapter = axios.getAdapter(options.adapter || axios.defaults.adapter);
+        this.loadFixtures(options.fixtures || []);
+    }
+
+    /**
+     * 注册路由
+     * @param method 请求方法，'*' 匹配任意方法
+     * @param url URL 模式，如 '/users/*'，或正则
+     * @returns 移除该路由的函数
+     */
+    public on(
+        method: string,
+        url: CacheUrlPattern,
+        reply: MockReply,
+        options: MockRouteOptions = {},
+    ) {
+        const route: MockRoute = { method: method.toLowerCase(), url, reply, options };
+        this.routes.push(route);
+        return () => this.removeRoute(route);
+    }
+
+    /**
+     * 清空全部路由
+     */
+    public reset() {
+        this.routes = [];
+    }
+
+    public setMode(mode: MockMode) {
+        this.mode = mode;
+    }
+
+    public getMode() {
+        return this.mode;
+    }
+
+    /**
+     * 加载 fixture，相同请求标识的 fixture 会被覆盖
+     */
+    public loadFixtures(fixtures: MockFixture[]) {
+        fixtures.forEach((fixture) => this.fixtures.set(fixture.key, fixture));
+    }
+
+    /**
+     * 获取已加载及录制的全部 fixture
+     */
+    public getFixtures(): MockFixture[] {
+        return [...this.fixtures.values()];
+    }
+
+    /**
+     * 导出 fixture 为 JSON 字符串，可保存为文件供 replay 使用
+     */
+    public exportFixtures() {
+        return JSON.stringify(this.getFixtures(), null, 2);
+    }
+
+    public clearFixtures() {
+        this.fixtures.clear();
+    }
+
+    /**
+     * 交给 axios 使用的适配器
+     */
+    public adapter: AxiosAdapter = async (config) => {
+        if (this.mode === 'record') return this.record(config);
+
+        const route = this.matchRoute(config);
+        if (route) {
+            this.consumeRoute(route);
+            await this.wait(route.options.delay ?? this.delay, config);
+            if (route.options.error) throw this.createInjectedError(route.options.error, config);
+            const response =
+                typeof route.reply === 'function' ? await route.reply(config) : route.reply;
+            return this.settle(config, response);
+        }
+
+        if (this.mode === 'replay') {
+            const fixture = this.fixtures.get(generateRequestKey(config));
+            if (fixture) {
+                await this.wait(this.delay, config);
+                return this.settle(config, fixture.response);
+            }
+        }
+
+        if (this.passthrough) return this.realAdapter(config);
+
+        await this.wait(this.delay, config);
+        return this.settle(config, {
+            status: 404,
+            statusText: 'Not Found',
+            data: { message: `No mock matched: ${this.describe(config)}` },
+        });
+    };
+
+    /**
+     * 通过真实适配器发起请求并记录响应（包括失败的响应）
+     */
+    private async record(config: InternalAxiosRequestConfig) {
+        try {
+            const response = await this.realAdapter(config);
+            this.saveFixture(config, response);
+            return response;
+        } catch (error) {
+            if (error instanceof AxiosError && error.response) {
+                this.saveFixture(config, error.response);
+            }
+            throw error;
+        }
+    }
+
+    private saveFixture(config: InternalAxiosRequestConfig, response: AxiosResponse) {
+        const headers = toPlainHeaders(response.headers);
+        let data = response.data;
+        // 适配器返回的是未经 transformResponse 处理的原始字符串，JSON 响应解析后再保存，便于阅读和修改
+        if (typeof data === 'string' && /json/i.test(getHeader(headers, 'content-type') || '')) {
+            try {
+                data = JSON.parse(data);
+            } catch {
+                // 保留原始字符串
+            }
+        }
+        const key = generateRequestKey(config);
+        this.fixtures.set(key, {
+            key,
+            method: (config.method || 'get').toLowerCase(),
+            url: config.url || '',
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+                data,
+            },
+        });
+    }
+
+    private matchRoute(config: InternalAxiosRequestConfig) {
+        const method = (config.method || 'get').toLowerCase();
+        const url = (config.url || '').split('?')[0];
+        return this.routes.find(
+            (route) =>
+                (route.method === '*' || route.method === method) &&
+                matchUrlPattern(url, route.url),
+        );
+    }
+
+    private consumeRoute(route: MockRoute) {
+        const { times } = route.options;
+        if (times === undefined) return;
+        route.options = { ...route.options, times: times - 1 };
+        if (times <= 1) this.removeRoute(route);
+    }
+
+    private removeRoute(route: MockRoute) {
+        const index = this.routes.indexOf(route);
+        if (index !== -1) this.routes.splice(index, 1);
+    }
+
+    /**
+     * 模拟网络延迟，期间请求被取消时以 CanceledError 拒绝
+     */
+    private wait(delay: number, config: InternalAxiosRequestConfig) {
+        const { signal } = config;
+        return new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new CanceledError(undefined, undefined, config));
+                return;
+            }
+            if (delay <= 0) {
+                resolve();
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new CanceledError(undefined, undefined, config));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener?.('abort', onAbort);
+                resolve();
+            }, delay);
+            signal?.addEventListener?.('abort', onAbort);
+        });
+    }
+
+    private createInjectedError(type: 'network' | 'timeout', config: InternalAxiosRequestConfig) {
+        if (type === 'timeout') {
+            return new AxiosError(
+                `timeout of ${config.timeout || 0}ms exceeded`,
+                AxiosError.ECONNABORTED,
+                config,
+                {},
+            );
+        }
+        return new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+    }
+
+    /**
+     * 与 axios 内置适配器一致：根据 validateStatus 决定成功或以 AxiosError 拒绝
+     */
+    private settle(config: InternalAxiosRequestConfig, mock: MockResponse): AxiosResponse {
+        const status = mock.status ?? 200;
+        const response: AxiosResponse = {
+            data: mock.data,
+            status,
+            statusText: mock.statusText ?? '',
+            headers: new AxiosHeaders(mock.headers),
+            config,
+            request: {},
+        };
+        if (!config.validateStatus || config.validateStatus(status)) return response;
+        throw new AxiosError(
+            `Request failed with status code ${status}`,
+            status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            response.request,
+            response,
+        );
+    }
+
+    private describe(config: InternalAxiosRequestConfig) {
+        return `${(config.method || 'get').toUpperCase()} ${config.url || ''}`;
+    }
+}
@@ -0,0 +1,282 @@
+import type { AxiosResponse } from 'axios';
+import { IndexedDBHelper } from '../web-storage-helper';
+import { MUTATING_METHODS } from './const';
+import { isNetworkError, toPlainHeaders } from './helper';
+import type { AxiosWrapperMethodConfig } from './index';
+
+/**
+ * 离线期间保存的请求，只包含可序列化的配置
+ */
+export interface OfflineRequest {
+    id: string;
+    method: string;
+    url: string;
+    baseURL?: string;
+    params?: any;
+    data?: any;
+    headers?: Record<string, any>;
+    createdAt: number;
+    /** 回放时仍因网络错误失败的次数 */
+    attempts: number;
+}
+
+/**
+ * 离线队列持久化接口，方法既可以同步返回，也可以返回 Promise
+ */
+export interface OfflineQueueStore {
+    get(id: string): OfflineRequest | null | Promise<OfflineRequest | null>;
+    set(id: string, request: OfflineRequest): void | Promise<void>;
+    delete(id: string): void | Promise<void>;
+    keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * 基于 IndexedDBHelper 的离线队列存储
+ */
+export class IndexedDBOfflineQueueStore implements OfflineQueueStore {
+    constructor(private prefix = 'lania-axios-offline:') {}
+
+    get(id: string) {
+        return IndexedDBHelper.get<OfflineRequest>(this.prefix + id);
+    }
+
+    set(id: string, request: OfflineRequest) {
+        return IndexedDBHelper.set(this.prefix + id, request);
+    }
+
+    delete(id: string) {
+        return IndexedDBHelper.delete(this.prefix + id);
+    }
+
+    async keys() {
+        const keys = await IndexedDBHelper.keys();
+        return keys
+            .filter((key) => key.startsWith(this.prefix))
+            .map((key) => key.slice(this.prefix.length));
+    }
+}
+
+/**
+ * 回放冲突时的处理方式：discard 丢弃该请求，keep 保留并暂停回放
+ */
+export type OfflineConflictAction = 'discard' | 'keep';
+
+export interface OfflineQueueOptions {
+    /** 队列存储，默认使用 IndexedDB，false 表示只保存在内存中 */
+    store?: OfflineQueueStore | false;
+    /** 需要排队的请求方法，默认 post / put / patch / delete */
+    methods?: string[];
+    /** 进一步筛选需要排队的请求 */
+    shouldQueue?: (config: AxiosWrapperMethodConfig) => boolean;
+    /** 恢复联网（online 事件）及创建时自动回放，默认 true */
+    autoReplay?: boolean;
+    /** 视为冲突的响应状态码，默认 [409, 412] */
+    conflictStatuses?: number[];
+    /** 请求进入队列 */
+    onQueued?: (request: OfflineRequest) => void;
+    /** 请求回放成功 */
+    onReplayed?: (request: OfflineRequest, response: AxiosResponse) => void;
+    /** 回放冲突（如数据已被他人修改），默认丢弃该请求 */
+    onConflict?: (
+        request: OfflineRequest,
+        error: any,
+    ) => OfflineConflictAction | void | Promise<OfflineConflictAction | void>;
+    /** 回放因其他错误失败，该请求会被丢弃 */
+    onFailure?: (request: OfflineRequest, error: any) => void;
+}
+
+/**
+ * 请求因离线进入队列时抛出，调用方可据此提示"已离线保存"
+ */
+export class OfflineQueuedError extends Error {
+    constructor(public request: OfflineRequest) {
+        super(`Request queued while offline: ${request.method.toUpperCase()} ${request.url}`);
+        this.name = 'OfflineQueuedError';
+        Object.setPrototypeOf(this, OfflineQueuedError.prototype);
+    }
+}
+
+/** 无法序列化保存的请求体 */
+function isSerializable(data: any) {
+    if (typeof FormData !== 'undefined' && data instanceof FormData) return false;
+    if (typeof Blob !== 'undefined' && data instanceof Blob) return false;
+    return !(data instanceof ArrayBuffer || ArrayBuffer.isView(data));
+}
+
+let requestSeed = 0;
+
+/**
+ * 离线请求队列：离线或遇到网络错误时保存变更类请求，恢复联网后按顺序回放
+ */
+export class OfflineQueue {
+    private store: OfflineQueueStore | null;
+    /** 不使用持久化存储或存储失败时的后备 */
+    private memory: Map<string, OfflineRequest> = new Map();
+    private replaying: Promise<void> | null = null;
+
+    constructor(
+        private send: (config: AxiosWrapperMethodConfig) => Promise<AxiosResponse>,
+        private options: OfflineQueueOptions = {},
+    ) {
+        if (options.store === false) {
+            this.store = null;
+        } else {
+            this.store =
+                options.store ||
+                (typeof indexedDB !== 'undefined' ? new IndexedDBOfflineQueueStore() : null);
+        }
+        if (options.autoReplay !== false && typeof window !== 'undefined') {
+            window.addEventListener('online', this.onOnline);
+            // 回放上次会话遗留的请求
+            if (!this.isOffline()) void this.replay();
+        }
+    }
+
+    isOffline() {
+        return typeof navigator !== 'undefined' && navigator.onLine === false;
+    }
+
+    /**
+     * 请求是否允许进入离线队列
+     */
+    canQueue(config: AxiosWrapperMethodConfig) {
+        const { methods = MUTATING_METHODS, shouldQueue } = this.options;
+        if (!methods.includes((config.method || 'get').toLowerCase())) return false;
+        if (!isSerializable(config.data)) return false;
+        return shouldQueue ? shouldQueue(config) : true;
+    }
+
+    /**
+     * 发送请求：离线时直接入队，网络错误时入队，均以 OfflineQueuedError 拒绝
+     */
+    async run<T>(
+        config: AxiosWrapperMethodConfig,
+        request: () => Promise<AxiosResponse<T>>,
+    ): Promise<AxiosResponse<T>> {
+        if (this.isOffline()) throw new OfflineQueuedError(await this.enqueue(config));
+        try {
+            return await request();
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            throw new OfflineQueuedError(await this.enqueue(config));
+        }
+    }
+
+    async enqueue(config: AxiosWrapperMethodConfig): Promise<OfflineRequest> {
+        const createdAt = Date.now();
+        const request: OfflineRequest = {
+            id: `offline-${createdAt}-${++requestSeed}`,
+            method: (config.method || 'get').toLowerCase(),
+            url: config.url || '',
+            baseURL: config.baseURL,
+            params: config.params,
+            data: config.data,
+            headers: toPlainHeaders(config.headers),
+            createdAt,
+            attempts: 0,
+        };
+        await this.write(request);
+        this.options.onQueued?.(request);
+        return request;
+    }
+
+    /**
+     * 按入队顺序返回待回放的请求
+     */
+    async getPending(): Promise<OfflineRequest[]> {
+        const requests = new Map(this.memory);
+        if (this.store) {
+            try {
+                const ids = await this.store.keys();
+                for (const id of ids) {
+                    const request = await this.store.get(id);
+                    if (request) requests.set(id, request);
+                }
+            } catch {
+                // 存储不可用时只返回内存中的请求
+            }
+        }
+        return [...requests.values()].sort(
+            (a, b) =>
+                a.createdAt - b.createdAt || a.id.localeCompare(b.id, undefined, { numeric: true }),
+        );
+    }
+
+    /**
+     * 丢弃指定的请求
+     */
+    async discard(id: string) {
+        this.memory.delete(id);
+        try {
+            await this.store?.delete(id);
+        } catch {
+            // 忽略存储失败
+        }
+    }
+
+    async clear() {
+        const pending = await this.getPending();
+        await Promise.all(pending.map((request) => this.discard(request.id)));
+    }
+
+    /**
+     * 按顺序回放队列，同一时间只有一个回放过程。
+     * 遇到网络错误时停止，保留剩余请求，保证变更的先后顺序
+     */
+    replay(): Promise<void> {
+        if (!this.replaying) {
+            this.replaying = this.runReplay().finally(() => {
+                this.replaying = null;
+            });
+        }
+        return this.replaying;
+    }
+
+    /**
+     * 移除 online 监听
+     */
+    destroy() {
+        if (typeof window !== 'undefined') window.removeEventListener('online', this.onOnline);
+    }
+
+    private onOnline = () => {
+        void this.replay();
+    };
+
+    private async runReplay() {
+        const { conflictStatuses = [409, 412], onReplayed, onConflict, onFailure } = this.options;
+        for (const request of await this.getPending()) {
+            if (this.isOffline()) return;
+            const { id, method, url, baseURL, params, data, headers } = request;
+            try {
+                const response = await this.send({ method, url, baseURL, params, data, headers });
+                await this.discard(id);
+                onReplayed?.(request, response);
+            } catch (error: any) {
+                if (isNetworkError(error)) {
+                    await this.write({ ...request, attempts: request.attempts + 1 });
+                    return;
+                }
+                if (conflictStatuses.includes(error?.response?.status)) {
+                    if ((await onConflict?.(request, error)) === 'keep') return;
+                    await this.discard(id);
+                } else {
+                    await this.discard(id);
+                    onFailure?.(request, error);
+                }
+            }
+        }
+    }
+
+    private async write(request: OfflineRequest) {
+        if (this.store) {
+            try {
+                await this.store.set(request.id, request);
+                return;
+            } catch {
+                // 存储失败时退回内存
+            }
+        }
+        this.memory.set(request.id, request);
+    }
+}
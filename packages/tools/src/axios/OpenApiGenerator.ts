@@ -0,0 +1,460 @@
+import type { ApiMethod } from './ApiClient';
+
+// --- OpenAPI 3 文档结构（只声明生成代码用到的字段） ---
+
+export interface OpenApiSchema {
+    $ref?: string;
+    /** OpenAPI 3.1 允许数组，如 ['string', 'null'] */
+    type?: string | string[];
+    format?: string;
+    enum?: unknown[];
+    const?: unknown;
+    nullable?: boolean;
+    description?: string;
+    deprecated?: boolean;
+    properties?: Record<string, OpenApiSchema>;
+    required?: string[];
+    additionalProperties?: boolean | OpenApiSchema;
+    items?: OpenApiSchema;
+    oneOf?: OpenApiSchema[];
+    anyOf?: OpenApiSchema[];
+    allOf?: OpenApiSchema[];
+}
+
+export interface OpenApiParameter {
+    $ref?: string;
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    required?: boolean;
+    description?: string;
+    deprecated?: boolean;
+    schema?: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+    schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+    $ref?: string;
+    required?: boolean;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+    $ref?: string;
+    description?: string;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    deprecated?: boolean;
+    parameters?: OpenApiParameter[];
+    requestBody?: OpenApiRequestBody;
+    responses?: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiPathItem = Partial<Record<ApiMethod, OpenApiOperation>> & {
+    parameters?: OpenApiParameter[];
+};
+
+export interface OpenApiDocument {
+    openapi: string;
+    info?: { title?: string; version?: string };
+    paths?: Record<string, OpenApiPathItem>;
+    components?: {
+        schemas?: Record<string, OpenApiSchema>;
+        parameters?: Record<string, OpenApiParameter>;
+        requestBodies?: Record<string, OpenApiRequestBody>;
+        responses?: Record<string, OpenApiResponse>;
+    };
+}
+
+export interface OpenApiGenerateOptions {
+    /** 生成代码导入 apiType / defineApi 的模块，默认 '@lania-tools/tools/axios-wrapper' */
+    importFrom?: string;
+    /** 导出的接口定义表名称，默认 'api' */
+    exportName?: string;
+    /** 按第一个 tag 分组，如 api.pets.listPets，默认 true */
+    groupByTag?: boolean;
+}
+
+const METHODS: ApiMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+function toPascalCase(value: string) {
+    const name = value
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((part) => part[0].toUpperCase() + part.slice(1))
+        .join('');
+    return /^[0-9]/.test(name) ? `_${name}` : name || '_';
+}
+
+function toCamelCase(value: string) {
+    const name = toPascalCase(value);
+    return name[0].toLowerCase() + name.slice(1);
+}
+
+/** 对象键：合法标识符原样输出，否则加引号 */
+function toKey(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function quote(value: string) {
+    const escaped = value.replace(/[\\'\n]/g, (char) => (char === '\n' ? '\\n' : `\\${char}`));
+    return `'${escaped}'`;
+}
+
+function toLiteral(value: unknown) {
+    if (typeof value === 'string') return quote(value);
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/** 类型最外层是否为联合或交叉类型，跳过字符串字面量与括号内的内容 */
+function isCompositeType(type: string) {
+    let depth = 0;
+    for (let i = 0; i < type.length; i++) {
+        const char = type[i];
+        if (/['"]/.test(char)) {
+            // 跳到字符串结尾
+            for (i++; i < type.length && type[i] !== char; i++) if (type[i] === '\\') i++;
+        } else if ('{([<'.includes(char)) {
+            depth++;
+        } else if ('})]>'.includes(char)) {
+            depth--;
+        } else if (depth === 0 && (char === '|' || char === '&')) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** 联合 / 交叉类型作为数组元素或交叉成员时需要加括号 */
+function wrapType(type: string) {
+    return isCompositeType(type) ? `(${type})` : type;
+}
+
+function toComment(lines: (string | undefined | false)[], indent: string) {
+    const content = lines.filter((line): line is string => !!line).join('\n');
+    if (!content.trim()) return '';
+    const text = content.replace(/\*\//g, '*\\/').split('\n');
+    if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+    return `${indent}/**\n${text.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function isJsonMediaType(mediaType: string) {
+    return /^application\/(.+\+)?json/.test(mediaType);
+}
+
+/**
+ * 将 OpenAPI 3 文档转换为 ApiClient 的接口定义表源码
+ */
+class OpenApiGenerator {
+    /** 已占用的类型名 */
+    private typeNames: Set<string> = new Set();
+    /** components.schemas 名称 → 生成的类型名 */
+    private schemaNames: Map<string, string> = new Map();
+    private declarations: string[] = [];
+    private errorTypes: Set<string> = new Set();
+
+    constructor(
+        private document: OpenApiDocument,
+        private options: OpenApiGenerateOptions,
+    ) {}
+
+    generate() {
+        const {
+            importFrom = '@lania-tools/tools/axios-wrapper',
+            exportName = 'api',
+            groupByTag = true,
+        } = this.options;
+        const schemas = this.document.components?.schemas || {};
+        Object.keys(schemas).forEach((name) => {
+            this.schemaNames.set(name, this.reserveTypeName(toPascalCase(name)));
+        });
+        Object.keys(schemas).forEach((name) => {
+            this.declare(this.schemaNames.get(name)!, schemas[name], schemas[name].description);
+        });
+
+        // 分组名 → 接口名 → 接口定义源码
+        const groups: Map<string, Map<string, string>> = new Map();
+        const paths = this.document.paths || {};
+        Object.keys(paths).forEach((path) => {
+            const item = paths[path];
+            METHODS.forEach((method) => {
+                const operation = item[method];
+                if (!operation) return;
+                const group =
+                    groupByTag && operation.tags?.length ? toCamelCase(operation.tags[0]) : '';
+                if (!groups.has(group)) groups.set(group, new Map());
+                const routes = groups.get(group)!;
+                const baseName = toCamelCase(operation.operationId || `${method} ${path}`);
+                let name = baseName;
+                for (let i = 2; routes.has(name); i++) name = `${baseName}${i}`;
+                routes.set(
+                    name,
+                    this.generateRoute(path, method, operation, item.parameters, name),
+                );
+            });
+        });
+
+        const constName = toCamelCase(exportName);
+        const body = [...groups.entries()]
+            .map(([group, routes]) => {
+                const indent = group ? '        ' : '    ';
+                const entries = [...routes.values()]
+                    .map((route) => route.replace(/^/gm, indent))
+                    .join('\n');
+                return group ? `    ${toKey(group)}: {\n${entries}\n    },` : entries;
+            })
+            .join('\n');
+
+        const { title, version } = this.document.info || {};
+        const source = title ? ` ${[title, version].filter(Boolean).join(' ')} ` : '';
+        const lines = [
+            `// 由 lania-openapi 根据 OpenAPI 文档${source}生成，请勿手动修改`,
+            `import type { AxiosResponse } from ${quote('axios')};`,
+            `import { apiType, defineApi } from ${quote(importFrom)};`,
+            '',
+            ...this.declarations,
+            `export const ${constName} = defineApi(${body ? `{\n${body}\n}` : '{}'});`,
+            '',
+        ];
+        // 汇总错误响应体，供 codeHandlers 使用
+        const prefix = toPascalCase(exportName);
+        const errorType = [...this.errorTypes].join(' | ') || 'unknown';
+        lines.push(
+            '/** 全部接口的错误响应体 */',
+            `export type ${prefix}ErrorBody = ${errorType};`,
+            '',
+            '/** 类型化的 codeHandlers，传给 WrapperOptions.codeHandlers */',
+            `export type ${prefix}CodeHandlers = Record<number | string, (res: AxiosResponse<${prefix}ErrorBody>) => any>;`,
+            '',
+        );
+        return lines.join('\n');
+    }
+
+    private generateRoute(
+        path: string,
+        method: ApiMethod,
+        operation: OpenApiOperation,
+        pathParameters: OpenApiParameter[] = [],
+        name: string,
+    ) {
+        const typeName = toPascalCase(name);
+        // 操作级参数覆盖路径级同名参数
+        const parameters = new Map<string, OpenApiParameter>();
+        [...pathParameters, ...(operation.parameters || [])].forEach((ref) => {
+            const parameter = this.resolve(ref);
+            if (parameter) parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+        });
+
+        const fields = [
+            `method: '${method}',`,
+            // {petId} → :petId，路径参数名需要是合法的标识符
+            `path: ${quote(path.replace(/\{([^}]+)\}/g, (_, param: string) => `:${toCamelCase(param)}`))},`,
+        ];
+
+        const query = [...parameters.values()].filter((parameter) => parameter.in === 'query');
+        if (query.length) {
+            const members = query.map((parameter) => {
+                const optional = parameter.required ? '' : '?';
+                const comment = toComment(
+                    [parameter.description, parameter.deprecated && '@deprecated'],
+                    '    ',
+                );
+                return `${comment}    ${toKey(parameter.name)}${optional}: ${this.toType(parameter.schema, '    ')};`;
+            });
+            const queryName = this.reserveTypeName(`${typeName}Query`);
+            this.declarations.push(`export interface ${queryName} {\n${members.join('\n')}\n}\n`);
+            fields.push(`query: apiType<${queryName}>(),`);
+        }
+
+        const requestBody = this.resolve(operation.requestBody);
+        if (requestBody) {
+            const bodyName = this.reserveTypeName(`${typeName}Body`);
+            this.declarations.push(
+                `export type ${bodyName} = ${this.contentType(requestBody.content)};\n`,
+            );
+            fields.push(`body: apiType<${bodyName}>(),`);
+        }
+
+        const responses = operation.responses || {};
+        const statuses = Object.keys(responses);
+        const success = statuses.find((status) => /^2/.test(status));
+        const responseName = this.reserveTypeName(`${typeName}Response`);
+        const responseType = success
+            ? this.contentType(this.resolve(responses[success])?.content, 'void')
+            : 'unknown';
+        this.declarations.push(`export type ${responseName} = ${responseType};\n`);
+        fields.push(`response: apiType<${responseName}>(),`);
+
+        const errors = new Set(
+            statuses
+                .filter((status) => /^[45]|^default$/.test(status))
+                .map((status) => this.contentType(this.resolve(responses[status])?.content, ''))
+                .filter(Boolean),
+        );
+        if (errors.size) {
+            const errorName = this.reserveTypeName(`${typeName}Error`);
+            this.declarations.push(`export type ${errorName} = ${[...errors].join(' | ')};\n`);
+            this.errorTypes.add(errorName);
+            fields.push(`error: apiType<${errorName}>(),`);
+        }
+
+        const comment = toComment(
+            [
+                operation.summary,
+                operation.description !== operation.summary && operation.description,
+                `${method.toUpperCase()} ${path}`,
+                operation.deprecated && '@deprecated',
+            ],
+            '',
+        );
+        return `${comment}${toKey(name)}: {\n${fields.map((field) => `    ${field}`).join('\n')}\n},`;
+    }
+
+    /**
+     * 请求体 / 响应体类型：优先 JSON，其次表单，其他类型按第一个内容类型的 schema 生成
+     */
+    private contentType(content: Record<string, OpenApiMediaType> | undefined, empty = 'unknown') {
+        const mediaTypes = Object.keys(content || {});
+        if (!mediaTypes.length) return empty;
+        const json = mediaTypes.find(isJsonMediaType);
+        if (json) return this.toType(content![json].schema);
+        if (mediaTypes.includes('multipart/form-data')) return 'FormData';
+        const schema = content![mediaTypes[0]].schema;
+        return schema ? this.toType(schema) : 'Blob';
+    }
+
+    private declare(name: string, schema: OpenApiSchema, description?: string) {
+        const type = this.toType(schema);
+        const comment = toComment([description, schema.deprecated && '@deprecated'], '');
+        // 普通对象输出为 interface，其余输出为类型别名
+        const isInterface = type.startsWith('{') && !isCompositeType(type) && !schema.$ref;
+        this.declarations.push(
+            isInterface
+                ? `${comment}export interface ${name} ${type}\n`
+                : `${comment}export type ${name} = ${type};\n`,
+        );
+    }
+
+    private reserveTypeName(name: string) {
+        let result = name;
+        for (let i = 2; this.typeNames.has(result); i++) result = `${name}${i}`;
+        this.typeNames.add(result);
+        return result;
+    }
+
+    /**
+     * 解析文档内的 $ref（#/components/...），无法解析时返回 undefined
+     */
+    private resolve<T extends { $ref?: string }>(value: T | undefined, depth = 0): T | undefined {
+        if (!value?.$ref) return value;
+        if (depth > 20 || !value.$ref.startsWith('#/')) return undefined;
+        const target = value.$ref
+            .slice(2)
+            .split('/')
+            .reduce<any>(
+                (node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')],
+                this.document,
+            );
+        return this.resolve(target as T | undefined, depth + 1);
+    }
+
+    private toType(schema: OpenApiSchema | undefined, indent = ''): string {
+        if (!schema) return 'unknown';
+        if (schema.$ref) {
+            const match = /^#\/components\/schemas\/([^/]+)$/.exec(schema.$ref);
+            const name =
+                match && this.schemaNames.get(match[1].replace(/~1/g, '/').replace(/~0/g, '~'));
+            if (name) return name;
+            const target = this.resolve(schema);
+            return target ? this.toType(target, indent) : 'unknown';
+        }
+        let type: string;
+        if (schema.const !== undefined) {
+            type = toLiteral(schema.const);
+        } else if (schema.enum) {
+            type = schema.enum.map(toLiteral).join(' | ') || 'never';
+        } else if (schema.oneOf || schema.anyOf) {
+            type = (schema.oneOf || schema.anyOf)!
+                .map((item) => this.toType(item, indent))
+                .join(' | ');
+        } else if (schema.allOf) {
+            type = schema.allOf.map((item) => wrapType(this.toType(item, indent))).join(' & ');
+        } else if (Array.isArray(schema.type)) {
+            type = schema.type
+                .map((item) => this.primitiveType({ ...schema, type: item }, indent))
+                .join(' | ');
+        } else {
+            type = this.primitiveType(schema, indent);
+        }
+        return schema.nullable && type !== 'null' ? `${type} | null` : type;
+    }
+
+    private primitiveType(schema: OpenApiSchema, indent: string): string {
+        switch (schema.type) {
+            case 'string':
+                return schema.format === 'binary' ? 'Blob' : 'string';
+            case 'integer':
+            case 'number':
+                return 'number';
+            case 'boolean':
+                return 'boolean';
+            case 'null':
+                return 'null';
+            case 'array':
+                return `${wrapType(this.toType(schema.items, indent))}[]`;
+            case 'object':
+                return this.objectType(schema, indent);
+            default:
+                return schema.properties || schema.additionalProperties
+                    ? this.objectType(schema, indent)
+                    : 'unknown';
+        }
+    }
+
+    private objectType(schema: OpenApiSchema, indent: string): string {
+        const { properties = {}, required = [], additionalProperties } = schema;
+        const names = Object.keys(properties);
+        if (!names.length && !additionalProperties) return 'Record<string, unknown>';
+        const inner = `${indent}    `;
+        const members = names.map((name) => {
+            const property = properties[name];
+            const optional = required.includes(name) ? '' : '?';
+            const comment = toComment(
+                [property.description, property.deprecated && '@deprecated'],
+                inner,
+            );
+            return `${comment}${inner}${toKey(name)}${optional}: ${this.toType(property, inner)};`;
+        });
+        if (additionalProperties) {
+            // 已声明的属性必须兼容索引签名，此时退化为 unknown
+            const valueType =
+                additionalProperties === true || names.length
+                    ? 'unknown'
+                    : this.toType(additionalProperties, inner);
+            members.push(`${inner}[key: string]: ${valueType};`);
+        }
+        return `{\n${members.join('\n')}\n${indent}}`;
+    }
+}
+
+/**
+ * 根据 OpenAPI 3 文档生成 TypeScript 源码：components.schemas 中的类型、每个接口的
+ * Query / Body / Response / Error 类型，以及传给 createApiClient 的接口定义表
+ */
+export function generateApiFromOpenApi(
+    document: OpenApiDocument,
+    options: OpenApiGenerateOptions = {},
+) {
+    if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+        throw new Error('Only OpenAPI 3.x documents are supported');
+    }
+    return new OpenApiGenerator(document, options).generate();
+}
@@ -1,9 +1,21 @@
 import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { GlobalConcurrencyController } from './GlobalConcurrencyController';
+import { GlobalConcurrencyController, TaskPriority } from './GlobalConcurrencyController';
+import { getRequestHost, stableStringify } from './helper';
 
 // --- 辅助接口和类型 ---
 
-// PollingConfig 接口不变
+/**
+ * 结果未变化时的间隔增长策略
+ */
+export interface PollingBackoff<T> {
+    /** 每次结果未变化时间隔乘以的倍数，默认 2 */
+    multiplier?: number;
+    /** 间隔上限（毫秒），默认 60000 */
+    maxInterval?: number;
+    /** 判断两次响应是否相同，默认比较稳定序列化后的 data */
+    isEqual?: (prev: AxiosResponse<T>, next: AxiosResponse<T>) => boolean;
+}
+
 export interface PollingConfig<T> {
     key: string;
     url: string;
@@ -11,9 +23,34 @@ export interface PollingConfig<T> {
     onSuccess?: (res: AxiosResponse<T>) => void;
     onError?: (err: any) => void;
     interval?: number;
-    // maxPollingTimes 更明确地表示“总轮询次数”（包括第一次）
+    // maxPollingTimes 更明确地表示“总轮询次数”（包括第一次），默认 3；设置 until 时默认不限次数
     maxPollingTimes?: number;
     method?: 'get' | 'post' | 'delete' | 'put';
+    // 并发队列中的优先级，默认 low，避免挤占用户触发的请求
+    priority?: TaskPriority;
+    // 满足条件时停止轮询，handle.promise 以该响应 resolve（如任务状态变为 done）
+    until?: (res: AxiosResponse<T>) => boolean;
+    // 结果未变化时按倍数拉长间隔，变化后恢复为 interval
+    backoff?: boolean | PollingBackoff<T>;
+    // 页面隐藏（document.hidden）时暂停，重新可见后立即轮询一次，默认 true
+    pauseWhenHidden?: boolean;
+    // 离线（navigator.onLine 为 false）时暂停，恢复联网后立即轮询一次，默认 true
+    pauseWhenOffline?: boolean;
+}
+
+/**
+ * poll() 返回的轮询句柄
+ */
+export interface PollingHandle<T> {
+    key: string;
+    /**
+     * 轮询结束时 resolve：until 满足时为该响应；达到最大次数或被停止时为最后一次成功的响应。
+     * 达到最大次数且最后一次请求失败时以该错误 reject
+     */
+    promise: Promise<AxiosResponse<T> | undefined>;
+    /** 立即轮询一次（忽略页面隐藏与离线），并从此刻重新计算间隔 */
+    refresh: () => void;
+    stop: () => void;
 }
 
 /**
@@ -30,11 +67,23 @@ interface PollingState {
     timeoutId: ReturnType<typeof setTimeout> | null;
     // 任务执行所需的所有配置
     config: PollingConfig<any>;
+    // 当前间隔，结果未变化时按 backoff 增长
+    currentInterval: number;
+    // 请求是否正在进行（含在并发队列中排队）
+    inFlight: boolean;
+    // 到达调度时间但因页面隐藏或离线而暂停
+    paused: boolean;
+    lastResponse?: AxiosResponse<any>;
+    lastError?: any;
+    resolve: (res: AxiosResponse<any> | undefined) => void;
+    reject: (err: any) => void;
 }
 
 export class PollingManager {
     // 使用 Map 存储 PollingState 对象，以便管理每个轮询的完整状态
     private pollingTasks: Map<string, PollingState> = new Map();
+    // 是否已监听页面可见性与网络状态
+    private environmentBound = false;
 
     constructor(
         private instance: AxiosInstance,
@@ -42,7 +91,7 @@ export class PollingManager {
     ) {}
 
     /**
-     * 启动或重启一个轮询任务。
+     * 启动或重启一个轮询任务，返回可等待结果的句柄。
      */
     public poll<T>(
         {
@@ -53,12 +102,19 @@ export class PollingManager {
             onSuccess,
             onError,
             interval = 5000,
-            maxPollingTimes = 3, // 使用 maxPollingTimes
+            until,
+            maxPollingTimes = until ? Infinity : 3, // 使用 maxPollingTimes
+            priority,
+            backoff,
+            pauseWhenHidden = true,
+            pauseWhenOffline = true,
         }: PollingConfig<T> = {} as PollingConfig<T>,
-    ) {
+    ): PollingHandle<T> {
         if (!key) {
             console.error('Polling key must be provided.');
-            return;
+            const promise = Promise.reject(new Error('Polling key must be provided.'));
+            promise.catch(() => undefined);
+            return { key, promise, refresh: () => undefined, stop: () => undefined };
         }
 
         // 如果该 key 已存在，先停止之前的轮询
@@ -66,6 +122,15 @@ export class PollingManager {
             this.stopPolling(key);
         }
 
+        let resolve!: PollingState['resolve'];
+        let reject!: PollingState['reject'];
+        const promise = new Promise<AxiosResponse<T> | undefined>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        // 调用方可能只使用回调而不等待 promise，避免未处理的 rejection
+        promise.catch(() => undefined);
+
         // 初始化新的状态对象
         const state: PollingState = {
             key,
@@ -81,59 +146,160 @@ export class PollingManager {
                 onError,
                 interval,
                 maxPollingTimes,
+                priority,
+                until,
+                backoff,
+                pauseWhenHidden,
+                pauseWhenOffline,
             } as PollingConfig<any>,
+            currentInterval: interval,
+            inFlight: false,
+            paused: false,
+            resolve,
+            reject,
         };
         this.pollingTasks.set(key, state);
+        if (pauseWhenHidden || pauseWhenOffline) this.bindEnvironment();
 
         // 立即开始第一次轮询
         this.executePoll(state);
+
+        return {
+            key,
+            promise,
+            refresh: () => this.refresh(key),
+            stop: () => this.stopPolling(key),
+        };
+    }
+
+    /**
+     * 立即轮询一次：取消等待中的定时器，请求进行中时忽略
+     */
+    public refresh(key: string) {
+        const state = this.pollingTasks.get(key);
+        if (!state || state.isStopped || state.inFlight) return;
+        if (state.timeoutId) {
+            clearTimeout(state.timeoutId);
+            state.timeoutId = null;
+        }
+        this.executePoll(state, true);
     }
 
     /**
      * 内部方法：执行单个轮询请求和调度下一个请求
      */
-    private executePoll(state: PollingState): void {
-        const { key, url, method, config, onSuccess, onError, interval, maxPollingTimes } =
-            state.config;
+    private executePoll(state: PollingState, force = false): void {
+        const { url, method, config, onSuccess, onError, until, maxPollingTimes } = state.config;
+        state.timeoutId = null;
 
         // 核心退出条件：如果被外部停止，或者已达到最大轮询次数
         if (state.isStopped || state.attempts >= maxPollingTimes!) {
             // 达到最大次数或已停止，执行清理
-            this.pollingTasks.delete(key);
+            this.finish(state);
+            return;
+        }
+
+        // 页面隐藏或离线时暂停，等待环境恢复后由 resumePaused 继续
+        if (!force && this.shouldPause(state.config)) {
+            state.paused = true;
             return;
         }
+        state.paused = false;
+        state.inFlight = true;
 
         // 封装轮询请求逻辑
         const requestTask = async () => {
             // 再次检查中止状态，以防任务在排队时被 stopPolling
             if (state.isStopped) return;
 
+            let satisfied = false;
             try {
                 // 使用并发控制器来执行实际的 HTTP 请求
                 const res = await this.instance[method!](url, config);
+                this.updateInterval(state, res);
+                state.lastResponse = res;
+                state.lastError = undefined;
                 onSuccess?.(res);
+                satisfied = !!until?.(res);
             } catch (err) {
+                state.lastError = err;
                 // 请求失败时，通知调用者
                 onError?.(err);
             } finally {
+                state.inFlight = false;
                 state.attempts++; // 无论成功失败，尝试次数都增加
 
                 // 检查是否需要继续轮询
-                if (state.attempts < maxPollingTimes!) {
+                if (state.isStopped) {
+                    // 请求期间被停止，stopPolling 已完成清理
+                } else if (!satisfied && state.attempts < maxPollingTimes!) {
                     // 调度下一个轮询请求
                     state.timeoutId = setTimeout(() => {
                         this.executePoll(state);
-                    }, interval);
+                    }, state.currentInterval);
                 } else {
-                    // 达到最大次数，执行清理
-                    this.pollingTasks.delete(key);
+                    // 条件满足或达到最大次数，执行清理
+                    this.finish(state);
                 }
             }
         };
 
         // 将请求加入并发控制器
         // 注意：这里不需要等待 run() 结果，因为任务状态的更新是在 finally 块中完成的。
-        this.concurrencyController.run(requestTask);
+        this.concurrencyController.run(requestTask, {
+            priority: state.config.priority ?? 'low',
+            key: getRequestHost(state.config.url, this.instance.defaults?.baseURL),
+        });
+    }
+
+    /**
+     * 结果与上一次相同时按 backoff 拉长间隔，不同时恢复为初始间隔
+     */
+    private updateInterval(state: PollingState, res: AxiosResponse<any>) {
+        const { backoff, interval } = state.config;
+        if (!backoff || !state.lastResponse) return;
+        const {
+            multiplier = 2,
+            maxInterval = 60000,
+            isEqual = (prev: AxiosResponse<any>, next: AxiosResponse<any>) =>
+                stableStringify(prev.data) === stableStringify(next.data),
+        } = backoff === true ? {} : backoff;
+        state.currentInterval = isEqual(state.lastResponse, res)
+            ? Math.min(state.currentInterval * multiplier, maxInterval)
+            : interval!;
+    }
+
+    private shouldPause({ pauseWhenHidden, pauseWhenOffline }: PollingConfig<any>) {
+        if (pauseWhenHidden && typeof document !== 'undefined' && document.hidden) return true;
+        return !!pauseWhenOffline && typeof navigator !== 'undefined' && navigator.onLine === false;
+    }
+
+    /**
+     * 监听页面可见性与网络状态，每个 PollingManager 只绑定一次
+     */
+    private bindEnvironment() {
+        if (this.environmentBound || typeof window === 'undefined') return;
+        this.environmentBound = true;
+        document.addEventListener('visibilitychange', this.resumePaused);
+        window.addEventListener('online', this.resumePaused);
+    }
+
+    /**
+     * 环境恢复后，立即执行因暂停而错过的轮询
+     */
+    private resumePaused = () => {
+        this.pollingTasks.forEach((state) => {
+            if (state.paused && !this.shouldPause(state.config)) this.executePoll(state);
+        });
+    };
+
+    /**
+     * 结束轮询并返回结果
+     */
+    private finish(state: PollingState) {
+        if (this.pollingTasks.get(state.key) === state) this.pollingTasks.delete(state.key);
+        if (state.lastError && !state.isStopped) state.reject(state.lastError);
+        else state.resolve(state.lastResponse);
     }
 
     /**
@@ -151,8 +317,8 @@ export class PollingManager {
                 clearTimeout(state.timeoutId);
             }
 
-            // 3. 移除任务，释放内存。
-            this.pollingTasks.delete(key);
+            // 3. 移除任务，释放内存，并以最后一次成功的响应结束句柄。
+            this.finish(state);
 
             // console.log(`Polling task '${key}' has been stopped.`);
         }
@@ -0,0 +1,50 @@
+import type { AxiosResponse } from 'axios';
+import { AxiosWrapperError } from './AxiosWrapperError';
+import { ValidationRuleFn, ValidationRules, Validator } from '../validator';
+
+/**
+ * 响应数据的验证规则：规则集合（支持嵌套对象）、已创建的 Validator，
+ * 或直接作用于整个响应体的规则函数（如列表接口使用 `Rules.each`）
+ */
+export type ResponseSchema = ValidationRules | Validator | ValidationRuleFn | ValidationRuleFn[];
+
+/**
+ * 响应数据未通过 responseSchema 验证时抛出，会经过 onError 上报
+ */
+export class ResponseValidationError extends AxiosWrapperError {
+    declare response: AxiosResponse;
+
+    constructor(
+        /** 字段路径 → 错误信息，嵌套字段如 `user.name` */
+        public errors: Record<string, string>,
+        response: AxiosResponse,
+    ) {
+        const [field, message] = Object.entries(errors)[0] || [];
+        super(
+            `Response validation failed for ${response.config?.url}: ${field} ${message}`,
+            'validation',
+            { config: response.config, response },
+        );
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/**
+ * 按 schema 验证 response.data，未通过时抛出 ResponseValidationError。
+ * 响应内容各不相同，验证时不使用 Validator 的结果缓存，避免其无限增长
+ */
+export async function validateResponse(response: AxiosResponse, schema: ResponseSchema) {
+    const { data } = response;
+    if (typeof schema === 'function' || Array.isArray(schema)) {
+        // 根级规则直接验证整个响应体，错误以 data 为 key
+        const result = await new Validator({ data: schema }).validate({ data }, { cache: false });
+        if (!result.isValid) throw new ResponseValidationError(result.errors, response);
+        return;
+    }
+    const validator = schema instanceof Validator ? schema : new Validator(schema);
+    // 规则集合验证对象的字段，非对象的响应体按空对象验证，由 required 等规则报告错误
+    const result = await validator.validate(data !== null && typeof data === 'object' ? data : {}, {
+        cache: false,
+    });
+    if (!result.isValid) throw new ResponseValidationError(result.errors, response);
+}
@@ -0,0 +1,295 @@
+/**
+ * 跨标签页同步的消息：start 开始刷新，refreshed 刷新成功，failed 刷新失败，logout 登录态失效
+ */
+export type TokenRefreshMessage =
+    | { type: 'start'; from: string }
+    | { type: 'refreshed'; from: string; token: string }
+    | { type: 'failed'; from: string }
+    | { type: 'logout'; from: string };
+
+export interface TokenRefreshCoordinatorOptions {
+    /** BroadcastChannel 名称，同时作为 localStorage 键的前缀，默认 lania-axios-token */
+    channelName?: string;
+    /** 等待其他标签页刷新的最长时间（毫秒），超时后由当前标签页自行刷新，默认 10000 */
+    timeout?: number;
+    /** 其他标签页刷新成功，Token 只保存在内存中时可在此更新 */
+    onTokenRefreshed?: (token: string) => void;
+}
+
+/**
+ * 等待的刷新在其他标签页失败时抛出。
+ * 是否登出由负责刷新的标签页决定，并通过 logout 消息同步，等待方不再重复处理
+ */
+export class RemoteRefreshError extends Error {
+    constructor() {
+        super('Token refresh failed in another tab');
+        this.name = 'RemoteRefreshError';
+        Object.setPrototypeOf(this, RemoteRefreshError.prototype);
+    }
+}
+
+interface RefreshLock {
+    id: string;
+    expiresAt: number;
+}
+
+interface RefreshWaiter {
+    resolve: (token: string | null) => void;
+    reject: (error: Error) => void;
+}
+
+function getLocalStorage(): Storage | null {
+    try {
+        return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+        // 禁用存储（如部分隐私模式）时访问 localStorage 会抛错
+        return null;
+    }
+}
+
+function getLockManager(): LockManager | null {
+    return typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+}
+
+let coordinatorSeed = 0;
+
+/**
+ * 跨标签页协调 Token 刷新：同一时间只有一个标签页调用 refreshAccessToken，
+ * 其他标签页等待并直接使用它刷新得到的 Token；任一标签页登出时通知所有标签页。
+ * 刷新锁优先使用 Web Locks（navigator.locks），不支持时退回 localStorage；
+ * 消息优先使用 BroadcastChannel，不支持时退回 localStorage 的 storage 事件
+ */
+export class TokenRefreshCoordinator {
+    private id = `${Date.now().toString(36)}-${++coordinatorSeed}-${Math.random().toString(36).slice(2)}`;
+    private channel: BroadcastChannel | null = null;
+    private waiters: RefreshWaiter[] = [];
+    /** 收到其他标签页 start 消息后，在此时间前视为对方正在刷新 */
+    private remoteRefreshUntil = 0;
+    /** 收到其他标签页刷新结果的次数，排队等锁期间变化说明已有标签页完成刷新 */
+    private remoteResultSeq = 0;
+    /** 最近一次收到的刷新结果，失败时为 null */
+    private remoteToken: string | null = null;
+    private listeners: Set<() => void> = new Set();
+
+    constructor(private options: TokenRefreshCoordinatorOptions = {}) {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(this.channelName);
+            this.channel.onmessage = (event) => this.handleMessage(event.data);
+        } else if (typeof window !== 'undefined') {
+            window.addEventListener('storage', this.onStorage);
+        }
+    }
+
+    private get channelName() {
+        return this.options.channelName || 'lania-axios-token';
+    }
+
+    private get timeout() {
+        return this.options.timeout ?? 10000;
+    }
+
+    /**
+     * 其他标签页是否正在刷新 Token
+     */
+    isRemoteRefreshing() {
+        if (this.remoteRefreshUntil > Date.now()) return true;
+        const lock = this.readLock();
+        return !!lock && lock.id !== this.id && lock.expiresAt > Date.now();
+    }
+
+    /**
+     * 执行刷新：其他标签页正在刷新时等待其结果，超时（如该标签页已关闭）后再自行刷新
+     */
+    async refresh(task: () => Promise<string>): Promise<string> {
+        const locks = getLockManager();
+        if (locks) return this.refreshWithLocks(locks, task);
+        // localStorage 的读写不是原子操作，多个标签页同时检查时仍可能重复刷新
+        if (this.isRemoteRefreshing()) {
+            const token = await this.waitForRemote();
+            if (token !== null) return token;
+        }
+        this.writeLock({ id: this.id, expiresAt: Date.now() + this.timeout });
+        return this.runTask(task);
+    }
+
+    /**
+     * 通知其他标签页登录态已失效
+     */
+    broadcastLogout() {
+        this.post({ type: 'logout', from: this.id });
+    }
+
+    /**
+     * 监听其他标签页发出的登出通知
+     */
+    onLogout(listener: () => void) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * 关闭频道并移除监听，等待中的刷新按超时处理
+     */
+    destroy() {
+        this.channel?.close();
+        this.channel = null;
+        if (typeof window !== 'undefined') window.removeEventListener('storage', this.onStorage);
+        this.settle((waiter) => waiter.resolve(null));
+        this.listeners.clear();
+    }
+
+    /**
+     * 通过 Web Locks 排队，同一时间只有一个标签页持有刷新锁；持有锁的标签页关闭时浏览器会自动释放。
+     * 拿到锁时，若排队期间已有标签页刷新完成则直接使用其结果；等锁超过 timeout 后不再等待，自行刷新
+     */
+    private async refreshWithLocks(locks: LockManager, task: () => Promise<string>) {
+        const seq = this.remoteResultSeq;
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeout);
+        let granted = false;
+        try {
+            return await locks.request(
+                `${this.channelName}:lock`,
+                { signal: controller.signal },
+                async () => {
+                    granted = true;
+                    clearTimeout(timer);
+                    if (this.remoteResultSeq !== seq) {
+                        if (this.remoteToken === null) throw new RemoteRefreshError();
+                        return this.remoteToken;
+                    }
+                    // 上一个持有锁的标签页释放锁时，它的 refreshed 消息可能还没有送达
+                    if (this.isRemoteRefreshing()) {
+                        const token = await this.waitForRemote();
+                        if (token !== null) return token;
+                    }
+                    return this.runTask(task);
+                },
+            );
+        } catch (error) {
+            if (granted || !controller.signal.aborted) throw error;
+            return this.runTask(task);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async runTask(task: () => Promise<string>) {
+        this.post({ type: 'start', from: this.id });
+        try {
+            const token = await task();
+            this.post({ type: 'refreshed', from: this.id, token });
+            return token;
+        } catch (error) {
+            this.post({ type: 'failed', from: this.id });
+            throw error;
+        } finally {
+            this.releaseLock();
+        }
+    }
+
+    private waitForRemote(): Promise<string | null> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.waiters = this.waiters.filter((waiter) => waiter !== entry);
+                resolve(null);
+            }, this.timeout);
+            const entry: RefreshWaiter = {
+                resolve: (token) => {
+                    clearTimeout(timer);
+                    resolve(token);
+                },
+                reject: (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+            };
+            this.waiters.push(entry);
+        });
+    }
+
+    private settle(callback: (waiter: RefreshWaiter) => void) {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(callback);
+    }
+
+    private handleMessage(message: TokenRefreshMessage | null) {
+        if (!message || message.from === this.id) return;
+        switch (message.type) {
+            case 'start':
+                this.remoteRefreshUntil = Date.now() + this.timeout;
+                break;
+            case 'refreshed':
+                this.remoteRefreshUntil = 0;
+                this.remoteResultSeq++;
+                this.remoteToken = message.token;
+                this.options.onTokenRefreshed?.(message.token);
+                this.settle((waiter) => waiter.resolve(message.token));
+                break;
+            case 'failed':
+                this.remoteRefreshUntil = 0;
+                this.remoteResultSeq++;
+                this.remoteToken = null;
+                this.settle((waiter) => waiter.reject(new RemoteRefreshError()));
+                break;
+            case 'logout':
+                this.listeners.forEach((listener) => listener());
+                break;
+        }
+    }
+
+    private onStorage = (event: StorageEvent) => {
+        if (event.key !== `${this.channelName}:message` || !event.newValue) return;
+        try {
+            this.handleMessage(JSON.parse(event.newValue));
+        } catch {
+            // 忽略无法解析的消息
+        }
+    };
+
+    private post(message: TokenRefreshMessage) {
+        if (this.channel) {
+            this.channel.postMessage(message);
+            return;
+        }
+        const storage = getLocalStorage();
+        if (!storage) return;
+        const key = `${this.channelName}:message`;
+        try {
+            // 加上时间戳保证每次写入的值都不同，写入后立即删除，只用于触发其他标签页的 storage 事件
+            storage.setItem(key, JSON.stringify({ ...message, sentAt: Date.now() }));
+            storage.removeItem(key);
+        } catch {
+            // 忽略存储失败
+        }
+    }
+
+    private readLock(): RefreshLock | null {
+        try {
+            const value = getLocalStorage()?.getItem(`${this.channelName}:lock`);
+            return value ? JSON.parse(value) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private writeLock(lock: RefreshLock) {
+        try {
+            getLocalStorage()?.setItem(`${this.channelName}:lock`, JSON.stringify(lock));
+        } catch {
+            // 忽略存储失败，仍可通过 start 消息协调
+        }
+    }
+
+    private releaseLock() {
+        if (this.readLock()?.id !== this.id) return;
+        try {
+            getLocalStorage()?.removeItem(`${this.channelName}:lock`);
+        } catch {
+            // 忽略存储失败
+        }
+    }
+}
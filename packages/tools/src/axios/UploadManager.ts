@@ -1,9 +1,75 @@
 // UploadManager.ts
 
-import axios, { AxiosInstance, CancelTokenSource } from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import SparkMD5 from 'spark-md5'; // 用于 calculateChunkMd5
-import { GlobalConcurrencyController } from './GlobalConcurrencyController';
+import { GlobalConcurrencyController, TaskPriority } from './GlobalConcurrencyController';
+import { getRequestHost } from './helper';
+import { UploadResult, UploadTask, UploadTaskProgress, UploadTaskStatus } from './UploadTask';
+import { FormDataUploadProtocol, UploadContext, UploadProtocol } from './UploadProtocol';
 import { CHUNK_SIZE } from './const';
+import { IndexedDBUploadRecordStore, UploadRecord, UploadRecordStore } from './UploadRecordStore';
+
+/**
+ * 文件摘要算法，none 表示不计算（此时无法按摘要在服务端续传）
+ */
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256' | 'none';
+
+/**
+ * 抽样摘要：只读取文件头、中、尾三段计算摘要，用于大文件的秒传预检。
+ * 服务端需要按相同的规则计算才能比对。
+ */
+export interface SampleHashOptions {
+    /** 每段读取的字节数，默认 2MB */
+    sampleSize?: number;
+    /** 文件超过该大小才抽样，默认 100MB */
+    threshold?: number;
+}
+
+export interface FileHashOptions {
+    algorithm?: HashAlgorithm;
+    sample?: boolean | SampleHashOptions;
+}
+
+/**
+ * 自适应分片：根据实测吞吐量调整下一个分片的大小，使每个分片的上传耗时接近 targetDuration
+ */
+export interface AdaptiveChunkSizeOptions {
+    /** 最小分片，默认 1MB；S3 分片上传要求除最后一片外不小于 5MB */
+    min?: number;
+    /** 最大分片，默认 20MB */
+    max?: number;
+    /** 每个分片的目标耗时（毫秒），默认 3000 */
+    targetDuration?: number;
+    /** 单个文件同时上传的分片数，默认 3（顺序协议固定为 1） */
+    concurrency?: number;
+}
+
+/**
+ * 计算抽样摘要的字节区间，不需要抽样时返回 null（计算整个文件）
+ */
+export function getHashSampleRanges(
+    fileSize: number,
+    sample: boolean | SampleHashOptions = false,
+): [number, number][] | null {
+    if (!sample) return null;
+    const { sampleSize = 2 * 1024 * 1024, threshold = 100 * 1024 * 1024 } =
+        sample === true ? {} : sample;
+    if (fileSize <= threshold || fileSize <= sampleSize * 3) return null;
+    const middle = Math.floor((fileSize - sampleSize) / 2);
+    return [
+        [0, sampleSize],
+        [middle, middle + sampleSize],
+        [fileSize - sampleSize, fileSize],
+    ];
+}
+
+/**
+ * 秒传预检接口的响应，exists 为 true 时跳过上传，整个响应作为 UploadResult.response
+ */
+export interface FileCheckResult {
+    exists: boolean;
+    [key: string]: any;
+}
 
 export interface UploadFileOptions {
     maxConcurrent?: number; // 字段保留，但实际使用 GlobalConcurrencyController 的限制
@@ -17,29 +83,101 @@ export interface UploadFileOptions {
         total: number,
     ) => void;
     onProgress?: (finishedChunks: number, totalChunks: number) => void;
+    priority?: TaskPriority; // 分块在并发队列中的优先级，默认 low
+    signal?: AbortSignal; // 中止整个上传，排队中的分块会直接移出并发队列
+    onStatusChange?: (status: UploadTaskStatus, task: UploadTask) => void; // 任务状态变化
+    onTaskProgress?: (progress: UploadTaskProgress, task: UploadTask) => void; // 字节级进度、速度与剩余时间
+    protocol?: UploadProtocol; // 上传协议，默认使用 UploadManagerOptions.protocol
+    chunkSize?: number; // 分片大小，默认 CHUNK_SIZE（5MB），开启 adaptiveChunkSize 时为初始大小
+    adaptiveChunkSize?: boolean | AdaptiveChunkSizeOptions; // 根据吞吐量自适应调整分片大小
+    hashAlgorithm?: HashAlgorithm; // 文件摘要算法，默认 md5，结果通过 fileMd5 字段传递
+    sampleHash?: boolean | SampleHashOptions; // 大文件只对头、中、尾抽样计算摘要
+    checkFileUrl?: string; // 秒传预检地址，服务端已有该文件时直接完成
+    verifyChunkUrl?: string; // 分片去重校验地址，会自动计算分片 MD5（form-data 协议）
+    mergeUrl?: string; // 全部分片上传完成后请求合并的地址（form-data 协议）
+    onMerge?: (ctx: UploadContext) => Promise<any>; // 自定义合并请求，优先于 mergeUrl
+}
+
+/**
+ * 分片请求的调度与重试选项
+ */
+export interface ChunkRequestOptions {
+    chunkIndex?: number;
+    retryTimes?: number;
+    retryDelay?: number;
+    priority?: TaskPriority;
+    signal?: AbortSignal;
 }
 
+export interface UploadManagerOptions {
+    /** 同时上传的文件数，默认 3，超出的任务排队 */
+    maxConcurrentFiles?: number;
+    /** 上传记录存储，开启 enableResume 时用于刷新页面后续传，默认使用 IndexedDB，false 表示不保存 */
+    recordStore?: UploadRecordStore | false;
+    /** 默认上传协议，默认 FormDataUploadProtocol */
+    protocol?: UploadProtocol;
+}
+
+/** 占用文件队列槽位的状态 */
+const ACTIVE_STATUSES: UploadTaskStatus[] = ['hashing', 'uploading'];
+
 export class UploadManager {
+    private tasks: UploadTask[] = [];
+    private maxConcurrentFiles: number;
+    private recordStore: UploadRecordStore | null;
+    private protocol: UploadProtocol;
+
     constructor(
         private instance: AxiosInstance,
         private concurrencyController: GlobalConcurrencyController,
-    ) {}
+        options: UploadManagerOptions = {},
+    ) {
+        this.maxConcurrentFiles = options.maxConcurrentFiles || 3;
+        this.protocol = options.protocol || new FormDataUploadProtocol();
+        if (options.recordStore === false) {
+            this.recordStore = null;
+        } else {
+            this.recordStore =
+                options.recordStore ||
+                (typeof indexedDB !== 'undefined' ? new IndexedDBUploadRecordStore() : null);
+        }
+    }
 
     /**
      * 在 Web Worker 中计算文件的 MD5，避免阻塞主线程。
      */
     async calculateFileMd5(file: File, chunkSize: number): Promise<string> {
+        return this.runHashWorker({ file, chunkSize });
+    }
+
+    /**
+     * 按摘要算法与抽样规则计算文件摘要，algorithm 为 none 时返回空字符串
+     */
+    async calculateFileHash(file: File, options: FileHashOptions = {}): Promise<string> {
+        const { algorithm = 'md5', sample } = options;
+        if (algorithm === 'none') return '';
+        const ranges = getHashSampleRanges(file.size, sample);
+        if (algorithm === 'md5' && !ranges) return this.calculateFileMd5(file, CHUNK_SIZE);
+        return this.runHashWorker({ file, chunkSize: CHUNK_SIZE, algorithm, ranges });
+    }
+
+    private runHashWorker(message: {
+        file: File;
+        chunkSize: number;
+        algorithm?: HashAlgorithm;
+        ranges?: [number, number][] | null;
+    }): Promise<string> {
         return new Promise((resolve, reject) => {
             // 上传管理器中
             const worker = new Worker(
-                new URL('./md5-calculator.worker.ts', import.meta.url),
+                new URL('./hash-calculator.worker.ts', import.meta.url),
                 { type: 'module' }, // 通常推荐添加 type: 'module'
             );
             const cleanup = () => worker.terminate();
             worker.onmessage = (e: any) => {
                 cleanup();
                 if (e.data.error) {
-                    reject(new Error(`MD5 Worker Error: ${e.data.error}`));
+                    reject(new Error(`Hash Worker Error: ${e.data.error}`));
                 } else {
                     resolve(e.data.result);
                 }
@@ -47,10 +185,10 @@ export class UploadManager {
 
             worker.onerror = (e: any) => {
                 cleanup();
-                reject(new Error(`MD5 Worker failed: ${e.message}`));
+                reject(new Error(`Hash Worker failed: ${e.message}`));
             };
 
-            worker.postMessage({ file, chunkSize });
+            worker.postMessage(message);
         });
     }
 
@@ -74,12 +212,13 @@ export class UploadManager {
         chunk: Blob,
         chunkIndex: number,
         totalChunks: number,
-        cancelToken: CancelTokenSource,
         fileMd5?: string,
         chunkMd5?: string,
         onChunkProgress?: (loaded: number, total: number) => void,
         retryTimes = 3,
         retryDelay = 1000,
+        priority: TaskPriority = 'low',
+        signal?: AbortSignal,
     ): Promise<void> {
         const formData = new FormData();
         formData.append('file', chunk);
@@ -88,96 +227,238 @@ export class UploadManager {
         if (fileMd5) formData.append('fileMd5', fileMd5);
         if (chunkMd5) formData.append('chunkMd5', chunkMd5);
 
-        // 使用递归函数实现重试
-        const uploadWithRetry = async (attempt: number): Promise<void> => {
-            // 将实际的 HTTP 请求提交给全局并发控制器
-            return this.concurrencyController.run(async () => {
-                try {
-                    await this.instance.post(url, formData, {
-                        headers: { 'Content-Type': 'multipart/form-data' },
-                        cancelToken: cancelToken.token,
-                        onUploadProgress: onChunkProgress
-                            ? (e: any) => onChunkProgress(e.loaded, e.total ?? 0)
-                            : undefined,
-                    });
-                } catch (error: any) {
-                    if (axios.isCancel(error)) {
-                        throw new Error('Upload canceled by user signal.');
-                    }
-                    if (attempt < retryTimes) {
-                        console.warn(
-                            `Chunk ${chunkIndex} failed (Attempt ${attempt + 1}/${retryTimes}). Retrying in ${retryDelay}ms...`,
-                        );
-                        await new Promise((r) => setTimeout(r, retryDelay));
-                        // 递归调用下一轮上传
-                        return uploadWithRetry(attempt + 1);
-                    }
-                    // 超过最大重试次数，抛出原始错误
-                    throw error;
-                }
-            });
+        await this.runChunkRequest(
+            url,
+            () =>
+                this.instance.post(url, formData, {
+                    headers: { 'Content-Type': 'multipart/form-data' },
+                    signal,
+                    onUploadProgress: onChunkProgress
+                        ? (e: any) => onChunkProgress(e.loaded, e.total ?? 0)
+                        : undefined,
+                }),
+            { chunkIndex, retryTimes, retryDelay, priority, signal },
+        );
+    }
+
+    /**
+     * 将分片请求提交给全局并发控制器，失败时延迟重试（取消不重试）。
+     * 各上传协议的分片请求都通过它发出，重试等待期间不占用并发槽位。
+     */
+    async runChunkRequest<T>(
+        url: string,
+        request: () => Promise<T>,
+        options: ChunkRequestOptions = {},
+    ): Promise<T> {
+        const {
+            chunkIndex = 0,
+            retryTimes = 3,
+            retryDelay = 1000,
+            priority = 'low',
+            signal,
+        } = options;
+        // 分块按 host 分组，受 maxConcurrentPerHost 限制
+        const runOptions = {
+            priority,
+            key: getRequestHost(url, this.instance.defaults?.baseURL),
+            signal,
         };
-        await uploadWithRetry(0);
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.concurrencyController.run(request, runOptions);
+            } catch (error: any) {
+                if (axios.isCancel(error)) {
+                    throw new Error('Upload canceled by user signal.');
+                }
+                // 超过最大重试次数，抛出原始错误
+                if (attempt >= retryTimes) throw error;
+                console.warn(
+                    `Chunk ${chunkIndex} failed (Attempt ${attempt + 1}/${retryTimes}). Retrying in ${retryDelay}ms...`,
+                );
+                await new Promise((r) => setTimeout(r, retryDelay));
+            }
+        }
+    }
+
+    /**
+     * 上传协议发送非分片请求（如 tus 的 HEAD / DELETE）时使用的实例
+     */
+    getInstance() {
+        return this.instance;
+    }
+
+    /**
+     * 并发控制器的全局并发上限，固定分片时上传任务据此限制同时处理的分片数
+     */
+    getMaxConcurrent() {
+        return this.concurrencyController.getStats().maxConcurrent;
+    }
+
+    /**
+     * 查询服务端已上传的分片索引
+     */
+    async getUploadedChunks(getUploadedChunksUrl: string, fileMd5: string): Promise<number[]> {
+        const res = await this.instance.get<{ uploaded: number[] }>(
+            `${getUploadedChunksUrl}?fileMd5=${fileMd5}`,
+        );
+        return res.data.uploaded || [];
+    }
+
+    /**
+     * 秒传预检：GET checkFileUrl?fileMd5=&fileName=&fileSize=
+     */
+    async checkFileExists(
+        checkFileUrl: string,
+        file: File,
+        fileMd5: string,
+    ): Promise<FileCheckResult> {
+        const res = await this.instance.get<FileCheckResult>(checkFileUrl, {
+            params: { fileMd5, fileName: file.name, fileSize: file.size },
+        });
+        return res.data || { exists: false };
+    }
+
+    /**
+     * 分片去重：GET verifyChunkUrl?fileMd5=&chunkIndex=&chunkMd5=，服务端已有相同分片时返回 true。
+     * 与分片请求一样受并发控制与重试约束。
+     */
+    async verifyChunk(
+        verifyChunkUrl: string,
+        fileMd5: string,
+        chunkIndex: number,
+        chunkMd5: string,
+        options: ChunkRequestOptions = {},
+    ): Promise<boolean> {
+        const res = await this.runChunkRequest(
+            verifyChunkUrl,
+            () =>
+                this.instance.get<{ exists: boolean }>(verifyChunkUrl, {
+                    params: { fileMd5, chunkIndex, chunkMd5 },
+                    signal: options.signal,
+                }),
+            { chunkIndex, ...options },
+        );
+        return !!res.data?.exists;
+    }
+
+    /**
+     * 合并分片：POST mergeUrl { fileMd5, fileName, fileSize, totalChunks }，返回响应数据
+     */
+    async mergeChunks(mergeUrl: string, ctx: UploadContext): Promise<any> {
+        const res = await this.instance.post(mergeUrl, {
+            fileMd5: ctx.fileMd5,
+            fileName: ctx.file.name,
+            fileSize: ctx.file.size,
+            totalChunks: ctx.totalChunks,
+        });
+        return res.data;
     }
 
     /**
      * 调度整个文件的上传任务。
      * 依赖 GlobalConcurrencyController 统一控制所有分块的并发。
      */
-    async uploadFile(url: string, file: File, options: UploadFileOptions = {}) {
-        const {
-            enableResume = false,
-            calculateChunkMd5 = false,
-            getUploadedChunksUrl,
-            onChunkProgress,
-            onProgress,
-        } = options;
+    uploadFile(url: string, file: File, options: UploadFileOptions = {}): Promise<UploadResult> {
+        return this.createTask(url, file, options).promise;
+    }
 
-        const chunkSize = CHUNK_SIZE;
-        const totalChunks = Math.ceil(file.size / chunkSize);
-        // 1. 使用 Web Worker 计算文件 MD5
-        const fileMd5 = await this.calculateFileMd5(file, chunkSize);
-        const cancelToken = axios.CancelToken.source();
-        let uploadedChunks = new Set<number>();
-        // 2. 断点续传检查
-        if (enableResume && getUploadedChunksUrl) {
-            const res = await this.instance.get<{ uploaded: number[] }>(
-                `${getUploadedChunksUrl}?fileMd5=${fileMd5}`,
-            );
-            uploadedChunks = new Set(res.data.uploaded || []);
-        }
-        let finishedChunks = uploadedChunks.size;
-        // 3. 创建所有分块上传任务 (Promise 数组)
-        const uploadPromises = Array.from({ length: totalChunks })
-            .map((_, index) => index)
-            .filter((i) => !uploadedChunks.has(i))
-            .map(async (chunkIndex) => {
-                const start = chunkIndex * chunkSize;
-                const end = Math.min(file.size, start + chunkSize);
-                const chunk = file.slice(start, end);
-                const chunkMd5 = calculateChunkMd5
-                    ? await this.calculateChunkMd5(chunk)
-                    : undefined;
-                // 提交任务，它会在 uploadChunk 内部被 GlobalConcurrencyController 调度
-                await this.uploadChunk(
-                    url,
-                    chunk,
-                    chunkIndex,
-                    totalChunks,
-                    cancelToken,
-                    fileMd5,
-                    chunkMd5,
-                    (loaded, total) => onChunkProgress?.(chunkIndex, totalChunks, loaded, total),
-                );
+    /**
+     * 创建上传任务并加入文件队列，返回可暂停/恢复/取消的任务对象
+     */
+    createTask(url: string, file: File, options: UploadFileOptions = {}) {
+        const task = new UploadTask(
+            this,
+            url,
+            file,
+            { ...options, protocol: options.protocol || this.protocol },
+            this.recordStore,
+            () => this.scheduleTasks(),
+        );
+        this.tasks.push(task);
+        // 外部中止信号等同于取消任务，未结束时由任务自己监听
+        if (options.signal?.aborted) task.cancel();
+        this.scheduleTasks();
+        return task;
+    }
+
+    /**
+     * 批量创建上传任务
+     */
+    uploadFiles(url: string, files: File[] | FileList, options: UploadFileOptions = {}) {
+        return Array.from(files).map((file) => this.createTask(url, file, options));
+    }
+
+    getTasks() {
+        return [...this.tasks];
+    }
+
+    /**
+     * 从列表中移除任务，未结束的任务会先被取消
+     */
+    removeTask(taskOrId: UploadTask | string) {
+        const task =
+            typeof taskOrId === 'string' ? this.tasks.find((t) => t.id === taskOrId) : taskOrId;
+        if (!task) return;
+        this.tasks = this.tasks.filter((t) => t !== task);
+        task.cancel();
+    }
+
+    pauseAll() {
+        this.tasks.forEach((task) => task.pause());
+    }
+
+    resumeAll() {
+        this.tasks.forEach((task) => task.resume());
+    }
+
+    cancelAll() {
+        this.tasks.forEach((task) => task.cancel());
+    }
 
-                // 任务成功完成
-                finishedChunks++;
-                onProgress?.(finishedChunks, totalChunks);
-            });
-        // 4. 统一调度和等待所有任务
-        // GlobalConcurrencyController 已经限制了并发数，这里只需等待所有任务完成。
-        await Promise.all(uploadPromises);
-        // await this.instance.post(`${url}/merge`, { fileMd5, totalChunks });
-        return { fileMd5, totalChunks };
+    /**
+     * 汇总所有未取消任务的进度，速度为进行中任务的速度之和
+     */
+    getProgress(): UploadTaskProgress {
+        const progress = this.tasks
+            .filter((task) => task.status !== 'canceled')
+            .map((task) => task.getProgress());
+        const sum = (pick: (p: UploadTaskProgress) => number) =>
+            progress.reduce((acc, p) => acc + pick(p), 0);
+        const loaded = sum((p) => p.loaded);
+        const total = sum((p) => p.total);
+        const speed = sum((p) => p.speed);
+        return {
+            loaded,
+            total,
+            percent: total ? (loaded / total) * 100 : 100,
+            speed,
+            eta: loaded >= total ? 0 : speed > 0 ? (total - loaded) / speed : Infinity,
+            finishedChunks: sum((p) => p.finishedChunks),
+            totalChunks: sum((p) => p.totalChunks),
+        };
+    }
+
+    /**
+     * 本地保存的未完成上传，可用于刷新页面后提示用户重新选择文件继续上传
+     */
+    async getUnfinishedUploads(): Promise<UploadRecord[]> {
+        const store = this.recordStore;
+        if (!store) return [];
+        const keys = await store.keys();
+        const records = await Promise.all(keys.map((key) => store.get(key)));
+        return records.filter((record): record is UploadRecord => !!record);
+    }
+
+    /**
+     * 文件队列调度：按创建顺序启动排队中的任务，直到占满 maxConcurrentFiles
+     */
+    private scheduleTasks() {
+        for (const task of this.tasks) {
+            if (task.status !== 'queued') continue;
+            // task.run() 会同步切换状态并可能再次触发调度，因此每次重新统计
+            const active = this.tasks.filter((t) => ACTIVE_STATUSES.includes(t.status)).length;
+            if (active >= this.maxConcurrentFiles) break;
+            void task.run();
+        }
     }
 }
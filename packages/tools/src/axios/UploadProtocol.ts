@@ -0,0 +1,313 @@
+import axios, { AxiosInstance } from 'axios';
+import type { TaskPriority } from './GlobalConcurrencyController';
+import type { UploadFileOptions, UploadManager } from './UploadManager';
+import { getHeader } from './helper';
+
+/**
+ * 上传会话：协议在 init 中创建（如 tus 的上传地址、S3 的 uploadId），
+ * 必须可以 JSON 序列化，开启 enableResume 时会随上传记录一起保存。
+ */
+export type UploadSession = Record<string, any>;
+
+/**
+ * 一次文件上传的上下文
+ */
+export interface UploadContext {
+    manager: UploadManager;
+    /** uploadFile / createTask 传入的上传地址 */
+    url: string;
+    file: File;
+    /** 文件摘要，hashAlgorithm 为 none 时为空字符串 */
+    fileMd5: string;
+    /** 当前分片大小，自适应分片时会变化 */
+    chunkSize: number;
+    /** 分片总数，自适应分片时为估算值 */
+    totalChunks: number;
+    /** 已规划的分片区间，索引即分片索引 */
+    chunks: ReadonlyArray<{ start: number; end: number }>;
+    options: UploadFileOptions;
+}
+
+/**
+ * 待上传的分片
+ */
+export interface UploadChunk {
+    index: number;
+    blob: Blob;
+    /** 分片在文件中的起止字节（不含 end） */
+    start: number;
+    end: number;
+    chunkMd5?: string;
+    /** 暂停、取消时触发 */
+    signal: AbortSignal;
+    priority?: TaskPriority;
+    onProgress: (loaded: number, total: number) => void;
+}
+
+/**
+ * 上传协议策略
+ */
+export interface UploadProtocol {
+    /** 协议名称，本地记录的协议不一致时不会复用其会话 */
+    readonly name: string;
+    /** 是否必须按顺序逐个上传分片（如 tus），默认并行 */
+    readonly sequential?: boolean;
+    /** 创建上传会话 */
+    init(ctx: UploadContext): Promise<UploadSession>;
+    /** 查询服务端已完整接收的分片索引，恢复上传时调用 */
+    getUploadedChunks?(ctx: UploadContext, session: UploadSession): Promise<number[]>;
+    uploadChunk(ctx: UploadContext, session: UploadSession, chunk: UploadChunk): Promise<void>;
+    /** 全部分片上传完成后调用，返回值作为 UploadResult.response */
+    complete?(ctx: UploadContext, session: UploadSession): Promise<any>;
+    /** 取消上传时调用，用于清理服务端的未完成上传 */
+    abort?(ctx: UploadContext, session: UploadSession): Promise<void>;
+}
+
+/**
+ * 默认协议：每个分片一次 multipart/form-data POST，
+ * 字段为 file / chunkIndex / totalChunks / fileMd5 / chunkMd5。
+ * 配置 verifyChunkUrl 时先校验分片是否已存在；配置 onMerge / mergeUrl 时在最后请求合并。
+ */
+export class FormDataUploadProtocol implements UploadProtocol {
+    readonly name = 'form-data';
+
+    async init() {
+        return {};
+    }
+
+    async getUploadedChunks(ctx: UploadContext) {
+        const { enableResume = false, getUploadedChunksUrl } = ctx.options;
+        if (!enableResume || !getUploadedChunksUrl || !ctx.fileMd5) return [];
+        return ctx.manager.getUploadedChunks(getUploadedChunksUrl, ctx.fileMd5);
+    }
+
+    async uploadChunk(ctx: UploadContext, _session: UploadSession, chunk: UploadChunk) {
+        const { verifyChunkUrl } = ctx.options;
+        if (verifyChunkUrl && chunk.chunkMd5) {
+            const exists = await ctx.manager.verifyChunk(
+                verifyChunkUrl,
+                ctx.fileMd5,
+                chunk.index,
+                chunk.chunkMd5,
+                { priority: chunk.priority, signal: chunk.signal },
+            );
+            if (exists) {
+                const size = chunk.end - chunk.start;
+                chunk.onProgress(size, size);
+                return;
+            }
+        }
+        await ctx.manager.uploadChunk(
+            ctx.url,
+            chunk.blob,
+            chunk.index,
+            ctx.totalChunks,
+            ctx.fileMd5,
+            chunk.chunkMd5,
+            chunk.onProgress,
+            undefined,
+            undefined,
+            chunk.priority,
+            chunk.signal,
+        );
+    }
+
+    async complete(ctx: UploadContext) {
+        const { onMerge, mergeUrl } = ctx.options;
+        if (onMerge) return onMerge(ctx);
+        if (mergeUrl) return ctx.manager.mergeChunks(mergeUrl, ctx);
+        return undefined;
+    }
+}
+
+const TUS_VERSION = '1.0.0';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64 编码 tus 元数据的值，按 UTF-8 字节编码以支持中文文件名
+ */
+function encodeTusMetadata(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    let output = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        output += BASE64_CHARS[(triple >> 18) & 63] + BASE64_CHARS[(triple >> 12) & 63];
+        output += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 63] : '=';
+        output += i + 2 < bytes.length ? BASE64_CHARS[triple & 63] : '=';
+    }
+    return output;
+}
+
+/**
+ * tus 1.0 可恢复上传协议（https://tus.io/protocols/resumable-upload）
+ * - init：POST 上传地址（creation 扩展），从 Location 响应头取得文件地址
+ * - 恢复：HEAD 文件地址读取 Upload-Offset，文件地址失效（404/410）时重新创建
+ * - 分片：按顺序 PATCH，Content-Type 为 application/offset+octet-stream
+ * - 取消：DELETE 文件地址（termination 扩展）
+ */
+export class TusUploadProtocol implements UploadProtocol {
+    readonly name = 'tus';
+    readonly sequential = true;
+
+    constructor(
+        private options: {
+            /** 附加的 Upload-Metadata，filename 与 filetype 会自动带上 */
+            metadata?: Record<string, string>;
+        } = {},
+    ) {}
+
+    async init(ctx: UploadContext) {
+        const metadata: Record<string, string> = {
+            filename: ctx.file.name,
+            filetype: ctx.file.type,
+            ...this.options.metadata,
+        };
+        const res = await ctx.manager.runChunkRequest(ctx.url, () =>
+            this.instance(ctx).post(ctx.url, null, {
+                headers: {
+                    'Tus-Resumable': TUS_VERSION,
+                    'Upload-Length': String(ctx.file.size),
+                    'Upload-Metadata': Object.entries(metadata)
+                        // 值为空时只保留键名
+                        .map(([key, value]) => (value ? `${key} ${encodeTusMetadata(value)}` : key))
+                        .join(','),
+                },
+            }),
+        );
+        const location = getHeader(res.headers, 'location');
+        if (!location) throw new Error('tus: missing Location header in creation response');
+        return { uploadUrl: location, offset: 0 };
+    }
+
+    async getUploadedChunks(ctx: UploadContext, session: UploadSession) {
+        try {
+            const res = await this.instance(ctx).head(session.uploadUrl, {
+                headers: { 'Tus-Resumable': TUS_VERSION },
+            });
+            session.offset = Number(getHeader(res.headers, 'upload-offset')) || 0;
+        } catch (error: any) {
+            const status = error?.response?.status;
+            if (status !== 404 && status !== 410) throw error;
+            // 服务端已清理该上传，重新创建
+            Object.assign(session, await this.init(ctx));
+        }
+        return ctx.chunks.flatMap((chunk, i) => (chunk.end <= session.offset ? [i] : []));
+    }
+
+    async uploadChunk(ctx: UploadContext, session: UploadSession, chunk: UploadChunk) {
+        // 服务端可能已经收到了分片的一部分（如暂停时中断的 PATCH），从 Upload-Offset 继续
+        const start = Math.max(chunk.start, Math.min(session.offset || 0, chunk.end));
+        if (start >= chunk.end) return;
+        const blob = chunk.blob.slice(start - chunk.start);
+        const res = await ctx.manager.runChunkRequest(
+            session.uploadUrl,
+            () =>
+                this.instance(ctx).patch(session.uploadUrl, blob, {
+                    headers: {
+                        'Tus-Resumable': TUS_VERSION,
+                        'Upload-Offset': String(start),
+                        'Content-Type': 'application/offset+octet-stream',
+                    },
+                    signal: chunk.signal,
+                    onUploadProgress: (e) =>
+                        chunk.onProgress(start - chunk.start + e.loaded, chunk.end - chunk.start),
+                }),
+            { chunkIndex: chunk.index, priority: chunk.priority, signal: chunk.signal },
+        );
+        session.offset = Number(getHeader(res.headers, 'upload-offset')) || chunk.end;
+    }
+
+    async complete(_ctx: UploadContext, session: UploadSession) {
+        return { uploadUrl: session.uploadUrl };
+    }
+
+    async abort(ctx: UploadContext, session: UploadSession) {
+        await this.instance(ctx).delete(session.uploadUrl, {
+            headers: { 'Tus-Resumable': TUS_VERSION },
+        });
+    }
+
+    private instance(ctx: UploadContext): AxiosInstance {
+        return ctx.manager.getInstance();
+    }
+}
+
+export interface S3UploadedPart {
+    /** 分片编号，从 1 开始 */
+    PartNumber: number;
+    ETag: string;
+}
+
+/**
+ * S3 兼容分片上传需要业务后端配合的接口（签名必须在服务端完成）
+ */
+export interface S3MultipartOptions {
+    /** CreateMultipartUpload，返回 uploadId 以及其他需要保存的会话字段（如对象 key） */
+    initiate: (ctx: UploadContext) => Promise<{ uploadId: string; [key: string]: any }>;
+    /** 获取分片的预签名 PUT 地址 */
+    signPart: (session: UploadSession, partNumber: number, ctx: UploadContext) => Promise<string>;
+    /** CompleteMultipartUpload，parts 已按 PartNumber 排序 */
+    complete: (session: UploadSession, parts: S3UploadedPart[], ctx: UploadContext) => Promise<any>;
+    /** AbortMultipartUpload */
+    abort?: (session: UploadSession, ctx: UploadContext) => Promise<void>;
+    /** ListParts，恢复上传时与本地保存的 ETag 合并 */
+    listParts?: (session: UploadSession, ctx: UploadContext) => Promise<S3UploadedPart[]>;
+    /**
+     * 上传分片使用的 axios 实例，默认使用不带拦截器的 axios。
+     * 预签名地址不能再携带 Authorization 等头部，因此不使用 AxiosWrapper 的实例。
+     */
+    client?: AxiosInstance;
+}
+
+/**
+ * S3 兼容的分片上传：initiate → 预签名地址 PUT 各分片 → 按 ETag 列表 complete。
+ * 存储桶的 CORS 需要暴露 ETag 响应头。
+ */
+export class S3MultipartUploadProtocol implements UploadProtocol {
+    readonly name = 's3-multipart';
+
+    constructor(private options: S3MultipartOptions) {}
+
+    async init(ctx: UploadContext) {
+        const session = await this.options.initiate(ctx);
+        return { ...session, parts: {} as Record<number, string> };
+    }
+
+    async getUploadedChunks(ctx: UploadContext, session: UploadSession) {
+        const parts = (await this.options.listParts?.(session, ctx)) || [];
+        parts.forEach((part) => (session.parts[part.PartNumber] = part.ETag));
+        return Object.keys(session.parts).map((partNumber) => Number(partNumber) - 1);
+    }
+
+    async uploadChunk(ctx: UploadContext, session: UploadSession, chunk: UploadChunk) {
+        const partNumber = chunk.index + 1;
+        const client = this.options.client || axios;
+        const res = await ctx.manager.runChunkRequest(
+            ctx.url,
+            async () => {
+                // 预签名地址有有效期，每次尝试都重新获取
+                const url = await this.options.signPart(session, partNumber, ctx);
+                return client.put(url, chunk.blob, {
+                    signal: chunk.signal,
+                    onUploadProgress: (e) => chunk.onProgress(e.loaded, e.total ?? 0),
+                });
+            },
+            { chunkIndex: chunk.index, priority: chunk.priority, signal: chunk.signal },
+        );
+        const etag = getHeader(res.headers, 'etag');
+        if (!etag) throw new Error(`S3 multipart: missing ETag header for part ${partNumber}`);
+        session.parts[partNumber] = etag;
+    }
+
+    async complete(ctx: UploadContext, session: UploadSession) {
+        const parts: S3UploadedPart[] = Object.entries(session.parts as Record<string, string>)
+            .map(([partNumber, etag]) => ({ PartNumber: Number(partNumber), ETag: etag }))
+            .sort((a, b) => a.PartNumber - b.PartNumber);
+        return this.options.complete(session, parts, ctx);
+    }
+
+    async abort(ctx: UploadContext, session: UploadSession) {
+        await this.options.abort?.(session, ctx);
+    }
+}
@@ -0,0 +1,76 @@
+import { IndexedDBHelper } from '../web-storage-helper';
+import type { HashAlgorithm } from './UploadManager';
+import type { UploadSession } from './UploadProtocol';
+
+/**
+ * 本地保存的上传进度，刷新页面后重新选择同一文件即可从断点继续
+ */
+export interface UploadRecord {
+    /** 记录 Key，由上传地址与文件名、大小、修改时间组成 */
+    key: string;
+    url: string;
+    fileName: string;
+    fileSize: number;
+    lastModified: number;
+    /** 已计算的文件摘要，恢复时无需重新计算 */
+    fileMd5: string;
+    /** 摘要算法，未记录时视为 md5 */
+    hashAlgorithm?: HashAlgorithm;
+    /** 摘要是否为抽样计算 */
+    sampleHash?: boolean;
+    /** 分片大小（自适应分片时为初始大小） */
+    chunkSize: number;
+    totalChunks: number;
+    /** 自适应分片已规划的分片区间 [start, end) */
+    chunks?: [number, number][];
+    /** 已上传完成的分片索引 */
+    uploaded: number[];
+    /** 上传协议名称，未记录时视为 form-data */
+    protocol?: string;
+    /** 上传协议的会话（如 tus 的文件地址、S3 的 uploadId 与 ETag） */
+    session?: UploadSession;
+    updatedAt: number;
+}
+
+/**
+ * 上传记录持久化接口，方法既可以同步返回，也可以返回 Promise
+ */
+export interface UploadRecordStore {
+    get(key: string): UploadRecord | null | Promise<UploadRecord | null>;
+    set(key: string, record: UploadRecord): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * 基于 IndexedDBHelper 的上传记录存储
+ */
+export class IndexedDBUploadRecordStore implements UploadRecordStore {
+    constructor(private prefix = 'lania-axios-upload:') {}
+
+    get(key: string) {
+        return IndexedDBHelper.get<UploadRecord>(this.prefix + key);
+    }
+
+    set(key: string, record: UploadRecord) {
+        return IndexedDBHelper.set(this.prefix + key, record);
+    }
+
+    delete(key: string) {
+        return IndexedDBHelper.delete(this.prefix + key);
+    }
+
+    async keys() {
+        const keys = await IndexedDBHelper.keys();
+        return keys
+            .filter((key) => key.startsWith(this.prefix))
+            .map((key) => key.slice(this.prefix.length));
+    }
+}
+
+/**
+ * 生成上传记录 Key：同一地址下文件名、大小、修改时间都相同视为同一文件
+ */
+export function getUploadRecordKey(url: string, file: File) {
+    return `${url}|${file.name}|${file.size}|${file.lastModified}`;
+}
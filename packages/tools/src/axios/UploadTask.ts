@@ -0,0 +1,524 @@
+import { CanceledError } from 'axios';
+import type { AdaptiveChunkSizeOptions, UploadFileOptions, UploadManager } from './UploadManager';
+import { getUploadRecordKey, UploadRecord, UploadRecordStore } from './UploadRecordStore';
+import {
+    FormDataUploadProtocol,
+    UploadContext,
+    UploadProtocol,
+    UploadSession,
+} from './UploadProtocol';
+import { CHUNK_SIZE } from './const';
+
+/**
+ * 上传任务状态
+ * - queued：排队等待（文件级队列已满或刚恢复）
+ * - hashing：读取本地记录、计算文件摘要、秒传预检、查询服务端已上传分片
+ * - uploading：上传分片中
+ * - paused / done / failed / canceled
+ */
+export type UploadTaskStatus =
+    | 'queued'
+    | 'hashing'
+    | 'uploading'
+    | 'paused'
+    | 'done'
+    | 'failed'
+    | 'canceled';
+
+/**
+ * 上传进度
+ */
+export interface UploadTaskProgress {
+    /** 已上传字节数（含进行中分片的已发送部分） */
+    loaded: number;
+    total: number;
+    /** 百分比，0 ~ 100 */
+    percent: number;
+    /** 本次上传的平均速度（字节/秒） */
+    speed: number;
+    /** 预计剩余时间（秒），速度未知时为 Infinity */
+    eta: number;
+    finishedChunks: number;
+    totalChunks: number;
+}
+
+export interface UploadResult {
+    fileMd5: string;
+    totalChunks: number;
+    /** 上传协议 complete 的返回值；秒传时为预检接口的响应 */
+    response?: any;
+    /** 服务端已有该文件，未上传任何分片 */
+    instant?: boolean;
+}
+
+interface Deferred<T> {
+    promise: Promise<T>;
+    resolve: (value: T) => void;
+    reject: (reason?: any) => void;
+}
+
+function createDeferred<T>(): Deferred<T> {
+    let resolve!: (value: T) => void;
+    let reject!: (reason?: any) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    // 调用方可能只关心状态回调而不等待 promise，避免未处理的 rejection
+    promise.catch(() => undefined);
+    return { promise, resolve, reject };
+}
+
+let taskSeed = 0;
+
+interface ChunkRange {
+    start: number;
+    end: number;
+}
+
+/** 吞吐量的指数加权系数，越大越偏向最近一次的测量 */
+const THROUGHPUT_WEIGHT = 0.5;
+
+function resolveAdaptiveOptions(
+    adaptive: UploadFileOptions['adaptiveChunkSize'],
+): Required<AdaptiveChunkSizeOptions> | null {
+    if (!adaptive) return null;
+    return {
+        min: 1024 * 1024,
+        max: 20 * 1024 * 1024,
+        targetDuration: 3000,
+        concurrency: 3,
+        ...(adaptive === true ? {} : adaptive),
+    };
+}
+
+/**
+ * 单个文件的上传任务，由 UploadManager 创建并调度。
+ * 暂停会中止进行中的分片，已完成的分片在恢复时跳过。
+ */
+export class UploadTask {
+    public readonly id = `upload-${++taskSeed}`;
+    /** 下一个分片的大小，开启自适应分片时随吞吐量变化 */
+    public chunkSize: number;
+    /** 文件摘要（算法由 hashAlgorithm 决定），hashAlgorithm 为 none 时为空字符串 */
+    public fileMd5?: string;
+    /** 失败原因，status 为 failed 时有值 */
+    public error: any = null;
+    private _status: UploadTaskStatus = 'queued';
+    private uploaded: Set<number> = new Set();
+    /** 进行中分片的已发送字节数 */
+    private chunkLoaded: Map<number, number> = new Map();
+    private controller: AbortController | null = null;
+    private deferred = createDeferred<UploadResult>();
+    private sessionStart = 0;
+    private sessionStartBytes = 0;
+    /** options.signal 中止时取消任务 */
+    private onSignalAbort = () => this.cancel();
+    private recordKey: string;
+    private protocol: UploadProtocol;
+    /** 上传协议创建的会话，暂停恢复与刷新续传时复用 */
+    private session: UploadSession | null = null;
+    /** 已规划的分片区间；自适应分片按需规划，固定分片在创建时全部规划 */
+    private chunks: ChunkRange[] = [];
+    private adaptive: Required<AdaptiveChunkSizeOptions> | null;
+    private initialChunkSize: number;
+    /** 单个分片请求的吞吐量估计（字节/毫秒） */
+    private throughput = 0;
+
+    constructor(
+        private manager: UploadManager,
+        public readonly url: string,
+        public readonly file: File,
+        private options: UploadFileOptions,
+        private store: UploadRecordStore | null,
+        private onStateChange: () => void,
+    ) {
+        this.adaptive = resolveAdaptiveOptions(options.adaptiveChunkSize);
+        this.chunkSize = this.clampChunkSize(options.chunkSize || CHUNK_SIZE);
+        this.initialChunkSize = this.chunkSize;
+        if (!this.adaptive) {
+            while (this.planNext() !== -1);
+        }
+        this.recordKey = getUploadRecordKey(url, file);
+        this.protocol = options.protocol || new FormDataUploadProtocol();
+        options.signal?.addEventListener('abort', this.onSignalAbort);
+    }
+
+    get status() {
+        return this._status;
+    }
+
+    /**
+     * 分片总数；自适应分片时未规划部分按当前分片大小估算
+     */
+    get totalChunks() {
+        const remaining = this.file.size - this.getPlannedEnd();
+        return this.chunks.length + Math.ceil(remaining / this.chunkSize);
+    }
+
+    /**
+     * 上传完成时 resolve；失败或取消时 reject。失败后调用 resume() 会生成新的 promise
+     */
+    get promise() {
+        return this.deferred.promise;
+    }
+
+    /**
+     * 开始上传，由 UploadManager 的文件队列调用
+     */
+    public async run() {
+        if (this._status !== 'queued') return;
+        const controller = new AbortController();
+        const { signal } = controller;
+        this.controller = controller;
+        this.setStatus('hashing');
+        try {
+            await this.prepare(signal);
+            if (signal.aborted) return;
+
+            const { checkFileUrl } = this.options;
+            if (checkFileUrl && this.fileMd5) {
+                const check = await this.manager.checkFileExists(
+                    checkFileUrl,
+                    this.file,
+                    this.fileMd5,
+                );
+                if (signal.aborted) return;
+                if (check.exists) {
+                    await this.finish(check, true);
+                    return;
+                }
+            }
+
+            await this.openSession(signal);
+            if (signal.aborted) return;
+
+            this.setStatus('uploading');
+            this.sessionStart = Date.now();
+            this.sessionStartBytes = this.getLoaded();
+            this.reportProgress();
+
+            // 每条通道依次领取下一个未上传的分片；固定分片时通道数不超过并发上限，
+            // 避免分片在进入并发控制器排队前就被全部读取并计算 MD5。
+            // 暂停、取消或其他分片失败时中止 signal，进行中与排队中的分片请求随之取消
+            const inFlight = new Set<number>();
+            const nextIndex = () => {
+                const index = this.chunks.findIndex(
+                    (_, i) => !this.uploaded.has(i) && !inFlight.has(i),
+                );
+                return index === -1 ? this.planNext() : index;
+            };
+            const lane = async () => {
+                let index: number;
+                while (!signal.aborted && (index = nextIndex()) !== -1) {
+                    inFlight.add(index);
+                    await this.uploadChunkAt(index, signal);
+                }
+            };
+            const lanes = this.protocol.sequential
+                ? 1
+                : this.adaptive
+                  ? this.adaptive.concurrency
+                  : Math.min(
+                        this.chunks.length - this.uploaded.size,
+                        this.manager.getMaxConcurrent(),
+                    );
+            await Promise.all(Array.from({ length: lanes }, lane));
+            if (signal.aborted) return;
+
+            const response = await this.protocol.complete?.(this.getContext(), this.session!);
+            if (signal.aborted) return;
+            await this.finish(response);
+        } catch (error) {
+            // 暂停与取消由 pause() / cancel() 处理
+            if (signal.aborted) return;
+            controller.abort();
+            this.chunkLoaded.clear();
+            this.error = error;
+            this.setStatus('failed');
+            this.deferred.reject(error);
+        } finally {
+            if (this.controller === controller) this.controller = null;
+        }
+    }
+
+    private async finish(response: any, instant = false) {
+        await this.removeRecord();
+        this.setStatus('done');
+        this.reportProgress();
+        this.deferred.resolve({
+            fileMd5: this.fileMd5!,
+            totalChunks: this.totalChunks,
+            response,
+            ...(instant ? { instant } : {}),
+        });
+    }
+
+    /**
+     * 暂停：中止进行中的分片，已完成的分片保留
+     */
+    public pause() {
+        if (!['queued', 'hashing', 'uploading'].includes(this._status)) return;
+        this.controller?.abort();
+        this.chunkLoaded.clear();
+        this.setStatus('paused');
+    }
+
+    /**
+     * 从暂停或失败状态恢复，重新进入文件队列
+     */
+    public resume() {
+        if (this._status === 'failed') {
+            this.deferred = createDeferred();
+            this.error = null;
+        } else if (this._status !== 'paused') {
+            return;
+        }
+        this.setStatus('queued');
+    }
+
+    /**
+     * 取消上传并删除本地记录，promise 以 CanceledError 拒绝
+     */
+    public cancel() {
+        if (this._status === 'done' || this._status === 'canceled') return;
+        this.controller?.abort();
+        this.chunkLoaded.clear();
+        this.setStatus('canceled');
+        this.deferred.reject(new CanceledError('Upload canceled'));
+        void this.removeRecord();
+        if (this.session && this.protocol.abort) {
+            // 清理服务端的未完成上传，失败时忽略
+            this.protocol.abort(this.getContext(), this.session).catch(() => undefined);
+        }
+    }
+
+    public getProgress(): UploadTaskProgress {
+        const total = this.file.size;
+        const loaded = this.getLoaded();
+        const elapsed = (Date.now() - this.sessionStart) / 1000;
+        const speed =
+            this._status === 'uploading' && elapsed > 0
+                ? (loaded - this.sessionStartBytes) / elapsed
+                : 0;
+        let eta = speed > 0 ? (total - loaded) / speed : Infinity;
+        if (loaded >= total) eta = 0;
+        return {
+            loaded,
+            total,
+            percent: total ? (loaded / total) * 100 : 100,
+            speed,
+            eta,
+            finishedChunks: this.uploaded.size,
+            totalChunks: this.totalChunks,
+        };
+    }
+
+    /**
+     * 读取本地记录，必要时计算文件摘要
+     */
+    private async prepare(signal: AbortSignal) {
+        const { enableResume = false, hashAlgorithm, sampleHash } = this.options;
+        const record = enableResume ? await this.loadRecord() : null;
+        if (signal.aborted) return;
+        if (record) {
+            // 自适应分片的索引只在同一份分片规划下有意义
+            if (record.chunks && !this.chunks.length) {
+                this.chunks = record.chunks.map(([start, end]) => ({ start, end }));
+            }
+            this.addUploaded(record.uploaded);
+            this.session = this.session || record.session || null;
+        }
+
+        if (this.fileMd5 === undefined) {
+            this.fileMd5 = record
+                ? record.fileMd5
+                : await this.manager.calculateFileHash(this.file, {
+                      algorithm: hashAlgorithm,
+                      sample: sampleHash,
+                  });
+        }
+    }
+
+    /**
+     * 必要时创建上传会话，并查询服务端已上传的分片
+     */
+    private async openSession(signal: AbortSignal) {
+        const ctx = this.getContext();
+        if (!this.session) {
+            this.session = await this.protocol.init(ctx);
+            if (signal.aborted) return;
+            void this.saveRecord();
+        }
+        this.addUploaded((await this.protocol.getUploadedChunks?.(ctx, this.session)) || []);
+    }
+
+    /**
+     * 只接受已规划的分片索引
+     */
+    private addUploaded(indexes: number[]) {
+        indexes.forEach((i) => i < this.chunks.length && this.uploaded.add(i));
+    }
+
+    private getPlannedEnd() {
+        return this.chunks.length ? this.chunks[this.chunks.length - 1].end : 0;
+    }
+
+    /**
+     * 按当前分片大小规划下一个分片，文件已全部规划时返回 -1
+     */
+    private planNext() {
+        const start = this.getPlannedEnd();
+        if (start >= this.file.size) return -1;
+        this.chunks.push({ start, end: Math.min(this.file.size, start + this.chunkSize) });
+        return this.chunks.length - 1;
+    }
+
+    private clampChunkSize(size: number) {
+        if (!this.adaptive) return size;
+        return Math.round(Math.min(this.adaptive.max, Math.max(this.adaptive.min, size)));
+    }
+
+    /**
+     * 根据分片耗时更新吞吐量估计，使下一个分片的耗时接近 targetDuration
+     */
+    private adaptChunkSize(bytes: number, duration: number) {
+        if (!this.adaptive) return;
+        const sample = bytes / Math.max(duration, 1);
+        this.throughput = this.throughput
+            ? this.throughput * (1 - THROUGHPUT_WEIGHT) + sample * THROUGHPUT_WEIGHT
+            : sample;
+        this.chunkSize = this.clampChunkSize(this.throughput * this.adaptive.targetDuration);
+    }
+
+    private getContext(): UploadContext {
+        return {
+            manager: this.manager,
+            url: this.url,
+            file: this.file,
+            fileMd5: this.fileMd5!,
+            chunkSize: this.chunkSize,
+            totalChunks: this.totalChunks,
+            chunks: this.chunks,
+            options: this.options,
+        };
+    }
+
+    private async uploadChunkAt(chunkIndex: number, signal: AbortSignal) {
+        const { calculateChunkMd5, verifyChunkUrl, onChunkProgress, onProgress, priority } =
+            this.options;
+        const { start, end } = this.chunks[chunkIndex];
+        const blob = this.file.slice(start, end);
+        const chunkMd5 =
+            calculateChunkMd5 || verifyChunkUrl
+                ? await this.manager.calculateChunkMd5(blob)
+                : undefined;
+        if (signal.aborted) return;
+        const startedAt = Date.now();
+        await this.protocol.uploadChunk(this.getContext(), this.session!, {
+            index: chunkIndex,
+            blob,
+            start,
+            end,
+            chunkMd5,
+            signal,
+            priority,
+            onProgress: (loaded, total) => {
+                this.chunkLoaded.set(chunkIndex, loaded);
+                onChunkProgress?.(chunkIndex, this.totalChunks, loaded, total);
+                this.reportProgress();
+            },
+        });
+        this.adaptChunkSize(end - start, Date.now() - startedAt);
+        // 分片已到达服务端，即使任务随后被暂停也记为完成
+        this.chunkLoaded.delete(chunkIndex);
+        this.uploaded.add(chunkIndex);
+        onProgress?.(this.uploaded.size, this.totalChunks);
+        this.reportProgress();
+        void this.saveRecord();
+    }
+
+    private getLoaded() {
+        // 秒传完成时没有上传任何分片
+        if (this._status === 'done') return this.file.size;
+        let loaded = 0;
+        this.uploaded.forEach((i) => (loaded += this.getChunkBytes(i)));
+        this.chunkLoaded.forEach((bytes) => (loaded += bytes));
+        return Math.min(loaded, this.file.size);
+    }
+
+    private getChunkBytes(chunkIndex: number) {
+        const chunk = this.chunks[chunkIndex];
+        return chunk ? chunk.end - chunk.start : 0;
+    }
+
+    private setStatus(status: UploadTaskStatus) {
+        this._status = status;
+        // 完成或取消后移除外部中止信号的监听；失败的任务仍可取消（删除本地记录），保留监听
+        if (status === 'done' || status === 'canceled') {
+            this.options.signal?.removeEventListener('abort', this.onSignalAbort);
+        }
+        this.options.onStatusChange?.(status, this);
+        this.onStateChange();
+    }
+
+    private reportProgress() {
+        this.options.onTaskProgress?.(this.getProgress(), this);
+    }
+
+    /**
+     * 本地记录只在分片方式、摘要算法与上传协议一致时有效；存储失败不影响上传本身
+     */
+    private async loadRecord() {
+        if (!this.store) return null;
+        try {
+            const record = await this.store.get(this.recordKey);
+            if (!record) return null;
+            const { hashAlgorithm = 'md5', sampleHash = false } = this.options;
+            const valid =
+                record.chunkSize === this.initialChunkSize &&
+                !!record.chunks === !!this.adaptive &&
+                (record.protocol || 'form-data') === this.protocol.name &&
+                (record.hashAlgorithm || 'md5') === hashAlgorithm &&
+                !!record.sampleHash === !!sampleHash;
+            return valid ? record : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async saveRecord() {
+        if (!this.store || !this.options.enableResume || this.fileMd5 === undefined) return;
+        const record: UploadRecord = {
+            key: this.recordKey,
+            url: this.url,
+            fileName: this.file.name,
+            fileSize: this.file.size,
+            lastModified: this.file.lastModified,
+            fileMd5: this.fileMd5,
+            chunkSize: this.initialChunkSize,
+            totalChunks: this.totalChunks,
+            chunks: this.adaptive ? this.chunks.map(({ start, end }) => [start, end]) : undefined,
+            uploaded: [...this.uploaded],
+            hashAlgorithm: this.options.hashAlgorithm || 'md5',
+            sampleHash: !!this.options.sampleHash || undefined,
+            protocol: this.protocol.name,
+            session: this.session || undefined,
+            updatedAt: Date.now(),
+        };
+        try {
+            await this.store.set(this.recordKey, record);
+        } catch {
+            // 忽略存储失败
+        }
+    }
+
+    private async removeRecord() {
+        if (!this.store || !this.options.enableResume) return;
+        try {
+            await this.store.delete(this.recordKey);
+        } catch {
+            // 忽略存储失败
+        }
+    }
+}
@@ -1,5 +1,12 @@
 export const DEFAULT_MAX_RETRIES = 3;
 export const DEFAULT_RETRY_DELAY = 1000;
+export const DEFAULT_MAX_RETRY_DELAY = 30 * 1000;
+export const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+export const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
 export const CHUNK_SIZE = 5 * 1024 * 1024;
+/** 待计算 SHA 摘要的内容不超过该大小时一次性读入内存，由 SubtleCrypto.digest 计算 */
+export const SUBTLE_DIGEST_MAX_SIZE = 100 * 1024 * 1024;
 
-export const MAX_CONCURRENT_REQUESTS = 5;
\ No newline at end of file
+export const MAX_CONCURRENT_REQUESTS = 5;
+/** 任务优先级对应的数值，数值越大越先执行 */
+export const TASK_PRIORITIES = { high: 10, normal: 0, low: -10 };
@@ -0,0 +1,64 @@
+import SparkMD5 from 'spark-md5';
+import { SUBTLE_DIGEST_MAX_SIZE } from './const';
+import { digestSha, ShaHasher } from './sha-hasher';
+
+/**
+ * 消息参数：
+ * - file / chunkSize：待计算的文件与每次读取的字节数
+ * - algorithm：md5（默认）/ sha1 / sha256
+ * - ranges：只计算这些字节区间（抽样摘要），未传时计算整个文件
+ */
+self.onmessage = function (e: MessageEvent) {
+    const { file, chunkSize, algorithm = 'md5', ranges } = e.data;
+    const size = ranges
+        ? (ranges as [number, number][]).reduce((sum, [from, to]) => sum + to - from, 0)
+        : file.size;
+    if (algorithm !== 'md5' && size <= SUBTLE_DIGEST_MAX_SIZE) {
+        // SHA 摘要的内容不大时（抽样摘要、小文件）一次性读取，由 SubtleCrypto 计算
+        const blob: Blob = ranges
+            ? new Blob((ranges as [number, number][]).map(([from, to]) => file.slice(from, to)))
+            : file;
+        blob.arrayBuffer()
+            .then((buffer) => digestSha(algorithm, buffer))
+            .then(
+                (result) => self.postMessage({ result }),
+                (error) =>
+                    self.postMessage({ error: error?.message || 'Worker execution failed.' }),
+            );
+        return;
+    }
+    try {
+        // 按 chunkSize 拆分待读取的区间
+        const slices: [number, number][] = [];
+        ((ranges as [number, number][]) || [[0, file.size]]).forEach(([from, to]) => {
+            for (let start = from; start < to; start += chunkSize) {
+                slices.push([start, Math.min(start + chunkSize, to)]);
+            }
+        });
+        // 逐块增量计算，内存中只保留当前读取的块；SHA 只有超大文件的完整摘要走这里
+        const hasher = algorithm === 'md5' ? new SparkMD5.ArrayBuffer() : new ShaHasher(algorithm);
+        const reader = new FileReader();
+        let current = 0;
+        const loadNext = () => {
+            const [start, end] = slices[current];
+            reader.readAsArrayBuffer(file.slice(start, end));
+        };
+        const done = () => self.postMessage({ result: hasher.end() });
+        reader.onload = (event) => {
+            hasher.append(event.target!.result as ArrayBuffer);
+            current++;
+            if (current < slices.length) {
+                loadNext();
+            } else {
+                done();
+            }
+        };
+        reader.onerror = () => {
+            self.postMessage({ error: 'FileReader failed to read chunk.' });
+        };
+        if (slices.length) loadNext();
+        else done();
+    } catch (error: any) {
+        self.postMessage({ error: error.message || 'Worker execution failed.' });
+    }
+};
@@ -1,12 +1,29 @@
-import { AxiosRequestConfig } from 'axios';
+import axios, { AxiosRequestConfig, GenericAbortSignal } from 'axios';
+import {
+    DEFAULT_MAX_RETRIES,
+    DEFAULT_MAX_RETRY_DELAY,
+    DEFAULT_RETRY_DELAY,
+    IDEMPOTENT_METHODS,
+    MUTATING_METHODS,
+} from './const';
+import type {
+    CachePolicy,
+    CacheUrlPattern,
+    RequestPolicy,
+    RetryBackoff,
+    RetryPolicy,
+    WrapperOptions,
+} from '..';
+import type { CancelError } from './DebounceThrottleManager';
+import type { CancelReason } from './LifecycleEmitter';
 
 /**
- * 内部辅助函数：稳定地序列化对象（通过对键排序）
+ * 稳定地序列化对象（通过对键排序）
  * 确保相同内容的参数对象，无论属性顺序如何，都能得到相同的字符串结果。
  * @param obj 待序列化的对象 (params 或 data)
  * @returns 稳定序列化后的字符串
  */
-function stableStringify(obj: any): string {
+export function stableStringify(obj: any): string {
     if (typeof obj !== 'object' || obj === null) {
         // 对于非对象或 null，直接使用 JSON.stringify 处理
         return JSON.stringify(obj);
@@ -58,3 +75,445 @@ export function generateRequestKey(req: AxiosRequestConfig): string {
     // 5. 组合成唯一的 Key： method:url:params:data
     return `${method}:${url}:${params}:${data}`;
 }
+
+/**
+ * 合并实例级配置与单次请求策略后的最终结果
+ */
+export interface ResolvedRequestPolicy {
+    cache: {
+        enabled: boolean;
+        ttl?: number;
+        bypass: boolean;
+        staleWhileRevalidate: boolean;
+        /** 过期后仍可使用的最长时间（毫秒） */
+        maxStale: number;
+        onRevalidate?: CachePolicy['onRevalidate'];
+        /** 是否遵循 HTTP 缓存语义（Cache-Control / ETag / Last-Modified） */
+        http: boolean;
+        tags: string[];
+    };
+    /** 请求成功后需要失效的缓存（单次请求声明 + 匹配的实例级规则） */
+    invalidate: { urls: CacheUrlPattern[]; tags: string[] };
+    dedupe: { enabled: boolean };
+    debounce: { enabled: boolean; interval?: number };
+    throttle: { enabled: boolean; interval?: number };
+    retry: {
+        enabled: boolean;
+        times: number;
+        delay: number;
+        backoff: RetryBackoff;
+        maxDelay: number;
+        methods: string[];
+        shouldRetry?: RetryPolicy['shouldRetry'];
+        respectRetryAfter: boolean;
+        onRetry?: RetryPolicy['onRetry'];
+    };
+}
+
+/**
+ * 内部辅助函数：解析单项策略
+ * 未设置时沿用实例开关；false 表示关闭；对象表示开启并覆盖参数。
+ */
+function resolvePolicyItem<T extends object>(
+    item: false | T | undefined,
+    enabledByDefault?: boolean,
+): { enabled: boolean; overrides: Partial<T> } {
+    if (item === false) return { enabled: false, overrides: {} };
+    if (item === undefined) return { enabled: !!enabledByDefault, overrides: {} };
+    return { enabled: true, overrides: item };
+}
+
+/**
+ * 解析请求的最终策略。
+ * 读取请求配置上的 policy 字段（见 AxiosWrapperMethodConfig），
+ * 缺省项回退到 WrapperOptions 中的实例级配置。
+ *
+ * @param req Axios 请求配置对象
+ * @param options AxiosWrapper 的实例级配置
+ * @returns 合并后的策略
+ */
+export function resolveRequestPolicy(
+    req: AxiosRequestConfig,
+    options: WrapperOptions,
+): ResolvedRequestPolicy {
+    const policy = (req as AxiosRequestConfig & { policy?: RequestPolicy | false }).policy;
+    // policy 为 false 时，所有能力一律关闭
+    const items: RequestPolicy =
+        policy === false
+            ? {
+                  cache: false,
+                  dedupe: false,
+                  debounce: false,
+                  throttle: false,
+                  retry: false,
+                  invalidate: false,
+              }
+            : policy || {};
+
+    const cache = resolvePolicyItem(items.cache, options.enableCache);
+    const swr = cache.overrides.staleWhileRevalidate ?? options.staleWhileRevalidate;
+    // 去重默认只作用于安全方法，显式声明 dedupe 时以声明为准
+    const method = (req.method || 'get').toLowerCase();
+    const dedupe =
+        items.dedupe ?? (!!options.enableDedupe && (method === 'get' || method === 'head'));
+    const debounce = resolvePolicyItem(items.debounce, options.enableDebounce);
+    const throttle = resolvePolicyItem(items.throttle, options.enableThrottle);
+    const retry = resolvePolicyItem(items.retry, options.enableRetry);
+    // 单次请求的重试参数在实例级 retryPolicy 的基础上覆盖
+    const retryOverrides: RetryPolicy = { ...options.retryPolicy, ...retry.overrides };
+    // 单次请求声明的失效目标与匹配当前请求的实例级规则合并
+    const invalidations =
+        items.invalidate === false
+            ? []
+            : [
+                  ...(items.invalidate ? [items.invalidate] : []),
+                  ...(options.cacheInvalidationRules || []).filter(
+                      (rule) =>
+                          (rule.methods || MUTATING_METHODS)
+                              .map((m) => m.toLowerCase())
+                              .includes(method) && matchUrlPattern(req.url || '', rule.url),
+                  ),
+              ];
+
+    return {
+        cache: {
+            enabled: cache.enabled,
+            ttl: cache.overrides.ttl ?? options.cacheTTL,
+            bypass: !!cache.overrides.bypass,
+            staleWhileRevalidate: !!swr,
+            maxStale: typeof swr === 'number' ? swr : Infinity,
+            onRevalidate: cache.overrides.onRevalidate,
+            http: cache.overrides.http ?? !!options.httpCache,
+            tags: cache.overrides.tags || [],
+        },
+        invalidate: {
+            urls: invalidations.flatMap((item) => item.urls || []),
+            tags: invalidations.flatMap((item) => item.tags || []),
+        },
+        dedupe: { enabled: dedupe },
+        debounce: {
+            enabled: debounce.enabled,
+            interval: debounce.overrides.interval ?? options.debounceInterval,
+        },
+        throttle: {
+            enabled: throttle.enabled,
+            interval: throttle.overrides.interval ?? options.throttleInterval,
+        },
+        retry: {
+            enabled: retry.enabled,
+            times: retryOverrides.times ?? (options.retryTimes || DEFAULT_MAX_RETRIES),
+            delay: retryOverrides.delay ?? (options.retryDelay || DEFAULT_RETRY_DELAY),
+            backoff: retryOverrides.backoff || 'fixed',
+            maxDelay: retryOverrides.maxDelay ?? DEFAULT_MAX_RETRY_DELAY,
+            methods: (retryOverrides.methods || IDEMPOTENT_METHODS).map((m) => m.toLowerCase()),
+            shouldRetry: retryOverrides.shouldRetry,
+            respectRetryAfter: retryOverrides.respectRetryAfter ?? true,
+            onRetry: retryOverrides.onRetry,
+        },
+    };
+}
+
+/**
+ * 判断 URL 是否匹配模式
+ * 字符串模式中 `*` 匹配任意字符（含 `/` 和查询参数），其余字符按字面量完整匹配。
+ *
+ * @param url 请求 URL
+ * @param pattern 字符串模式或正则
+ * @returns 是否匹配
+ */
+export function matchUrlPattern(url: string, pattern: CacheUrlPattern): boolean {
+    if (pattern instanceof RegExp) {
+        // 避免带 g / y 标志的正则因 lastIndex 导致结果不稳定
+        pattern.lastIndex = 0;
+        return pattern.test(url);
+    }
+    const source = pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * 解析请求的目标 host，用作并发控制的分组 Key
+ *
+ * @param url 请求 URL，可以是相对路径
+ * @param baseURL 实例或请求上的 baseURL
+ * @returns host（含端口），无法解析时返回空字符串
+ */
+export function getRequestHost(url?: string, baseURL?: string): string {
+    const origin = typeof location !== 'undefined' ? location.href : 'http://localhost/';
+    try {
+        return new URL(url || '', new URL(baseURL || '', origin)).host;
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * 将外部中止信号转发给内部的 AbortController
+ *
+ * @param source 调用方传入的 signal
+ * @param controller 内部 AbortController
+ * @returns 取消转发的函数，请求结束后调用以避免监听泄漏
+ */
+export function linkAbortSignal(
+    source: GenericAbortSignal | undefined,
+    controller: AbortController,
+): () => void {
+    if (!source) return () => undefined;
+    const onAbort = () => controller.abort((source as AbortSignal & { reason?: unknown }).reason);
+    if (source.aborted) {
+        onAbort();
+        return () => undefined;
+    }
+    source.addEventListener?.('abort', onAbort);
+    return () => source.removeEventListener?.('abort', onAbort);
+}
+
+/**
+ * 判断错误是否为取消，并返回取消原因
+ *
+ * @param err 请求错误
+ * @returns 防抖/节流取消返回对应类型，主动取消返回 'abort'，其余错误返回 null
+ */
+export function getCancelReason(err: any): CancelReason | null {
+    if (!err) return null;
+    // 防抖/节流取消同样带有 axios 的 __CANCEL__ 标记，需先按 type 区分
+    if ((err as CancelError).isCancel && (err.type === 'debounce' || err.type === 'throttle')) {
+        return err.type;
+    }
+    return axios.isCancel(err) ? 'abort' : null;
+}
+
+/**
+ * 默认的重试判定：网络错误、超时以及 408/429/5xx 响应可以重试，
+ * 取消请求和其余 4xx 业务错误不重试。
+ *
+ * @param err 请求错误
+ * @returns 是否可以重试
+ */
+export function isRetryableError(err: any): boolean {
+    if (!err || axios.isCancel(err) || err.isCancel) return false;
+    const status: number | undefined = err.response?.status;
+    // 没有响应：网络中断、超时、DNS 失败等
+    if (status === undefined) return true;
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * 解析 Retry-After 响应头
+ *
+ * @param value 头部值，可以是秒数或 HTTP 日期
+ * @returns 需要等待的毫秒数，无法解析时返回 null
+ */
+export function parseRetryAfter(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const str = String(value).trim();
+    if (/^\d+(\.\d+)?$/.test(str)) return Math.round(Number(str) * 1000);
+    const date = Date.parse(str);
+    if (isNaN(date)) return null;
+    return Math.max(0, date - Date.now());
+}
+
+/**
+ * 根据退避算法计算第 attempt 次重试前的等待时间
+ *
+ * @param attempt 第几次重试（从 1 开始）
+ * @param retry 解析后的重试策略
+ * @param previousDelay 上一次的等待时间，decorrelated-jitter 需要
+ * @returns 等待的毫秒数，不超过 maxDelay
+ */
+export function computeRetryDelay(
+    attempt: number,
+    retry: Pick<ResolvedRequestPolicy['retry'], 'delay' | 'backoff' | 'maxDelay'>,
+    previousDelay?: number,
+): number {
+    const { delay, backoff, maxDelay } = retry;
+    let next: number;
+    switch (backoff) {
+        case 'exponential':
+            next = delay * Math.pow(2, attempt - 1);
+            break;
+        case 'decorrelated-jitter': {
+            const upper = Math.max(delay, (previousDelay || delay) * 3);
+            next = delay + Math.random() * (upper - delay);
+            break;
+        }
+        default:
+            next = delay;
+    }
+    return Math.min(Math.round(next), maxDelay);
+}
+
+/**
+ * 读取响应头，兼容 AxiosHeaders 与普通对象，名称不区分大小写
+ *
+ * @param headers 响应头
+ * @param name 头部名称
+ * @returns 头部值，不存在时返回 undefined
+ */
+export function getHeader(headers: any, name: string): string | undefined {
+    if (!headers) return undefined;
+    let value: any;
+    if (typeof headers.get === 'function') {
+        value = headers.get(name);
+    } else {
+        const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+        value = key === undefined ? undefined : headers[key];
+    }
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * 设置请求头，兼容 Axios 新旧版本 headers 结构
+ *
+ * @param config Axios 请求配置对象
+ * @param name 头部名称
+ * @param value 头部值
+ */
+export function setRequestHeader(config: AxiosRequestConfig, name: string, value: string) {
+    config.headers = config.headers || {};
+    const headers = config.headers as any;
+    if (typeof headers.set === 'function') {
+        // Axios 1.x+ Headers 对象
+        headers.set(name, value);
+    } else {
+        // 兼容 Axios 0.x 或普通对象
+        headers[name] = value;
+    }
+}
+
+/**
+ * 将 AxiosHeaders 转换为可序列化的普通对象
+ *
+ * @param headers 响应头
+ * @returns 普通对象形式的响应头
+ */
+export function toPlainHeaders(headers: any): Record<string, any> {
+    if (!headers) return {};
+    if (typeof headers.toJSON === 'function') return headers.toJSON();
+    return { ...headers };
+}
+
+/**
+ * 解析 Cache-Control 响应头中与客户端缓存相关的指令
+ *
+ * @param value Cache-Control 头部值
+ * @returns noStore / noCache / maxAge（秒）
+ */
+export function parseCacheControl(value?: string): {
+    noStore: boolean;
+    noCache: boolean;
+    maxAge?: number;
+} {
+    const directives = (value || '')
+        .toLowerCase()
+        .split(',')
+        .map((d) => d.trim());
+    const maxAge = directives.find((d) => d.startsWith('max-age='));
+    const seconds = maxAge ? Number(maxAge.slice('max-age='.length)) : NaN;
+    return {
+        noStore: directives.includes('no-store'),
+        noCache: directives.includes('no-cache'),
+        maxAge: isNaN(seconds) ? undefined : seconds,
+    };
+}
+
+/**
+ * 确定下载文件名：优先使用调用方传入的名称，其次解析 Content-Disposition，最后取 URL 末段
+ *
+ * @param url 下载地址
+ * @param headers 响应头
+ * @param filename 调用方指定的文件名
+ * @returns 文件名
+ */
+export function getDownloadFilename(url: string, headers: any, filename?: string): string {
+    if (filename) return filename;
+    const disposition = getHeader(headers, 'content-disposition');
+    if (disposition) {
+        const match = disposition.match(/filename\*?=['"]?(?:UTF-\d['"]*)?([^;\r\n"']*)['"]?;?/i);
+        if (match && match[1]) return decodeURIComponent(match[1]);
+    }
+    return url.split('?')[0].split('/').pop() || 'download_file';
+}
+
+/**
+ * 通过 <a download> 触发浏览器保存文件
+ *
+ * @param blob 文件内容
+ * @param filename 保存的文件名
+ */
+export function saveBlob(blob: Blob, filename: string) {
+    const blobUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = blobUrl;
+    a.download = filename;
+    a.style.display = 'none';
+    document.body.appendChild(a);
+    a.click();
+
+    // 延迟清理资源
+    setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(blobUrl);
+    }, 100);
+}
+
+/**
+ * 判断是否为网络层错误（断网、DNS 失败、连接被拒绝等），取消与超时不算
+ *
+ * @param err 请求错误
+ * @returns 是否为网络错误
+ */
+export function isNetworkError(err: any): boolean {
+    if (!err || axios.isCancel(err) || err.isCancel || err.response) return false;
+    return err.code === 'ERR_NETWORK' || err.message === 'Network Error';
+}
+
+/**
+ * 解析 JWT payload 中的 exp（秒），返回过期时间戳（毫秒）。
+ * 不是 JWT 或没有 exp 时返回 null，不校验签名
+ *
+ * @param token Access Token
+ * @returns 过期时间戳（毫秒）
+ */
+export function getJwtExpiry(token: string): number | null {
+    const payload = typeof token === 'string' ? token.split('.')[1] : undefined;
+    if (!payload) return null;
+    try {
+        const { exp } = JSON.parse(decodeBase64Url(payload));
+        return typeof exp === 'number' ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * base64url 解码为 UTF-8 字符串，不依赖 atob / Buffer，小程序等环境也可用
+ */
+function decodeBase64Url(input: string) {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of input.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')) {
+        const index = BASE64_CHARS.indexOf(char);
+        if (index === -1) throw new Error('Invalid base64url string');
+        buffer = (buffer << 6) | index;
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    }
+    const binary = String.fromCharCode(...bytes);
+    try {
+        return decodeURIComponent(
+            binary.replace(/[\x80-\xff]/g, (c) => `%${c.charCodeAt(0).toString(16)}`),
+        );
+    } catch {
+        return binary;
+    }
+}
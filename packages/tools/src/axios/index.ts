@@ -8,23 +8,212 @@ import axios, {
     InternalAxiosRequestConfig,
 } from 'axios';
 // 假设这些 Manager 文件是存在的，并且已经使用了我们讨论过的最终版本：
-import { GlobalConcurrencyController } from './GlobalConcurrencyController';
-import { CacheManager } from './CacheManager';
+import {
+    ConcurrencyStats,
+    GlobalConcurrencyController,
+    TaskPriority,
+} from './GlobalConcurrencyController';
+import { CacheManager, CacheMatcher } from './CacheManager';
+import type { CacheStorageAdapter } from './CacheStorageAdapter';
 import { DebounceThrottleManager } from './DebounceThrottleManager';
 import { UploadManager, UploadFileOptions } from './UploadManager';
+import type { UploadRecordStore } from './UploadRecordStore';
+import type { UploadProtocol } from './UploadProtocol';
+import type { UploadTask } from './UploadTask';
+import { DownloadManager, DownloadOptions } from './DownloadManager';
+import type { DownloadTask } from './DownloadTask';
 import { PollingConfig, PollingManager } from './PollingManager';
 import { CancelTokenManager } from './CancelTokenManager';
 import { InterceptorManager } from './InterceptorManager';
-import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_DELAY } from './const';
+import { AxiosLifecycleEvent, AxiosLifecycleListener, LifecycleEmitter } from './LifecycleEmitter';
+import { MetricsCollector, MetricsCollectorOptions, MetricsSnapshot } from './MetricsCollector';
+import { MockAdapter, MockAdapterOptions } from './MockAdapter';
+import { OfflineQueue, OfflineQueueOptions } from './OfflineQueue';
+import { ApiSchema, createApiClient } from './ApiClient';
+import { AuthStrategy, BearerAuthStrategy } from './AuthStrategy';
+import {
+    AuthExpiredError,
+    AxiosWrapperError,
+    AxiosWrapperErrorOptions,
+    toAxiosWrapperError,
+} from './AxiosWrapperError';
+import type {
+    Middleware,
+    MiddlewareContextMap,
+    MiddlewareDefinition,
+    MiddlewareOptions,
+    MiddlewarePhase,
+} from './MiddlewarePipeline';
+import {
+    RemoteRefreshError,
+    TokenRefreshCoordinator,
+    TokenRefreshCoordinatorOptions,
+} from './TokenRefreshCoordinator';
+import type { ResponseSchema } from './ResponseValidator';
+import {
+    computeRetryDelay,
+    getCancelReason,
+    getDownloadFilename,
+    getJwtExpiry,
+    getRequestHost,
+    isNetworkError,
+    isRetryableError,
+    linkAbortSignal,
+    parseRetryAfter,
+    resolveRequestPolicy,
+    saveBlob,
+} from './helper';
+
+/**
+ * 单次请求的缓存策略
+ */
+export interface CachePolicy {
+    /** 缓存有效期（毫秒），未设置时使用实例级 cacheTTL */
+    ttl?: number;
+    /** 跳过缓存读取，直接发起请求，并用最新结果刷新缓存 */
+    bypass?: boolean;
+    /**
+     * stale-while-revalidate：缓存过期后仍立即返回旧数据，同时在后台刷新。
+     * 传入数字表示过期后最多还能使用多久（毫秒）。未设置时使用实例级配置。
+     */
+    staleWhileRevalidate?: boolean | number;
+    /** 后台刷新完成后的回调，在实例级 onCacheRevalidated 之后触发 */
+    onRevalidate?: (response: AxiosResponse<any>) => void;
+    /** 是否遵循 HTTP 缓存语义，未设置时使用实例级 httpCache */
+    http?: boolean;
+    /** 缓存标签，可通过 invalidateTags 或 policy.invalidate.tags 批量失效 */
+    tags?: string[];
+}
+
+/**
+ * URL 匹配模式：字符串中 `*` 匹配任意字符（如 '/users*'），或使用正则
+ */
+export type CacheUrlPattern = string | RegExp;
+
+/**
+ * 请求成功后需要失效的缓存
+ */
+export interface CacheInvalidation {
+    /** 按请求 URL 失效 */
+    urls?: CacheUrlPattern[];
+    /** 按缓存标签失效 */
+    tags?: string[];
+}
+
+/**
+ * 实例级自动失效规则：请求方法与 URL 匹配时，在请求成功后失效对应缓存
+ */
+export interface CacheInvalidationRule extends CacheInvalidation {
+    /** 触发规则的请求 URL */
+    url: CacheUrlPattern;
+    /** 触发规则的请求方法，默认 POST/PUT/PATCH/DELETE */
+    methods?: string[];
+}
+
+/**
+ * 单次请求的防抖策略
+ */
+export interface DebouncePolicy {
+    /** 防抖间隔（毫秒），未设置时使用实例级 debounceInterval */
+    interval?: number;
+}
+
+/**
+ * 单次请求的节流策略
+ */
+export interface ThrottlePolicy {
+    /** 节流间隔（毫秒），未设置时使用实例级 throttleInterval */
+    interval?: number;
+}
+
+/**
+ * 重试退避算法
+ * - fixed：每次等待 delay
+ * - exponential：delay * 2^(attempt - 1)
+ * - decorrelated-jitter：在 [delay, 上次等待 * 3] 之间随机取值（AWS 推荐的去相关抖动）
+ */
+export type RetryBackoff = 'fixed' | 'exponential' | 'decorrelated-jitter';
+
+/**
+ * 重试策略，可用于实例级 retryPolicy 或单次请求的 policy.retry
+ */
+export interface RetryPolicy {
+    /** 最大重试次数，未设置时使用实例级 retryTimes */
+    times?: number;
+    /** 重试基础间隔（毫秒），未设置时使用实例级 retryDelay */
+    delay?: number;
+    /** 退避算法，默认 fixed */
+    backoff?: RetryBackoff;
+    /** 单次等待的上限（毫秒），同样约束 Retry-After，默认 30s */
+    maxDelay?: number;
+    /** 允许重试的请求方法，默认只重试幂等方法（GET/HEAD/OPTIONS/PUT/DELETE） */
+    methods?: string[];
+    /**
+     * 是否重试的判定函数，attempt 为即将进行的第几次重试（从 1 开始）。
+     * 未设置时只重试网络错误、超时以及 408/429/5xx 响应。
+     */
+    shouldRetry?: (error: any, attempt: number) => boolean | Promise<boolean>;
+    /** 是否遵循响应头 Retry-After（秒数或 HTTP 日期），默认 true */
+    respectRetryAfter?: boolean;
+    /** 每次重试等待前触发，可用于埋点上报 */
+    onRetry?: (error: any, attempt: number, delay: number) => void;
+}
+
+/**
+ * 单次请求的策略覆盖，由 InterceptorManager 中的各个中间件读取。
+ * - 某项未设置：沿用实例级配置（WrapperOptions）
+ * - 某项为 false：本次请求关闭该能力
+ * - 某项为对象：本次请求开启该能力，并覆盖对应参数
+ * - 整个 policy 为 false：本次请求关闭以上全部能力
+ */
+export interface RequestPolicy {
+    cache?: false | CachePolicy;
+    /** 相同请求（generateRequestKey 一致）在完成前共享同一个 Promise */
+    dedupe?: boolean;
+    debounce?: false | DebouncePolicy;
+    throttle?: false | ThrottlePolicy;
+    retry?: false | RetryPolicy;
+    /** 请求成功后失效的缓存，false 表示本次请求不触发实例级失效规则 */
+    invalidate?: false | CacheInvalidation;
+}
 
 /**
  * 扩展的 Axios 请求配置，用于公共方法
  */
-type AxiosWrapperMethodConfig = AxiosRequestConfig & {
+export type AxiosWrapperMethodConfig = AxiosRequestConfig & {
     /**
-     * 自定义取消请求的唯一标识。
+     * 自定义取消请求的唯一标识，可通过 cancelRequest(id) 取消。
      */
     cancelTokenId?: string;
+    /**
+     * 请求分组（如页面或路由名），可通过 cancelGroup(group) 一次取消整组请求。
+     * 与 cancelTokenId、signal 一样，请求仍在并发队列中排队时也会被移出队列。
+     */
+    cancelGroup?: string;
+    /**
+     * 单次请求的缓存/防抖/节流/重试策略，优先级高于实例级配置。
+     */
+    policy?: RequestPolicy | false;
+    /**
+     * 在并发队列中的优先级，默认 'normal'。上传分块与轮询默认为 'low'。
+     */
+    priority?: TaskPriority;
+    /**
+     * 响应数据（经过 responseHandler 等转换后）的验证规则，复用 validator.ts 的 Rules，支持嵌套对象；
+     * 传入规则函数时验证整个响应体（如数组）。
+     * 验证失败时以 ResponseValidationError 拒绝并触发 onError。
+     */
+    responseSchema?: ResponseSchema;
+};
+
+// 重试过程中记录在请求配置上的状态，重发时沿用同一个配置对象
+type RetryState = {
+    __retryCount?: number;
+    __retryDelay?: number;
+    /** 经 dispatch 发出，失败后可以重新排队重试 */
+    __retryable?: boolean;
+    /** retryMiddleware 已决定重试，dispatch 等待 __retryDelay 后重新排队 */
+    __retryScheduled?: boolean;
 };
 
 /**
@@ -51,10 +240,41 @@ interface AxiosWrapperInterceptors {
 export interface WrapperOptions {
     // --- 并发控制 ---
     maxConcurrent?: number;
+    /** 每个 host 的最大并发数，未设置时只受 maxConcurrent 限制 */
+    maxConcurrentPerHost?: number;
+    /** 指定 host 的最大并发数，如 { 'cdn.example.com': 2 } */
+    hostConcurrency?: Record<string, number>;
 
     // --- 缓存控制 ---
     enableCache?: boolean;
     cacheTTL?: number;
+    /** 缓存过期后先返回旧数据再后台刷新，数字表示过期后的最长可用时间（毫秒） */
+    staleWhileRevalidate?: boolean | number;
+    /** 后台刷新（stale-while-revalidate）完成后的回调 */
+    onCacheRevalidated?: (response: AxiosResponse<any>) => void;
+    /**
+     * 遵循 HTTP 缓存语义：按 Cache-Control（max-age / no-cache / no-store）决定有效期，
+     * 保存 ETag / Last-Modified 并在过期后发起条件请求，304 时返回缓存的响应体与原始响应头
+     */
+    httpCache?: boolean;
+    /** 开启后，相同的 GET/HEAD 请求在完成前只会发出一次 */
+    enableDedupe?: boolean;
+    /** 缓存持久化适配器，如 LocalStorageCacheAdapter / IndexedDBCacheAdapter */
+    cacheStorage?: CacheStorageAdapter;
+    /** 最大缓存条目数，超出后按 LRU 淘汰 */
+    cacheMaxEntries?: number;
+    /** 最大缓存体积（按 JSON 字符数估算），超出后按 LRU 淘汰 */
+    cacheMaxBytes?: number;
+    /** 自动失效规则，如 POST /users 成功后失效 '/users*' */
+    cacheInvalidationRules?: CacheInvalidationRule[];
+
+    // --- 上传 ---
+    /** 同时上传的文件数，默认 3 */
+    maxConcurrentUploads?: number;
+    /** 上传记录存储（断点续传用），默认 IndexedDB，false 表示不保存 */
+    uploadRecordStore?: UploadRecordStore | false;
+    /** 默认上传协议（form-data / tus / S3 分片），单次上传可通过 options.protocol 覆盖 */
+    uploadProtocol?: UploadProtocol;
 
     // --- 防抖与节流 ---
     enableDebounce?: boolean;
@@ -66,23 +286,69 @@ export interface WrapperOptions {
     enableRetry?: boolean;
     retryTimes?: number;
     retryDelay?: number;
+    /** 实例级重试策略，单次请求的 policy.retry 会在此基础上覆盖 */
+    retryPolicy?: RetryPolicy;
 
     // --- Token 与 认证 ---
     tokenProvider?: () => string | Promise<string>;
+    /**
+     * 认证策略，按顺序执行，每次发送（包括重试与刷新 Token 后的重发）都会重新应用。
+     * 默认使用 BearerAuthStrategy；设置后不再自动添加 Bearer，需要时一并传入
+     */
+    authStrategy?: AuthStrategy | AuthStrategy[];
     enableDoubleToken?: boolean;
     getRefreshToken?: () => string | Promise<string>;
     refreshAccessToken?: (refreshToken: string) => string | Promise<string>;
     accessTokenExpiredCodes?: (number | string)[];
     refreshTokenExpiredCodes?: (number | string)[];
     onRefreshTokenExpired?: () => void;
+    /** 视为 Access Token 过期的 HTTP 状态码（如 [401]），与 accessTokenExpiredCodes 一样触发刷新 */
+    accessTokenExpiredStatuses?: number[];
+    /**
+     * 主动刷新：解析 tokenProvider 返回的 JWT 中的 exp，距离过期不足该秒数时先刷新再发送请求，
+     * 避免先收到过期响应再重试。刷新进行中时，新请求会等待同一个 refreshTokenPromise。
+     * 需要开启 enableDoubleToken。配置后 refreshAccessToken 中不要使用同一个实例发送请求，
+     * 否则刷新请求会等待它自己所在的 refreshTokenPromise
+     */
+    refreshBeforeExpiry?: number;
+    /**
+     * 跨标签页协调刷新：同一时间只有一个标签页调用 refreshAccessToken，其他标签页等待并使用其结果；
+     * 任一标签页触发 onRefreshTokenExpired 时，所有开启该选项的标签页都会收到。
+     * 各标签页需要从共享的存储（如 localStorage）读取 Token，或通过 onTokenRefreshed 更新
+     */
+    crossTabRefresh?: boolean | TokenRefreshCoordinatorOptions;
 
     // --- 错误与响应处理 ---
-    onError?: (err: any) => void;
+    /** 请求失败时调用，错误已统一为 AxiosWrapperError 的子类 */
+    onError?: (err: AxiosWrapperError) => void;
     responseHandler?: (res: AxiosResponse<any>) => any;
+    /** 业务状态码处理器，处理器抛出的错误会以 BusinessError 拒绝 */
     codeHandlers?: Record<number | string, (res: AxiosResponse<any>) => any>;
+    /** 表示业务失败的状态码（response.data.code），命中时以 BusinessError 拒绝 */
+    businessErrorCodes?: (number | string)[];
 
     // --- 自定义拦截器 ---
     interceptors?: AxiosWrapperInterceptors;
+    /** 注册到中间件管道的自定义中间件，按数组顺序执行 use */
+    middlewares?: MiddlewareDefinition[];
+
+    // --- 可观测性 ---
+    /** 开启后按接口统计耗时分位数、失败率与缓存命中率，通过 getMetrics() 获取 */
+    enableMetrics?: boolean | MetricsCollectorOptions;
+
+    // --- 模拟与录制 ---
+    /**
+     * 开启后使用 MockAdapter 替换实例的 adapter，通过 getMockAdapter() 注册路由。
+     * 请求仍然经过全部拦截器，缓存/重试/Token 等逻辑照常生效。
+     */
+    mock?: boolean | MockAdapterOptions;
+
+    // --- 离线队列 ---
+    /**
+     * 开启后，离线或遇到网络错误的变更类请求（post / put / patch / delete）保存到队列（默认 IndexedDB），
+     * 以 OfflineQueuedError 拒绝，恢复联网后按顺序回放。这些请求遇到网络错误时不再重试。
+     */
+    offline?: boolean | OfflineQueueOptions;
 }
 
 /**
@@ -94,11 +360,13 @@ export class AxiosWrapper {
     /** 并发控制器 */
     private concurrencyController!: GlobalConcurrencyController;
     /** 缓存管理器 */
-    private cacheManager = new CacheManager();
+    private cacheManager!: CacheManager;
     /** 防抖节流管理器 */
     private debounceThrottleManager = new DebounceThrottleManager();
     /** 上传管理器 */
     private uploadManager!: UploadManager;
+    /** 下载管理器 */
+    private downloadManager!: DownloadManager;
     /** 轮询管理器 */
     private pollingManager!: PollingManager;
     /** 取消令牌管理器 */
@@ -109,6 +377,18 @@ export class AxiosWrapper {
     private refreshTokenPromise: Promise<string> | null = null;
     /** 拦截器管理器 */
     private interceptorManager!: InterceptorManager;
+    /** 生命周期事件 */
+    private lifecycle = new LifecycleEmitter();
+    /** 指标聚合器，开启 enableMetrics 后创建 */
+    private metricsCollector: MetricsCollector | null = null;
+    /** 模拟适配器，开启 mock 后创建 */
+    private mockAdapter: MockAdapter | null = null;
+    /** 离线队列，开启 offline 后创建 */
+    private offlineQueue: OfflineQueue | null = null;
+    /** 认证策略 */
+    private authStrategies: AuthStrategy[] = [];
+    /** 跨标签页刷新协调器，开启 crossTabRefresh 后创建 */
+    private tokenCoordinator: TokenRefreshCoordinator | null = null;
 
     /**
      * 初始化 AxiosWrapper
@@ -116,6 +396,13 @@ export class AxiosWrapper {
     constructor(config?: CreateAxiosDefaults, options?: WrapperOptions) {
         this.instance = axios.create(config);
         this.options = options || {};
+        if (this.options.mock) {
+            this.mockAdapter = new MockAdapter({
+                adapter: this.instance.defaults.adapter,
+                ...(this.options.mock === true ? {} : this.options.mock),
+            });
+            this.instance.defaults.adapter = this.mockAdapter.adapter;
+        }
         this.initManager();
         // 挂载拦截器，确保在构造函数结束前完成
         this.interceptorManager.attachInterceptors();
@@ -125,22 +412,67 @@ export class AxiosWrapper {
      * 初始化内部各个 Manager 模块
      */
     private initManager() {
-        this.concurrencyController = new GlobalConcurrencyController(this.options.maxConcurrent);
-        this.uploadManager = new UploadManager(this.instance, this.concurrencyController);
+        this.concurrencyController = new GlobalConcurrencyController({
+            maxConcurrent: this.options.maxConcurrent,
+            maxConcurrentPerKey: this.options.maxConcurrentPerHost,
+            keyLimits: this.options.hostConcurrency,
+        });
+        this.cacheManager = new CacheManager({
+            storage: this.options.cacheStorage,
+            maxEntries: this.options.cacheMaxEntries,
+            maxBytes: this.options.cacheMaxBytes,
+        });
+        this.uploadManager = new UploadManager(this.instance, this.concurrencyController, {
+            maxConcurrentFiles: this.options.maxConcurrentUploads,
+            recordStore: this.options.uploadRecordStore,
+            protocol: this.options.uploadProtocol,
+        });
+        this.downloadManager = new DownloadManager(this.instance, this.concurrencyController);
         this.pollingManager = new PollingManager(this.instance, this.concurrencyController);
+        if (this.options.offline) {
+            // 回放时直接发送，避免再次入队
+            this.offlineQueue = new OfflineQueue(
+                (config) => this.dispatch(config),
+                this.options.offline === true ? {} : this.options.offline,
+            );
+        }
+        const { authStrategy } = this.options;
+        this.authStrategies = authStrategy
+            ? ([] as AuthStrategy[]).concat(authStrategy)
+            : [new BearerAuthStrategy()];
+        if (this.options.crossTabRefresh) {
+            this.tokenCoordinator = new TokenRefreshCoordinator(
+                this.options.crossTabRefresh === true ? {} : this.options.crossTabRefresh,
+            );
+            // 其他标签页登出时只执行本地回调，不再广播
+            this.tokenCoordinator.onLogout(() => this.options.onRefreshTokenExpired?.());
+        }
+        if (this.options.enableMetrics) {
+            this.metricsCollector = new MetricsCollector(
+                this.lifecycle,
+                this.options.enableMetrics === true ? {} : this.options.enableMetrics,
+            );
+        }
 
         // 初始化拦截器管理器，注入必要的依赖和核心回调
         this.interceptorManager = new InterceptorManager({
             instance: this.instance,
             cacheManager: this.cacheManager,
             debounceThrottleManager: this.debounceThrottleManager,
+            lifecycle: this.lifecycle,
             instanceOptions: {
                 ...this.options,
                 // 核心业务逻辑通过回调传入 InterceptorManager
                 requestWithRefreshToken: this.requestWithRefreshToken.bind(this),
-                retryRequest: this.retryRequest.bind(this),
+                ensureFreshToken: this.ensureFreshToken.bind(this),
+                applyAuth: this.applyAuth.bind(this),
+                scheduleRetry: this.scheduleRetry.bind(this),
+                revalidateRequest: this.revalidateRequest.bind(this),
             },
         });
+        this.options.middlewares?.forEach(({ middleware, ...options }) =>
+            this.use(middleware as Middleware<any>, options),
+        );
     }
 
     /**
@@ -151,13 +483,14 @@ export class AxiosWrapper {
         const { code } = res.data || {};
         const {
             accessTokenExpiredCodes = [],
+            accessTokenExpiredStatuses = [],
             refreshTokenExpiredCodes = [],
             refreshAccessToken,
-            onRefreshTokenExpired,
-            getRefreshToken,
         } = this.options;
 
-        const isAccessExpired = accessTokenExpiredCodes.includes(code);
+        const isAccessExpired =
+            accessTokenExpiredCodes.includes(code) ||
+            accessTokenExpiredStatuses.includes(res.status);
         const isRefreshExpired = refreshTokenExpiredCodes.includes(code);
 
         if (!isAccessExpired && !isRefreshExpired) {
@@ -167,10 +500,15 @@ export class AxiosWrapper {
         // 1. Refresh Token 过期：强制登出
         if (isRefreshExpired) {
             try {
-                onRefreshTokenExpired?.();
+                this.handleRefreshTokenExpired();
             } finally {
                 // eslint-disable-next-line no-unsafe-finally
-                return Promise.reject(new Error('Refresh token expired'));
+                return Promise.reject(
+                    new AuthExpiredError('Refresh token expired', 'refresh-token-expired', {
+                        config: res.config,
+                        response: res,
+                    }),
+                );
             }
         }
 
@@ -182,50 +520,41 @@ export class AxiosWrapper {
 
             // 防止死循环
             if (originalConfig.__gotAccessToken) {
-                return Promise.reject(new Error('Request already retried after refresh'));
+                return Promise.reject(
+                    new AuthExpiredError(
+                        'Request already retried after refresh',
+                        'token-rejected',
+                        {
+                            config: originalConfig,
+                            response: res,
+                        },
+                    ),
+                );
             }
             originalConfig.__gotAccessToken = true; // 标记已重试
 
             if (typeof refreshAccessToken !== 'function') {
-                return Promise.reject(new Error('No refreshAccessToken provided'));
-            }
-
-            // --- 刷新任务单例 ---
-            if (!this.refreshTokenPromise) {
-                this.refreshTokenPromise = (async () => {
-                    const refreshToken = await getRefreshToken?.();
-                    if (!refreshToken) throw new Error('Missing refresh token.');
-
-                    const token = await refreshAccessToken(refreshToken);
-                    if (!token || typeof token !== 'string')
-                        throw new Error('Invalid new access token.');
-
-                    return token;
-                })().finally(() => {
-                    this.refreshTokenPromise = null; // 无论成功失败都清除单例
-                });
+                return Promise.reject(
+                    new AuthExpiredError('No refreshAccessToken provided', 'refresh-failed', {
+                        config: originalConfig,
+                        response: res,
+                    }),
+                );
             }
 
             // 等待刷新完成
             let newToken: string;
             try {
-                newToken = await this.refreshTokenPromise;
+                newToken = await this.refreshAccessToken();
             } catch (e) {
-                onRefreshTokenExpired?.();
-                return Promise.reject(e);
+                this.handleRefreshTokenExpired(e);
+                return Promise.reject(
+                    this.toRefreshError(e, { config: originalConfig, response: res }),
+                );
             }
 
-            // 更新原请求的 Header
-            const authValue = `Bearer ${newToken}`;
-            const headers = originalConfig.headers as any;
-            if (headers && typeof headers.set === 'function') {
-                headers.set('Authorization', authValue);
-            } else {
-                originalConfig.headers = {
-                    ...headers,
-                    Authorization: authValue,
-                } as any;
-            }
+            // 用新 Token 重新应用认证策略
+            await this.applyAuth(originalConfig, newToken);
 
             // 使用新 Token 重试原请求
             try {
@@ -238,61 +567,296 @@ export class AxiosWrapper {
         return res;
     }
 
+    /**
+     * 刷新 Access Token，并发调用共享同一个 refreshTokenPromise 单例。
+     * 开启 crossTabRefresh 时，其他标签页正在刷新则等待其结果
+     */
+    private refreshAccessToken(): Promise<string> {
+        const { refreshAccessToken, getRefreshToken } = this.options;
+        if (!this.refreshTokenPromise) {
+            this.lifecycle.emit('refresh', { status: 'start' });
+            const refresh = async () => {
+                if (typeof refreshAccessToken !== 'function') {
+                    throw new Error('No refreshAccessToken provided');
+                }
+                const refreshToken = await getRefreshToken?.();
+                if (!refreshToken) throw new Error('Missing refresh token.');
+
+                const token = await refreshAccessToken(refreshToken);
+                if (!token || typeof token !== 'string')
+                    throw new Error('Invalid new access token.');
+
+                return token;
+            };
+            this.refreshTokenPromise = (
+                this.tokenCoordinator ? this.tokenCoordinator.refresh(refresh) : refresh()
+            )
+                .then(
+                    (token) => {
+                        this.lifecycle.emit('refresh', { status: 'success' });
+                        return token;
+                    },
+                    (error) => {
+                        this.lifecycle.emit('refresh', { status: 'failure', error });
+                        throw error;
+                    },
+                )
+                .finally(() => {
+                    this.refreshTokenPromise = null; // 无论成功失败都清除单例
+                });
+        }
+        return this.refreshTokenPromise;
+    }
+
+    /**
+     * 发送请求前检查 Token，只在配置了 refreshBeforeExpiry 时生效：刷新进行中时等待新 Token；
+     * JWT 即将过期时主动刷新。未配置时不等待，refreshAccessToken 可以继续通过同一个实例发送刷新请求。
+     * 刷新失败时，Token 尚未过期（或无法解析 exp）则继续使用原 Token，否则按刷新失败处理
+     */
+    private async ensureFreshToken(token: string): Promise<string> {
+        const { enableDoubleToken, refreshBeforeExpiry } = this.options;
+        if (!enableDoubleToken || refreshBeforeExpiry === undefined) return token;
+        const expiry = getJwtExpiry(token);
+        const expiring = expiry !== null && expiry - Date.now() <= refreshBeforeExpiry * 1000;
+        const refreshing =
+            !!this.refreshTokenPromise || !!this.tokenCoordinator?.isRemoteRefreshing();
+        if (!refreshing && !expiring) return token;
+        try {
+            return await this.refreshAccessToken();
+        } catch (e) {
+            if (expiry === null || expiry > Date.now()) return token;
+            this.handleRefreshTokenExpired(e);
+            throw this.toRefreshError(e);
+        }
+    }
+
+    /**
+     * 刷新失败的错误统一为 AuthExpiredError，原始错误保存在 cause 中
+     */
+    private toRefreshError(error: any, options: AxiosWrapperErrorOptions = {}) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new AuthExpiredError(`Access token refresh failed: ${message}`, 'refresh-failed', {
+            ...options,
+            cause: error,
+        });
+    }
+
+    /**
+     * 按顺序执行认证策略
+     */
+    private async applyAuth(config: InternalAxiosRequestConfig, token?: string) {
+        for (const strategy of this.authStrategies) await strategy.apply(config, { token });
+    }
+
+    /**
+     * 登录态失效：执行 onRefreshTokenExpired 并通知其他标签页。
+     * 在其他标签页失败的刷新由该标签页负责登出，这里不再处理
+     */
+    private handleRefreshTokenExpired(error?: unknown) {
+        if (error instanceof RemoteRefreshError) return;
+        this.tokenCoordinator?.broadcastLogout();
+        this.options.onRefreshTokenExpired?.();
+    }
+
     /**
      * **请求自动重试逻辑**
-     * 此方法在 InterceptorManager.retryMiddleware 中被调用。
+     * 此方法在 InterceptorManager.retryMiddleware 中被调用，只判断是否重试并计算等待时间，返回是否重试。
+     * 等待与重发由 dispatch 完成：等待期间释放并发名额，之后以相同的优先级与分组重新排队
      */
-    private async retryRequest(err: any) {
-        const config = err.config as InternalAxiosRequestConfig & {
-            __retryCount?: number;
-        };
+    private async scheduleRetry(err: any) {
+        const config = err.config as InternalAxiosRequestConfig & RetryState;
+        // 上传、下载等管理器直接通过实例发送并自行重试，只有经 dispatch 发出的请求才能重新排队
+        if (!config.__retryable) return false;
+        const { retry } = resolveRequestPolicy(config, this.options);
+
+        // 会进入离线队列的请求不在断网时消耗重试次数
+        if (isNetworkError(err) && this.offlineQueue?.canQueue(config)) return false;
 
         config.__retryCount = config.__retryCount || 0;
+        const attempt = config.__retryCount + 1;
 
-        if (config.__retryCount < (this.options.retryTimes || DEFAULT_MAX_RETRIES)) {
-            config.__retryCount++;
+        if (
+            config.__retryCount < retry.times &&
+            retry.methods.includes((config.method || 'get').toLowerCase()) &&
+            (await (retry.shouldRetry || isRetryableError)(err, attempt))
+        ) {
+            config.__retryCount = attempt;
 
-            // 延迟等待
-            await new Promise((r) => setTimeout(r, this.options.retryDelay || DEFAULT_RETRY_DELAY));
+            // 计算退避时间：优先使用服务端 Retry-After，否则按退避算法计算
+            const retryAfter = retry.respectRetryAfter
+                ? parseRetryAfter(err.response?.headers?.['retry-after'])
+                : null;
+            const delay =
+                retryAfter !== null
+                    ? Math.min(retryAfter, retry.maxDelay)
+                    : computeRetryDelay(attempt, retry, config.__retryDelay);
+            config.__retryDelay = delay;
 
-            // 核心：重新将请求放入 GlobalConcurrencyController 队列
-            return this.concurrencyController.run(() => this.instance(config));
+            retry.onRetry?.(err, attempt, delay);
+            this.lifecycle.emit('retry', { config, error: err, attempt, delay });
+            config.__retryScheduled = true;
+            return true;
         }
 
-        // 超过重试次数，抛出原错误
-        throw err;
+        // 超过重试次数或不满足重试条件，以原错误拒绝
+        return false;
+    }
+
+    /**
+     * **stale-while-revalidate 后台刷新**
+     * 此方法在 InterceptorManager.cacheRequestMiddleware 命中过期缓存时被调用。
+     * 刷新请求跳过缓存读取与防抖/节流，并与同 Key 的进行中请求去重。
+     */
+    private revalidateRequest(config: InternalAxiosRequestConfig) {
+        const policy = (config as AxiosWrapperMethodConfig).policy || {};
+        const cachePolicy = policy.cache || {};
+        const refreshConfig: AxiosWrapperMethodConfig = {
+            ...config,
+            policy: {
+                ...policy,
+                cache: { ...cachePolicy, bypass: true },
+                debounce: false,
+                throttle: false,
+            },
+        };
+
+        this.cacheManager
+            .dedupe(refreshConfig, () => this.dispatch(refreshConfig))
+            .then((res) => {
+                this.options.onCacheRevalidated?.(res);
+                cachePolicy.onRevalidate?.(res);
+            })
+            // 刷新失败不影响已返回的旧数据，错误已经过 onError 上报
+            .catch(() => undefined);
     }
 
     /**
      * 通用请求包装器
-     * 统一处理：CancelToken 注入、并发控制队列
+     * 统一处理：离线队列、请求去重、CancelToken 注入、并发控制队列
      */
     public async request<T>(config: AxiosWrapperMethodConfig) {
-        const { cancelTokenId } = config;
+        if (this.offlineQueue?.canQueue(config)) {
+            return this.offlineQueue.run(config, () => this.sendRequest<T>(config));
+        }
+        return this.sendRequest<T>(config);
+    }
 
-        // 1. 处理取消令牌
-        if (config?.cancelTokenId) {
-            const cancelTokenSource = axios.CancelToken.source();
-            config.cancelToken = cancelTokenSource.token;
-            this.cancelTokenManager.set(config.cancelTokenId, cancelTokenSource);
+    private async sendRequest<T>(config: AxiosWrapperMethodConfig) {
+        const { dedupe } = resolveRequestPolicy(config, this.options);
+        if (dedupe.enabled) {
+            return this.cacheManager.dedupe(config, () => this.dispatch<T>(config));
         }
+        return this.dispatch<T>(config);
+    }
 
-        // 2. 放入并发控制器执行
-        const req = await this.concurrencyController
-            .run(() => {
-                return this.instance(config);
-            })
+    /**
+     * 实际发送请求：CancelToken 注入、放入并发控制队列
+     */
+    private async dispatch<T>(config: AxiosWrapperMethodConfig) {
+        const { cancelTokenId, cancelGroup } = config;
+
+        // 1. 处理取消：登记到 CancelTokenManager，并与调用方传入的 signal 联动
+        let controller: AbortController | undefined;
+        let unlinkSignal: (() => void) | undefined;
+        if (cancelTokenId || cancelGroup) {
+            controller = new AbortController();
+            unlinkSignal = linkAbortSignal(config.signal, controller);
+            config.signal = controller.signal;
+            if (cancelTokenId) this.cancelTokenManager.set(cancelTokenId, controller);
+            if (cancelGroup) this.cancelTokenManager.addToGroup(cancelGroup, controller);
+        }
+
+        // 2. 放入并发控制器执行，失败后按重试策略重新排队
+        const startedAt = Date.now();
+        this.lifecycle.emit('request', { config });
+        const req = await this.runWithRetry(config)
+            .then(
+                (response) => {
+                    const duration = Date.now() - startedAt;
+                    this.lifecycle.emit('response', { config, response, duration });
+                    return response;
+                },
+                (err) => {
+                    const duration = Date.now() - startedAt;
+                    // 并发队列中取消等未经过拦截器的错误也统一为 AxiosWrapperError
+                    const error = toAxiosWrapperError(err, config);
+                    const reason = getCancelReason(error);
+                    if (reason) this.lifecycle.emit('cancel', { config, error, reason, duration });
+                    else this.lifecycle.emit('error', { config, error, duration });
+                    throw error;
+                },
+            )
             .finally(() => {
-                // 3. 请求完成后清理取消令牌
-                if (cancelTokenId) this.cancelTokenManager.delete(cancelTokenId);
+                // 3. 请求完成后清理取消句柄
+                unlinkSignal?.();
+                if (cancelTokenId) this.cancelTokenManager.delete(cancelTokenId, controller);
+                if (cancelGroup && controller) {
+                    this.cancelTokenManager.removeFromGroup(cancelGroup, controller);
+                }
             });
 
         return req as AxiosResponse<T>;
     }
 
+    /**
+     * 放入并发队列发送。retryMiddleware 决定重试时先释放名额等待，再以相同的优先级与分组重新排队，
+     * 避免 Retry-After 等较长的等待占住名额，也避免重试在并发上限（如 maxConcurrentPerHost: 1）下等待自己的名额
+     */
+    private async runWithRetry(config: AxiosWrapperMethodConfig) {
+        const runOptions = this.getRunOptions(config);
+        let request: AxiosWrapperMethodConfig & RetryState = Object.assign(config, {
+            __retryable: true,
+        });
+        for (;;) {
+            const queuedAt = Date.now();
+            try {
+                return await this.concurrencyController.run(() => {
+                    this.lifecycle.emit('queue', { config, waitTime: Date.now() - queuedAt });
+                    return this.instance(request);
+                }, runOptions);
+            } catch (err: any) {
+                const retryConfig = err?.config as
+                    | (InternalAxiosRequestConfig & RetryState)
+                    | undefined;
+                if (!retryConfig?.__retryScheduled) throw err;
+                retryConfig.__retryScheduled = false;
+                await this.waitForRetry(retryConfig.__retryDelay || 0, runOptions.signal);
+                // 重发拦截器处理后的配置，保留重试计数与退避状态
+                request = retryConfig as AxiosWrapperMethodConfig & RetryState;
+            }
+        }
+    }
+
+    /**
+     * 重试前的等待，请求被中止时提前结束，由并发队列以取消错误拒绝
+     */
+    private waitForRetry(delay: number, signal?: AbortSignal) {
+        return new Promise<void>((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            };
+            const timer = setTimeout(done, delay);
+            signal?.addEventListener('abort', done);
+        });
+    }
+
+    /**
+     * 并发队列的调度选项：按请求优先级排队，按 host 分组限流
+     */
+    private getRunOptions(config: AxiosWrapperMethodConfig) {
+        return {
+            priority: config.priority,
+            key: getRequestHost(config.url, config.baseURL ?? this.instance.defaults?.baseURL),
+            // 排队中的请求被中止时直接移出队列
+            signal: config.signal as AbortSignal | undefined,
+        };
+    }
+
     // --- 快捷方法 API ---
 
-    public get<T>(url: string, data?: any, config: AxiosRequestConfig = {}) {
+    public get<T>(url: string, data?: any, config: AxiosWrapperMethodConfig = {}) {
         return this.request<T>({
             ...config,
             method: 'get',
@@ -301,7 +865,7 @@ export class AxiosWrapper {
         });
     }
 
-    public post<T>(url: string, data?: any, config: AxiosRequestConfig = {}) {
+    public post<T>(url: string, data?: any, config: AxiosWrapperMethodConfig = {}) {
         return this.request<T>({
             ...config,
             method: 'post',
@@ -310,7 +874,7 @@ export class AxiosWrapper {
         });
     }
 
-    public put<T>(url: string, data?: any, config: AxiosRequestConfig = {}) {
+    public put<T>(url: string, data?: any, config: AxiosWrapperMethodConfig = {}) {
         config.url = url ?? config.url;
         config.data = data ?? config.data;
         return this.request<T>({
@@ -321,7 +885,7 @@ export class AxiosWrapper {
         });
     }
 
-    public delete<T>(url: string, data?: any, config: AxiosRequestConfig = {}) {
+    public delete<T>(url: string, data?: any, config: AxiosWrapperMethodConfig = {}) {
         return this.request<T>({
             ...config,
             method: 'delete',
@@ -330,20 +894,111 @@ export class AxiosWrapper {
         });
     }
 
+    /**
+     * 根据接口定义表生成类型安全的客户端，如 api.users.get({ id })
+     */
+    public createApiClient<const S extends ApiSchema>(schema: S) {
+        return createApiClient(this, schema);
+    }
+
     // --- Manager API ---
 
     public uploadFile(url: string, file: File, options?: UploadFileOptions) {
         return this.uploadManager.uploadFile(url, file, options);
     }
 
+    /**
+     * 创建可暂停/恢复/取消的上传任务，任务进入文件队列按 maxConcurrentUploads 调度
+     */
+    public createUploadTask(url: string, file: File, options?: UploadFileOptions): UploadTask {
+        return this.uploadManager.createTask(url, file, options);
+    }
+
+    /**
+     * 批量上传多个文件，返回对应的上传任务
+     */
+    public uploadFiles(url: string, files: File[] | FileList, options?: UploadFileOptions) {
+        return this.uploadManager.uploadFiles(url, files, options);
+    }
+
+    public getUploadTasks() {
+        return this.uploadManager.getTasks();
+    }
+
+    /**
+     * 所有上传任务的汇总进度（字节数、速度、剩余时间）
+     */
+    public getUploadProgress() {
+        return this.uploadManager.getProgress();
+    }
+
+    public pauseUploads() {
+        this.uploadManager.pauseAll();
+    }
+
+    public resumeUploads() {
+        this.uploadManager.resumeAll();
+    }
+
+    public cancelUploads() {
+        this.uploadManager.cancelAll();
+    }
+
+    /**
+     * 本地保存的未完成上传记录，刷新页面后可提示用户重新选择文件继续上传
+     */
+    public getUnfinishedUploads() {
+        return this.uploadManager.getUnfinishedUploads();
+    }
+
+    /**
+     * 分片并行下载，支持进度、暂停/恢复、摘要校验，output 可选 blob / stream / save
+     */
+    public download(url: string, options?: DownloadOptions) {
+        return this.downloadManager.download(url, options);
+    }
+
+    /**
+     * 创建可暂停/恢复/取消的下载任务，output 为 stream 时通过 task.stream 读取内容
+     */
+    public createDownloadTask(url: string, options?: DownloadOptions): DownloadTask {
+        return this.downloadManager.createTask(url, options);
+    }
+
+    public getDownloadTasks() {
+        return this.downloadManager.getTasks();
+    }
+
+    public pauseDownloads() {
+        this.downloadManager.pauseAll();
+    }
+
+    public resumeDownloads() {
+        this.downloadManager.resumeAll();
+    }
+
+    public cancelDownloads() {
+        this.downloadManager.cancelAll();
+    }
+
+    /**
+     * 启动轮询，返回的句柄可等待最终响应、立即刷新或停止
+     */
     public startPolling<T>(config: PollingConfig<T>) {
-        this.pollingManager.poll(config);
+        return this.pollingManager.poll(config);
     }
 
     public stopPolling(key: string) {
         this.pollingManager.stopPolling(key);
     }
 
+    /**
+     * 立即执行一次轮询，不等待当前间隔结束
+     */
+    public refreshPolling(key: string) {
+        this.pollingManager.refresh(key);
+    }
+
     public cancelRequest(tokenId: string) {
         this.cancelTokenManager.cancelById(tokenId);
     }
@@ -352,13 +1007,143 @@ export class AxiosWrapper {
         this.cancelTokenManager.cancelAll();
     }
 
+    /**
+     * 取消分组内的全部请求（通过 cancelGroup 配置发起的请求）
+     */
+    public cancelGroup(group: string) {
+        this.cancelTokenManager.cancelGroup(group);
+    }
+
+    /**
+     * 暂停并发队列：执行中的请求不受影响，新请求只排队不发出
+     */
+    public pauseQueue() {
+        this.concurrencyController.pause();
+    }
+
+    /**
+     * 恢复并发队列
+     */
+    public resumeQueue() {
+        this.concurrencyController.resume();
+    }
+
+    /**
+     * 运行时调整全局最大并发数
+     */
+    public setMaxConcurrent(maxConcurrent: number) {
+        this.concurrencyController.setMaxConcurrent(maxConcurrent);
+    }
+
+    /**
+     * 运行时调整指定 host 的最大并发数，传入 undefined 恢复默认
+     */
+    public setHostConcurrency(host: string, limit?: number) {
+        this.concurrencyController.setKeyLimit(host, limit);
+    }
+
+    /**
+     * 获取并发队列统计（执行中、排队中、平均等待时间等）
+     */
+    public getQueueStats(): ConcurrencyStats {
+        return this.concurrencyController.getStats();
+    }
+
+    /**
+     * 监听生命周期事件（request / queue / response / error / cancel / cache / retry / refresh）
+     * @returns 取消监听的函数
+     */
+    public on<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        return this.lifecycle.on(event, listener);
+    }
+
+    public once<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        return this.lifecycle.once(event, listener);
+    }
+
+    public off<K extends AxiosLifecycleEvent>(event: K, listener: AxiosLifecycleListener<K>) {
+        this.lifecycle.off(event, listener);
+    }
+
+    /**
+     * 获取指标快照，未开启 enableMetrics 时返回 null
+     */
+    public getMetrics(): MetricsSnapshot | null {
+        return this.metricsCollector?.snapshot() ?? null;
+    }
+
+    /**
+     * 清空已收集的指标，通常在上报之后调用
+     */
+    public resetMetrics() {
+        this.metricsCollector?.reset();
+    }
+
+    /**
+     * 获取模拟适配器，未开启 mock 时返回 null
+     */
+    public getMockAdapter() {
+        return this.mockAdapter;
+    }
+
+    /**
+     * 获取离线队列（查看、丢弃、手动回放），未开启 offline 时返回 null
+     */
+    public getOfflineQueue() {
+        return this.offlineQueue;
+    }
+
+    /**
+     * 获取跨标签页刷新协调器，未开启 crossTabRefresh 时返回 null
+     */
+    public getTokenRefreshCoordinator() {
+        return this.tokenCoordinator;
+    }
+
+    /**
+     * 注册 Koa 风格的中间件，phase 默认 request。
+     * 通过 before / after 插入到内置中间件（token、cache、retry 等）的前后
+     */
+    public use<P extends MiddlewarePhase = 'request'>(
+        middleware: Middleware<MiddlewareContextMap[P]>,
+        options: MiddlewareOptions & { phase?: P } = {},
+    ) {
+        const { phase = 'request', ...rest } = options;
+        this.interceptorManager.getPipeline(phase as P).use(middleware, rest);
+        return this;
+    }
+
+    /**
+     * 获取中间件管道，可以调整内置中间件的顺序、移除或包装
+     */
+    public getPipeline<P extends MiddlewarePhase>(phase: P) {
+        return this.interceptorManager.getPipeline(phase);
+    }
+
     public clearCache() {
         this.cacheManager.clear();
     }
 
+    /**
+     * 按 URL 模式（如 '/users*'）、正则或自定义条件失效缓存
+     * @returns 删除的条目数
+     */
+    public invalidate(matcher: CacheMatcher) {
+        return this.cacheManager.invalidate(matcher);
+    }
+
+    /**
+     * 失效带有指定标签的缓存
+     * @returns 删除的条目数
+     */
+    public invalidateTags(tags: string | string[]) {
+        return this.cacheManager.invalidateTags(Array.isArray(tags) ? tags : [tags]);
+    }
+
     /**
      * 下载文件
      * 自动处理 Blob 流，并触发浏览器下载行为。
+     * 大文件建议使用 download()：分片并行、可暂停恢复，并受并发控制。
      */
     public async downloadFile(
         url: string,
@@ -366,11 +1151,11 @@ export class AxiosWrapper {
         filename?: string,
         config?: AxiosRequestConfig & { cancelTokenId?: string },
     ) {
+        const controller = new AbortController();
+        const unlinkSignal = linkAbortSignal(config?.signal, controller);
         try {
-            const cancelTokenSource = axios.CancelToken.source();
             if (config?.cancelTokenId) {
-                config.cancelToken = cancelTokenSource.token;
-                this.cancelTokenManager.set(config.cancelTokenId, cancelTokenSource);
+                this.cancelTokenManager.set(config.cancelTokenId, controller);
             }
 
             // 强制设置 responseType 为 blob
@@ -378,41 +1163,17 @@ export class AxiosWrapper {
                 ...config,
                 method,
                 responseType: 'blob',
+                signal: controller.signal,
             });
 
-            // 文件名解析策略
-            let finalFilename = filename;
-            if (!finalFilename) {
-                const disposition = response.headers['content-disposition'];
-                if (disposition) {
-                    const match = disposition.match(
-                        /filename\*?=['"]?(?:UTF-\d['"]*)?([^;\r\n"']*)['"]?;?/i,
-                    );
-                    if (match && match[1]) {
-                        finalFilename = decodeURIComponent(match[1]);
-                    }
-                }
-            }
-            finalFilename = finalFilename || url.split('/').pop() || 'download_file';
-
-            // 创建 Blob URL 并触发下载
-            const blobUrl = URL.createObjectURL(response.data);
-            const a = document.createElement('a');
-            a.href = blobUrl;
-            a.download = finalFilename;
-            a.style.display = 'none';
-            document.body.appendChild(a);
-            a.click();
-
-            // 延迟清理资源
-            setTimeout(() => {
-                document.body.removeChild(a);
-                URL.revokeObjectURL(blobUrl);
-            }, 100);
+            saveBlob(response.data, getDownloadFilename(url, response.headers, filename));
 
             return response;
         } finally {
-            if (config?.cancelTokenId) this.cancelTokenManager.delete(config.cancelTokenId);
+            unlinkSignal();
+            if (config?.cancelTokenId) {
+                this.cancelTokenManager.delete(config.cancelTokenId, controller);
+            }
         }
     }
 }
@@ -439,4 +1200,83 @@ export class AxiosWrapperFactory {
     }
 }
 
+export * from './AxiosWrapperError';
 export { DebounceThrottleCancelError } from './DebounceThrottleManager';
+export type { CacheEntry, CacheMatcher } from './CacheManager';
+export { LifecycleEmitter } from './LifecycleEmitter';
+export type {
+    AxiosLifecycleEvent,
+    AxiosLifecycleEvents,
+    AxiosLifecycleListener,
+    CacheEventStatus,
+    CancelReason,
+} from './LifecycleEmitter';
+export { MetricsCollector } from './MetricsCollector';
+export type {
+    EndpointMetrics,
+    LatencyStats,
+    MetricsCollectorOptions,
+    MetricsSnapshot,
+} from './MetricsCollector';
+export type {
+    ConcurrencyStats,
+    GlobalConcurrencyControllerOptions,
+    RunOptions,
+    TaskPriority,
+} from './GlobalConcurrencyController';
+export { MockAdapter } from './MockAdapter';
+export type {
+    MockAdapterOptions,
+    MockFixture,
+    MockMode,
+    MockReply,
+    MockResponse,
+    MockRouteOptions,
+} from './MockAdapter';
+export type { PollingBackoff, PollingConfig, PollingHandle } from './PollingManager';
+export * from './OfflineQueue';
+export * from './TokenRefreshCoordinator';
+export * from './AuthStrategy';
+export * from './MiddlewarePipeline';
+export { ResponseValidationError, validateResponse } from './ResponseValidator';
+export type { ResponseSchema } from './ResponseValidator';
+export { apiType, buildApiPath, createApiClient, defineApi } from './ApiClient';
+export type {
+    ApiClient,
+    ApiEndpoint,
+    ApiErrorResponse,
+    ApiMethod,
+    ApiPathParams,
+    ApiRequestArgs,
+    ApiResponse,
+    ApiRoute,
+    ApiSchema,
+} from './ApiClient';
+export { generateApiFromOpenApi } from './OpenApiGenerator';
+export type {
+    OpenApiDocument,
+    OpenApiGenerateOptions,
+    OpenApiOperation,
+    OpenApiParameter,
+    OpenApiSchema,
+} from './OpenApiGenerator';
+export { DownloadManager } from './DownloadManager';
+export type { DownloadOptions, DownloadOutput, DownloadRange } from './DownloadManager';
+export { DownloadTask } from './DownloadTask';
+export type { DownloadResult, DownloadTaskProgress, DownloadTaskStatus } from './DownloadTask';
+export { UploadTask } from './UploadTask';
+export type { UploadResult, UploadTaskProgress, UploadTaskStatus } from './UploadTask';
+export { getHashSampleRanges } from './UploadManager';
+export type {
+    AdaptiveChunkSizeOptions,
+    ChunkRequestOptions,
+    FileCheckResult,
+    FileHashOptions,
+    HashAlgorithm,
+    SampleHashOptions,
+    UploadFileOptions,
+    UploadManagerOptions,
+} from './UploadManager';
+export * from './UploadRecordStore';
+export * from './UploadProtocol';
+export * from './CacheStorageAdapter';
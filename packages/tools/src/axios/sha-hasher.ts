@@ -0,0 +1,175 @@
+/** 支持增量计算的 SHA 算法 */
+export type ShaAlgorithm = 'sha1' | 'sha256';
+
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE: Record<ShaAlgorithm, number[]> = {
+    sha1: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+    sha256: [
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab,
+        0x5be0cd19,
+    ],
+};
+
+const SUBTLE_ALGORITHMS: Record<ShaAlgorithm, string> = { sha1: 'SHA-1', sha256: 'SHA-256' };
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * 一次性计算 SHA-1 / SHA-256 摘要，由 SubtleCrypto.digest 计算；
+ * 非安全上下文（如 http 页面）没有 crypto.subtle，此时退回 ShaHasher
+ */
+export async function digestSha(algorithm: ShaAlgorithm, data: ArrayBuffer) {
+    const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+    if (!subtle) return new ShaHasher(algorithm).append(data).end();
+    const digest = await subtle.digest(SUBTLE_ALGORITHMS[algorithm], new Uint8Array(data));
+    return Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * 增量计算 SHA-1 / SHA-256 摘要，逐块 append，内存中只保留不足一个分组（64 字节）的数据。
+ * 纯 JS 实现，速度慢于 SubtleCrypto；只在数据无法一次性读入内存时使用（超大文件的完整摘要、流式下载），
+ * 其余场景使用 digestSha
+ */
+export class ShaHasher {
+    private state: Uint32Array;
+    private words = new Uint32Array(80);
+    private block = new Uint8Array(64);
+    private blockLength = 0;
+    private length = 0;
+
+    constructor(private algorithm: ShaAlgorithm = 'sha256') {
+        this.state = new Uint32Array(INITIAL_STATE[algorithm]);
+    }
+
+    append(data: ArrayBuffer | Uint8Array) {
+        const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+        this.length += bytes.length;
+        let offset = 0;
+        // 先补满上次剩余的分组
+        if (this.blockLength) {
+            offset = Math.min(64 - this.blockLength, bytes.length);
+            this.block.set(bytes.subarray(0, offset), this.blockLength);
+            this.blockLength += offset;
+            if (this.blockLength < 64) return this;
+            this.compress(this.block, 0);
+            this.blockLength = 0;
+        }
+        for (; offset + 64 <= bytes.length; offset += 64) this.compress(bytes, offset);
+        this.block.set(bytes.subarray(offset));
+        this.blockLength = bytes.length - offset;
+        return this;
+    }
+
+    /**
+     * 结束计算，返回十六进制摘要
+     */
+    end() {
+        const bits = this.length * 8;
+        // 0x80 + 补零 + 64 位的消息长度，补齐到 64 字节的整数倍
+        const padding = new Uint8Array(
+            this.blockLength < 56 ? 64 - this.blockLength : 128 - this.blockLength,
+        );
+        padding[0] = 0x80;
+        const view = new DataView(padding.buffer);
+        view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+        view.setUint32(padding.length - 4, bits >>> 0);
+        this.append(padding);
+        return Array.from(this.state)
+            .map((word) => word.toString(16).padStart(8, '0'))
+            .join('');
+    }
+
+    private compress(data: Uint8Array, offset: number) {
+        const w = this.words;
+        for (let i = 0; i < 16; i++) {
+            const j = offset + i * 4;
+            w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+        }
+        if (this.algorithm === 'sha1') this.compressSha1(w);
+        else this.compressSha256(w);
+    }
+
+    private compressSha1(w: Uint32Array) {
+        for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+        const s = this.state;
+        let [a, b, c, d, e] = s;
+        for (let i = 0; i < 80; i++) {
+            let f: number;
+            let k: number;
+            if (i < 20) {
+                f = (b & c) | (~b & d);
+                k = 0x5a827999;
+            } else if (i < 40) {
+                f = b ^ c ^ d;
+                k = 0x6ed9eba1;
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d);
+                k = 0x8f1bbcdc;
+            } else {
+                f = b ^ c ^ d;
+                k = 0xca62c1d6;
+            }
+            const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+            e = d;
+            d = c;
+            c = rotl(b, 30);
+            b = a;
+            a = temp;
+        }
+        s[0] += a;
+        s[1] += b;
+        s[2] += c;
+        s[3] += d;
+        s[4] += e;
+    }
+
+    private compressSha256(w: Uint32Array) {
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+        const s = this.state;
+        let [a, b, c, d, e, f, g, h] = s;
+        for (let i = 0; i < 64; i++) {
+            const t1 =
+                (h +
+                    (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+                    ((e & f) ^ (~e & g)) +
+                    SHA256_K[i] +
+                    w[i]) |
+                0;
+            const t2 =
+                ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+        s[0] += a;
+        s[1] += b;
+        s[2] += c;
+        s[3] += d;
+        s[4] += e;
+        s[5] += f;
+        s[6] += g;
+        s[7] += h;
+    }
+}
@@ -31,9 +31,33 @@ export type ValidationRuleFn<T = any> = (
     allValues?: Record<string, T>,
 ) => Promise<ValidationRuleResult> | ValidationRuleResult;
 
-/** 验证规则集合，每个字段可对应单个或多个规则函数 */
+/**
+ * 验证规则集合，每个字段可对应单个或多个规则函数，也可以是嵌套对象的规则集合。
+ * 嵌套字段的错误以点路径为 key，如 `address.city`
+ */
 export interface ValidationRules<T = any> {
-    [field: string]: ValidationRuleFn<T> | ValidationRuleFn<T>[];
+    [field: string]: ValidationRuleFn<T> | ValidationRuleFn<T>[] | ValidationRules<T>;
+}
+
+/** validate 的选项 */
+export type ValidateOptions = {
+    /** 是否读写结果缓存，默认 true；每次数据都不同（如接口响应）时关闭，避免缓存无限增长 */
+    cache?: boolean;
+};
+
+/** 值类型，array 与 null 单独区分 */
+export type ValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+function getValueType(value: unknown): string {
+    if (value === null) return 'null';
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/** 是否为嵌套的规则集合（而不是规则函数或规则数组） */
+function isNestedRules<T>(
+    rules: ValidationRuleFn<T> | ValidationRuleFn<T>[] | ValidationRules<T>,
+): rules is ValidationRules<T> {
+    return typeof rules === 'object' && !Array.isArray(rules);
 }
 
 /**
@@ -154,6 +178,44 @@ export const Rules = {
             status: !isNaN(new Date(value as any).getTime()),
             message,
         }),
+
+    /** 值类型，可传多个表示任一类型，如 type(['string', 'null']) */
+    type:
+        (expected: ValueType | ValueType[], message?: string): ValidationRuleFn =>
+        (value) => {
+            const types = Array.isArray(expected) ? expected : [expected];
+            return {
+                status: types.includes(getValueType(value) as ValueType),
+                message: message || `Value must be of type ${types.join(' | ')}`,
+            };
+        },
+
+    /**
+     * 数组的每一项都需要通过验证，非数组视为失败。
+     * 传入规则集合时每一项按对象验证，错误信息带上首个失败项的路径，如 `[1].name: ...`
+     */
+    each:
+        (
+            rules: ValidationRuleFn | ValidationRuleFn[] | ValidationRules,
+            message?: string,
+        ): ValidationRuleFn =>
+        async (value) => {
+            if (!Array.isArray(value)) {
+                return { status: false, message: message || 'Value must be an array' };
+            }
+            const validator = new Validator(isNestedRules(rules) ? rules : { value: rules });
+            for (let i = 0; i < value.length; i++) {
+                const result = await validator.validate(
+                    isNestedRules(rules) ? value[i] : { value: value[i] },
+                );
+                if (!result.isValid) {
+                    const [field, error] = Object.entries(result.errors)[0];
+                    const path = isNestedRules(rules) ? `[${i}].${field}` : `[${i}]`;
+                    return { status: false, message: message || `${path}: ${error}` };
+                }
+            }
+            return { status: true };
+        },
 };
 
 /**
@@ -184,9 +246,15 @@ export class Validator<T = any> {
     /**
      * 对数据进行验证
      * @param data 待验证对象
+     * @param options 验证选项
      * @returns 验证结果，包括整体是否通过及每个字段错误信息
      */
-    public async validate(data: Record<string, T>): Promise<ValidationResult> {
+    public async validate(
+        data: Record<string, T>,
+        options: ValidateOptions = {},
+    ): Promise<ValidationResult> {
+        if (options.cache === false) return this.performValidation(data);
+
         const cacheKey = this.generateCacheKey(data);
         if (this.cache.has(cacheKey)) {
             return this.cache.get(cacheKey)!;
@@ -219,26 +287,40 @@ export class Validator<T = any> {
 
     /** 执行实际验证逻辑 */
     private async performValidation(data: Record<string, T>): Promise<ValidationResult> {
-        this.errors = {};
-        let isValid = true;
-
+        // 先收集到局部对象，避免并发的 validate 互相覆盖错误信息
+        const errors: Record<string, string> = {};
         const allRules: ValidationRules<T> = { ...this.rules, ...this.dynamicRules };
+        await this.validateRules(allRules, data, '', errors);
+        this.errors = errors;
+        return { isValid: Object.keys(errors).length === 0, errors };
+    }
 
-        for (const [field, fieldRules] of Object.entries(allRules)) {
-            const value = data[field];
-            const rules = Array.isArray(fieldRules) ? fieldRules : [fieldRules];
+    /** 按规则集合验证一层对象，嵌套规则递归验证对应的子对象 */
+    private async validateRules(
+        rules: ValidationRules<T>,
+        data: Record<string, T>,
+        prefix: string,
+        errors: Record<string, string>,
+    ) {
+        for (const [field, fieldRules] of Object.entries(rules)) {
+            const value = data?.[field];
+
+            if (isNestedRules(fieldRules)) {
+                // 子对象缺失时按空对象验证，由其中的 required 等规则报告错误
+                const nested = value !== null && typeof value === 'object' ? (value as any) : {};
+                await this.validateRules(fieldRules, nested, `${prefix}${field}.`, errors);
+                continue;
+            }
 
-            for (const rule of rules) {
+            const list = Array.isArray(fieldRules) ? fieldRules : [fieldRules];
+            for (const rule of list) {
                 const result = await this.executeRule(rule, value, data);
                 if (!result.status) {
-                    this.errors[field] = result.message || 'Validation failed';
-                    isValid = false;
+                    errors[`${prefix}${field}`] = result.message || 'Validation failed';
                     break; // 遇到失败即跳过该字段剩余规则
                 }
             }
         }
-
-        return { isValid, errors: this.errors };
     }
 
     /** 执行单条验证规则 */
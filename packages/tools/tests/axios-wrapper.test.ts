@@ -65,7 +65,12 @@ describe('AxiosWrapper', () => {
     it('should pass cancelTokenId to request and cleanup after request', async () => {
         const wrapper = new AxiosWrapperModule.AxiosWrapper({ baseURL: 'http://localhost' });
         await wrapper.get('/path', undefined, { cancelTokenId: 'abc' });
-        expect(CancelToken.source).toHaveBeenCalled();
+        const config = fakeInstance.mock.calls[0][0];
+        expect(config.signal).toBeInstanceOf(AbortSignal);
+        expect(config.signal.aborted).toBe(false);
+        // 请求完成后句柄已清理，取消不再生效
+        wrapper.cancelRequest('abc');
+        expect(config.signal.aborted).toBe(false);
     });
 
     it('should clear cache without error', () => {
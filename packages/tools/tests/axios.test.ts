@@ -1,7 +1,19 @@
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
+import { createHash, createHmac } from 'crypto';
+import SparkMD5 from 'spark-md5';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generateRequestKey } from '../src/axios/helper';
+import {
+    computeRetryDelay,
+    generateRequestKey,
+    getJwtExpiry,
+    isRetryableError,
+    matchUrlPattern,
+    parseRetryAfter,
+    resolveRequestPolicy,
+} from '../src/axios/helper';
 import { CacheManager } from '../src/axios/CacheManager';
+import { IndexedDBCacheAdapter, LocalStorageCacheAdapter } from '../src/axios/CacheStorageAdapter';
+import { IndexedDBHelper } from '../src/web-storage-helper';
 import { CancelTokenManager } from '../src/axios/CancelTokenManager';
 import {
     DebounceThrottleManager,
@@ -9,6 +21,35 @@ import {
 } from '../src/axios/DebounceThrottleManager';
 import { GlobalConcurrencyController } from '../src/axios/GlobalConcurrencyController';
 import { PollingManager } from '../src/axios/PollingManager';
+import { AxiosWrapper } from '../src/axios/index';
+import { LifecycleEmitter } from '../src/axios/LifecycleEmitter';
+import { MetricsCollector } from '../src/axios/MetricsCollector';
+import { MockAdapter } from '../src/axios/MockAdapter';
+import { OfflineQueuedError } from '../src/axios/OfflineQueue';
+import { apiType, buildApiPath, defineApi } from '../src/axios/ApiClient';
+import { generateApiFromOpenApi } from '../src/axios/OpenApiGenerator';
+import { ResponseValidationError } from '../src/axios/ResponseValidator';
+import { ApiKeyAuthStrategy, CsrfAuthStrategy, HmacAuthStrategy } from '../src/axios/AuthStrategy';
+import { MiddlewarePipeline, RequestMiddlewareContext } from '../src/axios/MiddlewarePipeline';
+import {
+    AuthExpiredError,
+    BusinessError,
+    HttpStatusError,
+    NetworkError,
+    ThrottledError,
+    TimeoutError,
+    isAuthExpiredError,
+    isBusinessError,
+    isCancelledError,
+    isHttpStatusError,
+} from '../src/axios/AxiosWrapperError';
+import { Rules, Validator } from '../src/validator';
+import { UploadManager, getHashSampleRanges } from '../src/axios/UploadManager';
+import { UploadRecord, getUploadRecordKey } from '../src/axios/UploadRecordStore';
+import { CHUNK_SIZE } from '../src/axios/const';
+import { ShaHasher } from '../src/axios/sha-hasher';
+import { DownloadManager } from '../src/axios/DownloadManager';
+import { S3MultipartUploadProtocol, TusUploadProtocol } from '../src/axios/UploadProtocol';
 
 describe('Axios helpers and managers', () => {
     describe('generateRequestKey', () => {
@@ -34,6 +75,73 @@ describe('Axios helpers and managers', () => {
         });
     });
 
+    describe('resolveRequestPolicy', () => {
+        it('should fall back to instance options when no policy is given', () => {
+            const policy = resolveRequestPolicy(
+                { url: '/api/test' },
+                { enableCache: true, cacheTTL: 500, enableRetry: true, retryTimes: 2 },
+            );
+            expect(policy.cache).toMatchObject({ enabled: true, ttl: 500, bypass: false });
+            expect(policy.debounce.enabled).toBe(false);
+            expect(policy.retry).toMatchObject({ enabled: true, times: 2, delay: 1000 });
+        });
+
+        it('should let per-request policy override or opt out', () => {
+            const options = { enableCache: true, enableDebounce: true, debounceInterval: 300 };
+            const overridden = resolveRequestPolicy(
+                {
+                    url: '/a',
+                    policy: { cache: { ttl: 10, bypass: true }, throttle: { interval: 50 } },
+                } as any,
+                options,
+            );
+            expect(overridden.cache).toMatchObject({ enabled: true, ttl: 10, bypass: true });
+            expect(overridden.debounce).toEqual({ enabled: true, interval: 300 });
+            expect(overridden.throttle).toEqual({ enabled: true, interval: 50 });
+
+            const optedOut = resolveRequestPolicy({ url: '/a', policy: false } as any, options);
+            expect(optedOut.cache.enabled).toBe(false);
+            expect(optedOut.debounce.enabled).toBe(false);
+        });
+    });
+
+    describe('retry helpers', () => {
+        it('should compute fixed, exponential and capped delays', () => {
+            const base = { delay: 100, maxDelay: 1000 };
+            expect(computeRetryDelay(3, { ...base, backoff: 'fixed' })).toBe(100);
+            expect(computeRetryDelay(1, { ...base, backoff: 'exponential' })).toBe(100);
+            expect(computeRetryDelay(3, { ...base, backoff: 'exponential' })).toBe(400);
+            expect(computeRetryDelay(10, { ...base, backoff: 'exponential' })).toBe(1000);
+        });
+
+        it('should keep decorrelated jitter between base delay and three times the previous delay', () => {
+            const retry = { delay: 100, maxDelay: 10000, backoff: 'decorrelated-jitter' as const };
+            for (let i = 0; i < 20; i++) {
+                const delay = computeRetryDelay(2, retry, 200);
+                expect(delay).toBeGreaterThanOrEqual(100);
+                expect(delay).toBeLessThanOrEqual(600);
+            }
+        });
+
+        it('should parse Retry-After seconds and HTTP dates', () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+            expect(parseRetryAfter('2')).toBe(2000);
+            expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT')).toBe(5000);
+            expect(parseRetryAfter('soon')).toBeNull();
+            expect(parseRetryAfter(undefined)).toBeNull();
+            vi.useRealTimers();
+        });
+
+        it('should only treat network errors, 408, 429 and 5xx as retryable', () => {
+            expect(isRetryableError(new Error('Network Error'))).toBe(true);
+            expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+            expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+            expect(isRetryableError({ response: { status: 404 } })).toBe(false);
+            expect(isRetryableError(new DebounceThrottleCancelError('x', 'debounce'))).toBe(false);
+        });
+    });
+
     describe('CacheManager', () => {
         let cacheManager: CacheManager;
 
@@ -77,6 +185,130 @@ describe('Axios helpers and managers', () => {
             vi.advanceTimersByTime(1001);
             expect(cacheManager.get(config)).toBeNull();
         });
+
+        it('should return stale entries within the stale window', () => {
+            const config = { method: 'get', url: '/api/test' } as any;
+            cacheManager.set(config, { data: 'value' }, 1000);
+            expect(cacheManager.getStale(config, 500)).toMatchObject({
+                data: 'value',
+                stale: false,
+            });
+            vi.advanceTimersByTime(1200);
+            expect(cacheManager.getStale(config, 500)).toMatchObject({
+                data: 'value',
+                stale: true,
+            });
+            vi.advanceTimersByTime(400);
+            expect(cacheManager.getStale(config, 500)).toBeNull();
+        });
+
+        it('should share one promise between identical in-flight requests', async () => {
+            const config = { method: 'get', url: '/api/test', params: { a: 1 } } as any;
+            let resolve!: (value: string) => void;
+            const factory = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+            const p1 = cacheManager.dedupe(config, factory);
+            const p2 = cacheManager.dedupe({ ...config }, factory);
+            expect(factory).toHaveBeenCalledTimes(1);
+            resolve('done');
+            expect(await p1).toBe('done');
+            expect(await p2).toBe('done');
+
+            await cacheManager.dedupe(config, async () => 'again');
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        it('should match url patterns with wildcards and regexps', () => {
+            expect(matchUrlPattern('/users/1', '/users*')).toBe(true);
+            expect(matchUrlPattern('/users', '/users*')).toBe(true);
+            expect(matchUrlPattern('/orders', '/users*')).toBe(false);
+            expect(matchUrlPattern('/users.json', '/users.json')).toBe(true);
+            expect(matchUrlPattern('/usersxjson', '/users.json')).toBe(false);
+            expect(matchUrlPattern('/api/v1/users', /\/users$/g)).toBe(true);
+            expect(matchUrlPattern('/api/v1/users', /\/users$/g)).toBe(true);
+        });
+
+        it('should invalidate entries by url pattern, predicate and tags', () => {
+            cacheManager.set({ url: '/users' }, 'list', undefined, ['users']);
+            cacheManager.set({ url: '/users/1' }, 'detail');
+            cacheManager.set({ url: '/orders', method: 'post' }, 'orders', undefined, ['orders']);
+
+            expect(cacheManager.invalidate('/users/*')).toBe(1);
+            expect(cacheManager.get({ url: '/users' })).toBe('list');
+            expect(cacheManager.invalidateTags(['users'])).toBe(1);
+            expect(cacheManager.get({ url: '/users' })).toBeNull();
+            expect(cacheManager.invalidate((entry) => entry.method === 'post')).toBe(1);
+            expect(cacheManager.size).toBe(0);
+        });
+    });
+
+    describe('CacheManager limits and persistence', () => {
+        afterEach(() => {
+            localStorage.clear();
+            vi.restoreAllMocks();
+        });
+
+        it('should evict the least recently used entry when maxEntries is exceeded', () => {
+            const manager = new CacheManager({ maxEntries: 2 });
+            const a = { url: '/a' };
+            const b = { url: '/b' };
+            const c = { url: '/c' };
+            manager.set(a, 'A');
+            manager.set(b, 'B');
+            // 访问 a，使 b 成为最久未使用的条目
+            expect(manager.get(a)).toBe('A');
+            manager.set(c, 'C');
+            expect(manager.size).toBe(2);
+            expect(manager.get(b)).toBeNull();
+            expect(manager.get(a)).toBe('A');
+            expect(manager.get(c)).toBe('C');
+        });
+
+        it('should evict entries to stay under maxBytes and skip oversized entries', () => {
+            const manager = new CacheManager({ maxBytes: 80 });
+            manager.set({ url: '/a' }, 'x'.repeat(10));
+            manager.set({ url: '/b' }, 'y'.repeat(10));
+            expect(manager.get({ url: '/a' })).toBeNull();
+            expect(manager.get({ url: '/b' })).toBe('y'.repeat(10));
+
+            manager.set({ url: '/huge' }, 'z'.repeat(100));
+            expect(manager.get({ url: '/huge' })).toBeNull();
+            expect(manager.get({ url: '/b' })).toBe('y'.repeat(10));
+        });
+
+        it('should persist entries to localStorage and restore them in a new manager', async () => {
+            const storage = new LocalStorageCacheAdapter('test-cache:');
+            const first = new CacheManager({ storage });
+            first.set({ method: 'get', url: '/users' }, { list: [1, 2] });
+            expect(storage.keys()).toEqual([generateRequestKey({ method: 'get', url: '/users' })]);
+
+            const second = new CacheManager({ storage });
+            await second.ready;
+            expect(second.get({ method: 'get', url: '/users' })).toEqual({ list: [1, 2] });
+
+            second.clear();
+            expect(storage.keys()).toEqual([]);
+        });
+
+        it('should delete evicted entries from the storage adapter', async () => {
+            const storage = new LocalStorageCacheAdapter('test-cache:');
+            const manager = new CacheManager({ storage, maxEntries: 1 });
+            manager.set({ url: '/a' }, 'A');
+            manager.set({ url: '/b' }, 'B');
+            expect(storage.keys()).toEqual([generateRequestKey({ url: '/b' })]);
+        });
+
+        it('should load entries from an async IndexedDB adapter', async () => {
+            const key = generateRequestKey({ url: '/offline' });
+            vi.spyOn(IndexedDBHelper, 'keys').mockResolvedValue([
+                'other',
+                `lania-axios-cache:${key}`,
+            ]);
+            vi.spyOn(IndexedDBHelper, 'get').mockResolvedValue({ data: 'last known' } as any);
+            const manager = new CacheManager({ storage: new IndexedDBCacheAdapter() });
+            await manager.ready;
+            expect(IndexedDBHelper.get).toHaveBeenCalledWith(`lania-axios-cache:${key}`);
+            expect(manager.get({ url: '/offline' })).toBe('last known');
+        });
     });
 
     describe('CancelTokenManager', () => {
@@ -119,6 +351,30 @@ describe('Axios helpers and managers', () => {
             expect(err1.message).toContain('one');
             expect(err2.message).toContain('two');
         });
+
+        it('should abort controllers by id and by group', () => {
+            const byId = new AbortController();
+            const first = new AbortController();
+            const second = new AbortController();
+            manager.set('token-id', byId);
+            manager.addToGroup('page-x', first);
+            manager.addToGroup('page-x', second);
+            manager.removeFromGroup('page-x', second);
+
+            manager.cancelById('token-id');
+            manager.cancelGroup('page-x');
+            expect(byId.signal.aborted).toBe(true);
+            expect(first.signal.aborted).toBe(true);
+            expect(second.signal.aborted).toBe(false);
+        });
+
+        it('should only delete the handle that is still registered', () => {
+            const stale = new AbortController();
+            const current = new AbortController();
+            manager.set('token-id', current);
+            manager.delete('token-id', stale);
+            expect(manager.get('token-id')).toBe(current);
+        });
     });
 
     describe('DebounceThrottleManager', () => {
@@ -147,7 +403,9 @@ describe('Axios helpers and managers', () => {
         it('should throttle requests and reject repeated calls within interval', async () => {
             const req = { method: 'get', url: '/api/test' } as any;
             await expect(manager.throttleRequest(req, 500)).resolves.toBe(req);
-            await expect(manager.throttleRequest(req, 500)).rejects.toBeInstanceOf(DebounceThrottleCancelError);
+            await expect(manager.throttleRequest(req, 500)).rejects.toBeInstanceOf(
+                DebounceThrottleCancelError,
+            );
             vi.advanceTimersByTime(500);
             await expect(manager.throttleRequest(req, 500)).resolves.toBe(req);
         });
@@ -205,6 +463,128 @@ describe('Axios helpers and managers', () => {
             expect(await p2).toBe('second');
             expect(order).toEqual(['first', 'second']);
         });
+
+        // 返回一个手动完成的任务，便于控制执行顺序
+        const deferredTask = (order: string[], name: string) => {
+            let done!: () => void;
+            const task = vi.fn(
+                () =>
+                    new Promise<string>((resolve) => {
+                        order.push(name);
+                        done = () => resolve(name);
+                    }),
+            );
+            return { task, finish: () => done() };
+        };
+
+        it('should start queued tasks by priority and keep FIFO within a priority', async () => {
+            const controller = new GlobalConcurrencyController(1);
+            const order: string[] = [];
+            const blocker = deferredTask(order, 'blocker');
+            controller.run(blocker.task);
+            const tasks = [
+                ['low', 'low'],
+                ['normal-1', 'normal'],
+                ['high', 'high'],
+                ['normal-2', 'normal'],
+                ['urgent', 100],
+            ] as const;
+            const promises = tasks.map(([name, priority]) =>
+                controller.run(async () => order.push(name), { priority }),
+            );
+
+            blocker.finish();
+            await Promise.all(promises);
+            expect(order).toEqual(['blocker', 'urgent', 'high', 'normal-1', 'normal-2', 'low']);
+        });
+
+        it('should cap concurrency per key without blocking other keys', async () => {
+            const controller = new GlobalConcurrencyController({
+                maxConcurrent: 3,
+                maxConcurrentPerKey: 1,
+                keyLimits: { 'cdn.com': 2 },
+            });
+            const order: string[] = [];
+            const a1 = deferredTask(order, 'a1');
+            const a2 = deferredTask(order, 'a2');
+            const cdn1 = deferredTask(order, 'cdn1');
+            const cdn2 = deferredTask(order, 'cdn2');
+            const p1 = controller.run(a1.task, { key: 'api.com' });
+            controller.run(a2.task, { key: 'api.com' });
+            controller.run(cdn1.task, { key: 'cdn.com' });
+            controller.run(cdn2.task, { key: 'cdn.com' });
+
+            expect(order).toEqual(['a1', 'cdn1', 'cdn2']);
+            expect(controller.getStats()).toMatchObject({
+                active: 3,
+                queued: 1,
+                activeByKey: { 'api.com': 1, 'cdn.com': 2 },
+            });
+
+            a1.finish();
+            await p1;
+            await vi.runAllTimersAsync();
+            expect(order).toEqual(['a1', 'cdn1', 'cdn2', 'a2']);
+        });
+
+        it('should pause, resume, change the limit at runtime and report stats', async () => {
+            const controller = new GlobalConcurrencyController(1);
+            controller.pause();
+            const first = controller.run(
+                () => new Promise((resolve) => setTimeout(() => resolve('first'), 100)),
+            );
+            const second = controller.run(async () => 'second');
+            expect(controller.getStats()).toMatchObject({ active: 0, queued: 2, paused: true });
+
+            vi.advanceTimersByTime(50);
+            controller.setMaxConcurrent(2);
+            expect(controller.getStats().queued).toBe(2);
+            controller.resume();
+            expect(controller.getStats()).toMatchObject({ active: 2, queued: 0, maxConcurrent: 2 });
+
+            await vi.runAllTimersAsync();
+            expect(await Promise.all([first, second])).toEqual(['first', 'second']);
+            expect(controller.getStats()).toMatchObject({
+                active: 0,
+                completed: 2,
+                averageWait: 50,
+            });
+        });
+
+        it('should drop queued tasks whose signal aborts', async () => {
+            const controller = new GlobalConcurrencyController(1);
+            const order: string[] = [];
+            const blocker = deferredTask(order, 'blocker');
+            const running = controller.run(blocker.task);
+            const abortController = new AbortController();
+            const queuedTask = vi.fn(async () => 'queued');
+            const queued = controller.run(queuedTask, { signal: abortController.signal });
+            expect(controller.getStats().queued).toBe(1);
+
+            abortController.abort('left the page');
+            const err = await queued.catch((e) => e);
+            expect(axios.isCancel(err)).toBe(true);
+            expect(err.message).toBe('left the page');
+            expect(controller.getStats().queued).toBe(0);
+
+            // 已中止的信号直接拒绝，不进入队列
+            await expect(
+                controller.run(queuedTask, { signal: abortController.signal }),
+            ).rejects.toThrow();
+            blocker.finish();
+            await running;
+            expect(queuedTask).not.toHaveBeenCalled();
+        });
+
+        it('should release the slot when a task throws synchronously', async () => {
+            const controller = new GlobalConcurrencyController(1);
+            await expect(
+                controller.run(() => {
+                    throw new Error('sync failure');
+                }),
+            ).rejects.toThrow('sync failure');
+            expect(await controller.run(async () => 'next')).toBe('next');
+        });
     });
 
     describe('PollingManager', () => {
@@ -258,6 +638,91 @@ describe('Axios helpers and managers', () => {
             await vi.runAllTimersAsync();
             expect(onSuccess).toHaveBeenCalledTimes(1);
         });
+
+        it('should resolve the handle once until() is satisfied', async () => {
+            const get = vi
+                .fn()
+                .mockResolvedValueOnce({ data: { status: 'running' } })
+                .mockResolvedValueOnce({ data: { status: 'running' } })
+                .mockResolvedValue({ data: { status: 'done' } });
+            const manager = new PollingManager({ get } as any, new GlobalConcurrencyController(1));
+
+            const handle = manager.poll<{ status: string }>({
+                key: 'job',
+                url: '/job',
+                interval: 100,
+                until: (res) => res.data.status === 'done',
+            });
+            await vi.runAllTimersAsync();
+            await expect(handle.promise).resolves.toEqual({ data: { status: 'done' } });
+            expect(get).toHaveBeenCalledTimes(3);
+        });
+
+        it('should grow the interval while results are unchanged', async () => {
+            const get = vi.fn().mockResolvedValue({ data: { progress: 10 } });
+            const manager = new PollingManager({ get } as any, new GlobalConcurrencyController(1));
+
+            manager.poll({
+                key: 'backoff',
+                url: '/job',
+                interval: 100,
+                maxPollingTimes: 10,
+                backoff: { maxInterval: 400 },
+            });
+            const callsAt = async (ms: number) => {
+                await vi.advanceTimersByTimeAsync(ms);
+                return get.mock.calls.length;
+            };
+            // 间隔依次为 100、200、400、400
+            expect(await callsAt(0)).toBe(1);
+            expect(await callsAt(100)).toBe(2);
+            expect(await callsAt(199)).toBe(2);
+            expect(await callsAt(1)).toBe(3);
+            expect(await callsAt(400)).toBe(4);
+            expect(await callsAt(400)).toBe(5);
+
+            get.mockResolvedValue({ data: { progress: 20 } });
+            expect(await callsAt(400)).toBe(6);
+            expect(await callsAt(100)).toBe(7);
+            manager.stopPolling('backoff');
+        });
+
+        it('should pause while the page is hidden and refresh on demand', async () => {
+            let hidden = false;
+            Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+            const get = vi.fn().mockResolvedValue({ data: {} });
+            const manager = new PollingManager({ get } as any, new GlobalConcurrencyController(1));
+            try {
+                const handle = manager.poll({
+                    key: 'visible',
+                    url: '/job',
+                    interval: 100,
+                    maxPollingTimes: 10,
+                });
+                await vi.advanceTimersByTimeAsync(0);
+                hidden = true;
+                await vi.advanceTimersByTimeAsync(1000);
+                expect(get).toHaveBeenCalledTimes(1);
+
+                hidden = false;
+                document.dispatchEvent(new Event('visibilitychange'));
+                await vi.advanceTimersByTimeAsync(0);
+                expect(get).toHaveBeenCalledTimes(2);
+
+                await vi.advanceTimersByTimeAsync(50);
+                handle.refresh();
+                await vi.advanceTimersByTimeAsync(0);
+                expect(get).toHaveBeenCalledTimes(3);
+                // 刷新后重新计算间隔
+                await vi.advanceTimersByTimeAsync(99);
+                expect(get).toHaveBeenCalledTimes(3);
+
+                handle.stop();
+                await expect(handle.promise).resolves.toEqual({ data: {} });
+            } finally {
+                delete (document as any).hidden;
+            }
+        });
     });
 
     describe('UploadManager', () => {
@@ -280,15 +745,38 @@ describe('Axios helpers and managers', () => {
                 axiosInstance,
                 concurrencyController,
             );
-            const cancelToken = axios.CancelToken.source();
             const progress = vi.fn();
 
             const chunk = new Blob(['data'], { type: 'text/plain' });
-            await manager.uploadChunk('/upload', chunk, 0, 1, cancelToken, undefined, undefined, progress);
+            await manager.uploadChunk('/upload', chunk, 0, 1, undefined, undefined, progress);
 
             expect(post).toHaveBeenCalled();
         });
 
+        it('should pass the abort signal to the chunk request', async () => {
+            const post = vi.fn().mockResolvedValue({});
+            const concurrencyController = { run: vi.fn((task: any) => task()) } as any;
+            const manager = new UploadManager({ post } as any, concurrencyController);
+            const signal = new AbortController().signal;
+
+            const chunk = new Blob(['data'], { type: 'text/plain' });
+            await manager.uploadChunk(
+                '/upload',
+                chunk,
+                0,
+                1,
+                undefined,
+                undefined,
+                undefined,
+                0,
+                0,
+                'low',
+                signal,
+            );
+            expect(post.mock.calls[0][2].signal).toBe(signal);
+            expect(post.mock.calls[0][2]).not.toHaveProperty('cancelToken');
+        });
+
         it('should retry failed uploads before success', async () => {
             let attempt = 0;
             const post = vi.fn().mockImplementation(() => {
@@ -304,11 +792,2002 @@ describe('Axios helpers and managers', () => {
                 axiosInstance,
                 concurrencyController,
             );
-            const cancelToken = axios.CancelToken.source();
-
             const chunk = new Blob(['data'], { type: 'text/plain' });
-            await manager.uploadChunk('/upload', chunk, 0, 1, cancelToken, undefined, undefined, undefined, 2, 0);
+            await manager.uploadChunk(
+                '/upload',
+                chunk,
+                0,
+                1,
+                undefined,
+                undefined,
+                undefined,
+                2,
+                0,
+            );
             expect(post).toHaveBeenCalledTimes(2);
         });
+
+        // 分片上传由测试手动完成，signal 中止时以取消错误拒绝
+        const createTaskManager = (options: any = {}) => {
+            const manager = new UploadManager({} as any, new GlobalConcurrencyController(10), {
+                recordStore: false,
+                ...options,
+            });
+            const pending: { index: number; finish: () => void }[] = [];
+            vi.spyOn(manager, 'calculateFileMd5').mockResolvedValue('file-md5');
+            const uploadChunk = vi.spyOn(manager, 'uploadChunk').mockImplementation(
+                (_url, _chunk, index, _total, _md5, _chunkMd5, onChunkProgress, ...rest) =>
+                    new Promise<void>((resolve, reject) => {
+                        const signal = rest[3] as AbortSignal;
+                        signal.addEventListener('abort', () => reject(new axios.CanceledError()));
+                        pending.push({
+                            index,
+                            finish: () => {
+                                onChunkProgress?.(10, 10);
+                                resolve();
+                            },
+                        });
+                    }),
+            );
+            const flush = () => new Promise((r) => setTimeout(r, 0));
+            return { manager, pending, uploadChunk, flush };
+        };
+        const createFile = (name: string, size: number) =>
+            new File([new Uint8Array(size)], name, { lastModified: 1 });
+
+        it('should queue files and start the next one when a slot frees up', async () => {
+            const { manager, pending, flush } = createTaskManager({ maxConcurrentFiles: 1 });
+            const [first, second] = manager.uploadFiles('/upload', [
+                createFile('a.txt', 10),
+                createFile('b.txt', 10),
+            ]);
+            await flush();
+            expect(first.status).toBe('uploading');
+            expect(second.status).toBe('queued');
+
+            pending.shift()!.finish();
+            await expect(first.promise).resolves.toEqual({ fileMd5: 'file-md5', totalChunks: 1 });
+            expect(first.status).toBe('done');
+            await flush();
+            expect(second.status).toBe('uploading');
+            expect(manager.getProgress()).toMatchObject({ loaded: 10, total: 20, percent: 50 });
+        });
+
+        it('should pause in-flight chunks and resume only the remaining ones', async () => {
+            const { manager, pending, uploadChunk, flush } = createTaskManager();
+            const statuses: string[] = [];
+            const task = manager.createTask('/upload', createFile('big.bin', CHUNK_SIZE + 10), {
+                onStatusChange: (status) => statuses.push(status),
+            });
+            await flush();
+            expect(pending.map((p) => p.index)).toEqual([0, 1]);
+            pending.shift()!.finish();
+            await flush();
+            expect(task.getProgress()).toMatchObject({ finishedChunks: 1, totalChunks: 2 });
+
+            task.pause();
+            await flush();
+            expect(task.status).toBe('paused');
+
+            task.resume();
+            await flush();
+            expect(uploadChunk).toHaveBeenCalledTimes(3);
+            expect(uploadChunk.mock.calls[2][2]).toBe(1);
+            pending[pending.length - 1].finish();
+            await task.promise;
+            expect(statuses).toEqual([
+                'hashing',
+                'uploading',
+                'paused',
+                'queued',
+                'hashing',
+                'uploading',
+                'done',
+            ]);
+            expect(task.getProgress()).toMatchObject({ percent: 100, eta: 0 });
+        });
+
+        it('should cancel tasks and reject with a cancel error', async () => {
+            const { manager, flush } = createTaskManager();
+            const controller = new AbortController();
+            const task = manager.createTask('/upload', createFile('a.txt', 10), {
+                signal: controller.signal,
+            });
+            await flush();
+            controller.abort();
+            await expect(task.promise).rejects.toSatisfy(axios.isCancel);
+            expect(task.status).toBe('canceled');
+        });
+
+        it('should resume from a local record after reload without rehashing', async () => {
+            const records = new Map<string, UploadRecord>();
+            const recordStore = {
+                get: (key: string) => records.get(key) || null,
+                set: (key: string, record: UploadRecord) => void records.set(key, record),
+                delete: (key: string) => void records.delete(key),
+                keys: () => [...records.keys()],
+            };
+            const file = createFile('big.bin', CHUNK_SIZE * 2 + 10);
+            const key = getUploadRecordKey('/upload', file);
+            records.set(key, {
+                key,
+                url: '/upload',
+                fileName: file.name,
+                fileSize: file.size,
+                lastModified: file.lastModified,
+                fileMd5: 'saved-md5',
+                chunkSize: CHUNK_SIZE,
+                totalChunks: 3,
+                uploaded: [0],
+                updatedAt: 0,
+            });
+            const { manager, pending, flush } = createTaskManager({ recordStore });
+            await expect(manager.getUnfinishedUploads()).resolves.toHaveLength(1);
+
+            const task = manager.createTask('/upload', file, { enableResume: true });
+            await flush();
+            expect(manager.calculateFileMd5).not.toHaveBeenCalled();
+            expect(pending.map((p) => p.index)).toEqual([1, 2]);
+
+            pending.shift()!.finish();
+            await flush();
+            expect(records.get(key)!.uploaded).toEqual([0, 1]);
+
+            pending.shift()!.finish();
+            await expect(task.promise).resolves.toEqual({ fileMd5: 'saved-md5', totalChunks: 3 });
+            expect(records.size).toBe(0);
+        });
+
+        // 使用 MockAdapter 模拟上传服务端
+        const createProtocolManager = (mock: MockAdapter, protocol: any) => {
+            const manager = new UploadManager(
+                axios.create({ adapter: mock.adapter }),
+                new GlobalConcurrencyController(4),
+                { recordStore: false, protocol },
+            );
+            vi.spyOn(manager, 'calculateFileMd5').mockResolvedValue('file-md5');
+            return manager;
+        };
+
+        it('should upload with the tus protocol sequentially from the server offset', async () => {
+            const mock = new MockAdapter();
+            const patches: string[] = [];
+            const creations: string[] = [];
+            mock.on('post', '/files', (config) => {
+                creations.push(
+                    `${config.headers['Upload-Length']} ${config.headers['Upload-Metadata']}`,
+                );
+                return { status: 201, headers: { location: '/files/abc' } };
+            });
+            // 服务端已收到第一个分片的一部分
+            mock.on('head', '/files/abc', { headers: { 'upload-offset': '4' } });
+            mock.on('patch', '/files/abc', (config) => {
+                const offset = Number(config.headers['Upload-Offset']);
+                patches.push(`${offset}+${config.data.size}`);
+                return {
+                    status: 204,
+                    headers: { 'upload-offset': String(offset + config.data.size) },
+                };
+            });
+            const manager = createProtocolManager(mock, new TusUploadProtocol());
+
+            const result = await manager.uploadFile('/files', createFile('a.bin', CHUNK_SIZE + 10));
+            // filename 为 'a.bin' 的 Base64
+            expect(creations).toEqual([`${CHUNK_SIZE + 10} filename YS5iaW4=,filetype`]);
+            expect(patches).toEqual([`4+${CHUNK_SIZE - 4}`, `${CHUNK_SIZE}+10`]);
+            expect(result.response).toEqual({ uploadUrl: '/files/abc' });
+        });
+
+        it('should upload S3 multipart parts with presigned URLs and complete with ETags', async () => {
+            const mock = new MockAdapter();
+            mock.on('put', 'https://s3.test/bucket/slow.bin', {}, { delay: 1000 });
+            mock.on('put', 'https://s3.test/bucket/*', (config) => ({
+                headers: { etag: `"${new URL(config.url!).searchParams.get('partNumber')}"` },
+            }));
+            const complete = vi.fn(async () => ({ location: 'https://s3.test/bucket/key' }));
+            const abort = vi.fn(async () => undefined);
+            const protocol = new S3MultipartUploadProtocol({
+                initiate: async (ctx) => ({ uploadId: 'u1', key: ctx.file.name }),
+                signPart: async (session, partNumber) =>
+                    `https://s3.test/bucket/${session.key}?uploadId=${session.uploadId}&partNumber=${partNumber}`,
+                complete,
+                abort,
+                client: axios.create({ adapter: mock.adapter }),
+            });
+            const manager = createProtocolManager(new MockAdapter(), protocol);
+
+            const result = await manager.uploadFile(
+                '/upload',
+                createFile('a.bin', CHUNK_SIZE * 2 + 10),
+            );
+            expect(complete).toHaveBeenCalledWith(
+                expect.objectContaining({ uploadId: 'u1' }),
+                [
+                    { PartNumber: 1, ETag: '"1"' },
+                    { PartNumber: 2, ETag: '"2"' },
+                    { PartNumber: 3, ETag: '"3"' },
+                ],
+                expect.anything(),
+            );
+            expect(result.response).toEqual({ location: 'https://s3.test/bucket/key' });
+
+            // 取消时中止服务端的分片上传
+            const task = manager.createTask('/upload', createFile('slow.bin', 10));
+            while (task.status !== 'uploading') await new Promise((r) => setTimeout(r, 0));
+            task.cancel();
+            await expect(task.promise).rejects.toSatisfy(axios.isCancel);
+            expect(abort).toHaveBeenCalledWith(
+                expect.objectContaining({ uploadId: 'u1' }),
+                expect.anything(),
+            );
+        });
+
+        it('should skip files the server already has and dedup existing chunks', async () => {
+            const mock = new MockAdapter();
+            const uploads: string[] = [];
+            mock.on('get', '/upload/check', (config) => ({
+                data: { exists: config.params.fileName === 'same.bin', url: '/files/same.bin' },
+            }));
+            // 服务端已有第一个分片
+            mock.on('get', '/upload/verify', (config) => ({
+                data: { exists: config.params.chunkIndex === 0 },
+            }));
+            mock.on('post', '/upload', (config) => {
+                uploads.push(config.data.get('chunkIndex'));
+                return {};
+            });
+            mock.on('post', '/upload/merge', (config) => ({
+                data: { url: '/files/new.bin', ...JSON.parse(config.data) },
+            }));
+            const manager = createProtocolManager(mock, undefined);
+            const options = {
+                checkFileUrl: '/upload/check',
+                verifyChunkUrl: '/upload/verify',
+                mergeUrl: '/upload/merge',
+            };
+
+            const task = manager.createTask('/upload', createFile('same.bin', 10), options);
+            await expect(task.promise).resolves.toEqual({
+                fileMd5: 'file-md5',
+                totalChunks: 1,
+                response: { exists: true, url: '/files/same.bin' },
+                instant: true,
+            });
+            expect(task.getProgress().percent).toBe(100);
+            expect(uploads).toEqual([]);
+
+            const result = await manager.uploadFile(
+                '/upload',
+                createFile('new.bin', CHUNK_SIZE + 10),
+                options,
+            );
+            expect(uploads).toEqual(['1']);
+            expect(result.response).toEqual({
+                url: '/files/new.bin',
+                fileMd5: 'file-md5',
+                fileName: 'new.bin',
+                fileSize: CHUNK_SIZE + 10,
+                totalChunks: 2,
+            });
+        });
+
+        it('should stop listening to the abort signal once the upload is done', async () => {
+            const mock = new MockAdapter();
+            mock.on('post', '/upload', {});
+            const manager = createProtocolManager(mock, undefined);
+            const { signal } = new AbortController();
+            const add = vi.spyOn(signal, 'addEventListener');
+            const remove = vi.spyOn(signal, 'removeEventListener');
+            await manager.uploadFile('/upload', createFile('a.txt', 10), { signal });
+            const listener = add.mock.calls.find(([type]) => type === 'abort')![1];
+            expect(remove).toHaveBeenCalledWith('abort', listener);
+        });
+
+        it('should not read more chunks than the concurrency limit at once', async () => {
+            const mock = new MockAdapter();
+            mock.on('get', '/upload/verify', { data: { exists: false } });
+            mock.on('post', '/upload', {});
+            const manager = new UploadManager(
+                axios.create({ adapter: mock.adapter }),
+                new GlobalConcurrencyController(2),
+                { recordStore: false },
+            );
+            vi.spyOn(manager, 'calculateFileMd5').mockResolvedValue('file-md5');
+            let hashing = 0;
+            let maxHashing = 0;
+            vi.spyOn(manager, 'calculateChunkMd5').mockImplementation(async () => {
+                maxHashing = Math.max(maxHashing, ++hashing);
+                await Promise.resolve();
+                hashing--;
+                return 'chunk-md5';
+            });
+
+            const result = await manager.uploadFile('/upload', createFile('big.bin', 10), {
+                chunkSize: 1,
+                verifyChunkUrl: '/upload/verify',
+            });
+            expect(result.totalChunks).toBe(10);
+            expect(manager.calculateChunkMd5).toHaveBeenCalledTimes(10);
+            expect(maxHashing).toBe(2);
+        });
+
+        it('should size chunks adaptively from the measured throughput', async () => {
+            const MB = 1024 * 1024;
+            let now = 0;
+            const dateNow = vi.spyOn(Date, 'now').mockImplementation(() => now);
+            const sizes: number[] = [];
+            const protocol = {
+                name: 'fake',
+                init: async () => ({}),
+                uploadChunk: async (_ctx: any, _session: any, chunk: any) => {
+                    // 每个分片耗时 100ms，即 10MB/s
+                    now += 100;
+                    sizes.push((chunk.end - chunk.start) / MB);
+                },
+            };
+            const manager = createProtocolManager(new MockAdapter(), protocol);
+            try {
+                const result = await manager.uploadFile('/upload', createFile('a.bin', 10 * MB), {
+                    chunkSize: MB,
+                    adaptiveChunkSize: { max: 4 * MB, targetDuration: 1000, concurrency: 1 },
+                    hashAlgorithm: 'none',
+                });
+                expect(sizes).toEqual([1, 4, 4, 1]);
+                expect(result).toEqual({ fileMd5: '', totalChunks: 4, response: undefined });
+                expect(manager.calculateFileMd5).not.toHaveBeenCalled();
+            } finally {
+                dateNow.mockRestore();
+            }
+        });
+
+        it('should compute sampled and SHA file hashes in the worker', async () => {
+            expect(getHashSampleRanges(1000)).toBeNull();
+            expect(getHashSampleRanges(1000, { sampleSize: 10, threshold: 2000 })).toBeNull();
+            expect(getHashSampleRanges(1000, { sampleSize: 10, threshold: 100 })).toEqual([
+                [0, 10],
+                [495, 505],
+                [990, 1000],
+            ]);
+
+            const messages: any[] = [];
+            vi.stubGlobal(
+                'Worker',
+                class {
+                    onmessage: ((e: any) => void) | null = null;
+                    postMessage(data: any) {
+                        messages.push(data);
+                        setTimeout(() => this.onmessage?.({ data: { result: 'hash' } }), 0);
+                    }
+                    terminate() {}
+                },
+            );
+            try {
+                const manager = new UploadManager({} as any, new GlobalConcurrencyController(1), {
+                    recordStore: false,
+                });
+                const file = createFile('a.bin', 1000);
+                await expect(
+                    manager.calculateFileHash(file, {
+                        algorithm: 'sha256',
+                        sample: { sampleSize: 10, threshold: 100 },
+                    }),
+                ).resolves.toBe('hash');
+                await expect(manager.calculateFileHash(file)).resolves.toBe('hash');
+                await expect(manager.calculateFileHash(file, { algorithm: 'none' })).resolves.toBe(
+                    '',
+                );
+                expect(messages).toEqual([
+                    {
+                        file,
+                        chunkSize: CHUNK_SIZE,
+                        algorithm: 'sha256',
+                        ranges: [
+                            [0, 10],
+                            [495, 505],
+                            [990, 1000],
+                        ],
+                    },
+                    { file, chunkSize: CHUNK_SIZE },
+                ]);
+            } finally {
+                vi.unstubAllGlobals();
+            }
+        });
+    });
+    describe('ShaHasher', () => {
+        it('should match one-shot SHA-1 / SHA-256 digests when fed in arbitrary chunks', () => {
+            const data = new Uint8Array(10000).map((_, i) => (i * 31) % 256);
+            (['sha1', 'sha256'] as const).forEach((algorithm) => {
+                [0, 55, 56, 64, 10000].forEach((length) => {
+                    const input = data.subarray(0, length);
+                    const expected = createHash(algorithm).update(input).digest('hex');
+                    [1, 63, 65, 4096].forEach((step) => {
+                        const hasher = new ShaHasher(algorithm);
+                        for (let i = 0; i < length; i += step) {
+                            hasher.append(input.subarray(i, i + step));
+                        }
+                        expect(hasher.end()).toBe(expected);
+                    });
+                });
+            });
+        });
+    });
+    describe('DownloadManager', () => {
+        const bytes = new Uint8Array(Array.from({ length: 10 }, (_, i) => i));
+        const md5 = SparkMD5.ArrayBuffer.hash(bytes.buffer);
+
+        // 文件服务，hold 为 true 时分片响应由测试手动放行，range 为 false 时忽略 Range 返回完整文件
+        const createServer = (options: { etag?: string; hold?: boolean; range?: boolean } = {}) => {
+            const mock = new MockAdapter();
+            const ranges: string[] = [];
+            const held: (() => void)[] = [];
+            mock.on('get', '/file', async (config) => {
+                const range = config.headers.Range as string | undefined;
+                ranges.push(`${range || 'full'} ${config.headers['If-Range'] || ''}`.trim());
+                if (options.hold && range !== 'bytes=0-3') {
+                    await new Promise<void>((resolve) => held.push(resolve));
+                }
+                const headers = {
+                    etag: options.etag || '"v1"',
+                    'content-type': 'application/octet-stream',
+                    'content-disposition': 'attachment; filename="report.bin"',
+                };
+                const match = range && /bytes=(\d+)-(\d+)/.exec(range);
+                if (
+                    !match ||
+                    options.range === false ||
+                    (config.headers['If-Range'] && config.headers['If-Range'] !== '"v1"')
+                ) {
+                    return { status: 200, headers, data: bytes.slice().buffer };
+                }
+                const [start, end] = [Number(match[1]), Math.min(Number(match[2]), 9)];
+                return {
+                    status: 206,
+                    headers: { ...headers, 'content-range': `bytes ${start}-${end}/10` },
+                    data: bytes.slice(start, end + 1).buffer,
+                };
+            });
+            const manager = new DownloadManager(
+                axios.create({ adapter: mock.adapter }),
+                new GlobalConcurrencyController(4),
+            );
+            return { manager, ranges, held };
+        };
+
+        it('should download ranged chunks in parallel and verify the hash', async () => {
+            const { manager, ranges } = createServer();
+            const progress = vi.fn();
+            const result = await manager.download('/file', {
+                chunkSize: 4,
+                expectedHash: md5,
+                onProgress: progress,
+            });
+            expect(ranges).toEqual(['bytes=0-3', 'bytes=4-7 "v1"', 'bytes=8-9 "v1"']);
+            expect(result).toMatchObject({
+                filename: 'report.bin',
+                size: 10,
+                type: 'application/octet-stream',
+                hash: md5,
+            });
+            expect(result.blob!.size).toBe(10);
+            expect(progress).toHaveBeenLastCalledWith(
+                expect.objectContaining({ loaded: 10, total: 10, percent: 100 }),
+                expect.anything(),
+            );
+
+            await expect(
+                manager.download('/file', { chunkSize: 4, expectedHash: 'bad' }),
+            ).rejects.toThrow('integrity');
+        });
+
+        it('should pause, resume only missing chunks and stream them in order', async () => {
+            const { manager, ranges, held } = createServer({ hold: true });
+            const task = manager.createTask('/file', { chunkSize: 4, output: 'stream' });
+            const reader = task.stream!.getReader();
+            await expect(reader.read()).resolves.toEqual({
+                done: false,
+                value: bytes.slice(0, 4),
+            });
+            while (held.length < 2) await new Promise((r) => setTimeout(r, 0));
+
+            task.pause();
+            expect(task.status).toBe('paused');
+            held.splice(0).forEach((release) => release());
+            expect(task.getProgress().loaded).toBe(4);
+
+            task.resume();
+            while (held.length < 2) await new Promise((r) => setTimeout(r, 0));
+            held.splice(0).forEach((release) => release());
+            const rest: number[] = [];
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                rest.push(...chunk.value);
+            }
+            expect(rest).toEqual([4, 5, 6, 7, 8, 9]);
+            await expect(task.promise).resolves.toMatchObject({ size: 10, blob: undefined });
+            expect(ranges.slice(3)).toEqual(['bytes=4-7 "v1"', 'bytes=8-9 "v1"']);
+        });
+
+        it('should treat the full response as a single chunk without Range support', async () => {
+            const { manager, ranges } = createServer({ range: false });
+            const progress = vi.fn();
+            const result = await manager.download('/file', {
+                chunkSize: 4,
+                expectedHash: md5,
+                onProgress: progress,
+            });
+            expect(ranges).toEqual(['bytes=0-3']);
+            expect(result).toMatchObject({ size: 10, hash: md5 });
+            expect(new Uint8Array(await result.blob!.arrayBuffer())).toEqual(bytes);
+            expect(progress).toHaveBeenLastCalledWith(
+                expect.objectContaining({ loaded: 10, total: 10, percent: 100 }),
+                expect.anything(),
+            );
+        });
+
+        it('should verify SHA-256 chunk by chunk while streaming', async () => {
+            const { manager } = createServer();
+            const sha256 = createHash('sha256').update(bytes).digest('hex');
+            const task = manager.createTask('/file', {
+                chunkSize: 4,
+                output: 'stream',
+                expectedHash: sha256,
+                hashAlgorithm: 'sha256',
+            });
+            const received: number[] = [];
+            const reader = task.stream!.getReader();
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                received.push(...chunk.value);
+            }
+            expect(received).toEqual(Array.from(bytes));
+            await expect(task.promise).resolves.toMatchObject({ hash: sha256 });
+        });
+
+        it('should verify SHA-1 with SubtleCrypto once the blob is complete', async () => {
+            const { manager } = createServer();
+            const sha1 = createHash('sha1').update(bytes).digest('hex');
+            const digest = vi.spyOn(crypto.subtle, 'digest');
+            try {
+                const result = await manager.download('/file', {
+                    chunkSize: 4,
+                    expectedHash: sha1,
+                    hashAlgorithm: 'sha1',
+                });
+                expect(result).toMatchObject({ size: 10, hash: sha1 });
+                expect(digest).toHaveBeenCalledTimes(1);
+                expect(digest.mock.calls[0][0]).toBe('SHA-1');
+            } finally {
+                digest.mockRestore();
+            }
+        });
+
+        it('should stop listening to the abort signal once the task settles', async () => {
+            const { manager } = createServer();
+            const { signal } = new AbortController();
+            const add = vi.spyOn(signal, 'addEventListener');
+            const remove = vi.spyOn(signal, 'removeEventListener');
+            await manager.download('/file', { chunkSize: 4, signal });
+            expect(add).toHaveBeenCalled();
+            add.mock.calls.forEach(([type, listener]) =>
+                expect(remove).toHaveBeenCalledWith(type, listener),
+            );
+        });
+
+        it('should fail when the file changes between chunks', async () => {
+            const { manager } = createServer({ etag: '"v2"' });
+            const task = manager.createTask('/file', { chunkSize: 4, retryTimes: 0 });
+            await expect(task.promise).rejects.toThrow('changed');
+            expect(task.status).toBe('failed');
+        });
+    });
+
+    describe('MetricsCollector', () => {
+        it('should aggregate latency percentiles, error rate and cache hit ratio', () => {
+            const emitter = new LifecycleEmitter();
+            const collector = new MetricsCollector(emitter, { maxSamples: 100 });
+            const users = { method: 'get', url: '/users?page=1' };
+            for (let i = 1; i <= 100; i++) {
+                emitter.emit('response', { config: users, response: {} as any, duration: i });
+            }
+            emitter.emit('error', {
+                config: { method: 'post', url: '/users' },
+                error: {},
+                duration: 5,
+            });
+            emitter.emit('cache', { config: users, status: 'hit' });
+            emitter.emit('cache', { config: users, status: 'stale' });
+            emitter.emit('cache', { config: users, status: 'miss' });
+            emitter.emit('cache', { config: users, status: 'revalidated' });
+            emitter.emit('queue', { config: users, waitTime: 30 });
+            emitter.emit('queue', { config: users, waitTime: 10 });
+
+            const snapshot = collector.snapshot();
+            expect(snapshot.endpoints['GET /users']).toMatchObject({
+                count: 100,
+                errors: 0,
+                cacheHits: 2,
+                cacheMisses: 1,
+                averageQueueWait: 20,
+                latency: { min: 1, max: 100, p50: 50, p90: 90, p95: 95, p99: 99 },
+            });
+            expect(snapshot.endpoints['GET /users'].cacheHitRatio).toBeCloseTo(2 / 3);
+            expect(snapshot.endpoints['POST /users']).toMatchObject({ count: 1, errorRate: 1 });
+            expect(snapshot.total).toMatchObject({ count: 101, errors: 1 });
+            expect(snapshot.total.errorRate).toBeCloseTo(1 / 101);
+
+            // 超过 maxSamples 时丢弃最旧的样本
+            emitter.emit('response', { config: users, response: {} as any, duration: 1000 });
+            expect(collector.snapshot().endpoints['GET /users'].latency.min).toBe(2);
+
+            collector.reset();
+            expect(collector.snapshot().endpoints).toEqual({});
+            collector.dispose();
+            emitter.emit('response', { config: users, response: {} as any, duration: 1 });
+            expect(collector.snapshot().total.count).toBe(0);
+        });
+    });
+
+    describe('AxiosWrapper request policy', () => {
+        const createWrapper = (options: any, handler?: (config: any) => any) => {
+            const adapter = vi.fn(async (config: any) => {
+                const data = handler ? handler(config) : { url: config.url };
+                return { data, status: 200, statusText: 'OK', headers: {}, config };
+            });
+            const wrapper = new AxiosWrapper({ adapter } as any, options);
+            return { wrapper, adapter };
+        };
+
+        it('should serve cached responses when cache is enabled per request', async () => {
+            const { wrapper, adapter } = createWrapper({});
+            const first = await wrapper.get('/users', undefined, {
+                policy: { cache: { ttl: 1000 } },
+            });
+            const second = await wrapper.get('/users', undefined, { policy: { cache: {} } });
+            expect(second.data).toEqual(first.data);
+            expect(adapter).toHaveBeenCalledTimes(1);
+
+            // 未声明策略时沿用实例配置（未开启缓存）
+            await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(2);
+        });
+
+        it('should skip the cache when a request opts out or bypasses it', async () => {
+            const { wrapper, adapter } = createWrapper({ enableCache: true, cacheTTL: 1000 });
+            await wrapper.get('/users');
+            await wrapper.get('/users', undefined, { policy: { cache: false } });
+            expect(adapter).toHaveBeenCalledTimes(2);
+
+            await wrapper.get('/users', undefined, { policy: { cache: { bypass: true } } });
+            expect(adapter).toHaveBeenCalledTimes(3);
+            await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(3);
+        });
+
+        it('should deduplicate identical concurrent GET requests', async () => {
+            const { wrapper, adapter } = createWrapper({ enableDedupe: true });
+            const [a, b] = await Promise.all([wrapper.get('/users'), wrapper.get('/users')]);
+            expect(a).toBe(b);
+            expect(adapter).toHaveBeenCalledTimes(1);
+
+            await Promise.all([wrapper.post('/users', { a: 1 }), wrapper.post('/users', { a: 1 })]);
+            expect(adapter).toHaveBeenCalledTimes(3);
+        });
+
+        it('should serve stale data and revalidate in the background', async () => {
+            let version = 0;
+            let revalidated!: () => void;
+            const done = new Promise<void>((r) => (revalidated = r));
+            const onCacheRevalidated = vi.fn<[AxiosResponse], void>(() => revalidated());
+            const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+            const { wrapper, adapter } = createWrapper(
+                {
+                    enableCache: true,
+                    cacheTTL: 100,
+                    staleWhileRevalidate: true,
+                    onCacheRevalidated,
+                },
+                () => ({ version: ++version }),
+            );
+
+            expect((await wrapper.get('/profile')).data).toEqual({ version: 1 });
+            now.mockReturnValue(200);
+            const stale = await wrapper.get('/profile');
+            expect(stale.data).toEqual({ version: 1 });
+            expect((stale as any).__stale).toBe(true);
+
+            await done;
+            expect(onCacheRevalidated.mock.calls[0][0].data).toEqual({ version: 2 });
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect((await wrapper.get('/profile')).data).toEqual({ version: 2 });
+            now.mockRestore();
+        });
+
+        it('should use per-request retry count and delay', async () => {
+            let attempts = 0;
+            const adapter = vi.fn(async (config: any) => {
+                attempts++;
+                return Promise.reject(
+                    Object.assign(new Error('server error'), {
+                        config,
+                        isAxiosError: true,
+                        response: { status: 500, data: null, headers: {}, config },
+                    }),
+                );
+            });
+            const wrapper = new AxiosWrapper({ adapter } as any, { enableRetry: false });
+            await expect(
+                wrapper.get('/flaky', undefined, { policy: { retry: { times: 2, delay: 0 } } }),
+            ).rejects.toThrow('server error');
+            expect(attempts).toBe(3);
+        });
+
+        const createFailingWrapper = (status: number, options: any, headers: any = {}) => {
+            const adapter = vi.fn(async (config: any) =>
+                Promise.reject(
+                    Object.assign(new Error(`status ${status}`), {
+                        config,
+                        isAxiosError: true,
+                        response: { status, data: null, headers, config },
+                    }),
+                ),
+            );
+            return { adapter, wrapper: new AxiosWrapper({ adapter } as any, options) };
+        };
+
+        it('should not retry non-idempotent methods or 4xx responses by default', async () => {
+            const options = { enableRetry: true, retryTimes: 2, retryDelay: 0 };
+            const post = createFailingWrapper(500, options);
+            await expect(post.wrapper.post('/orders', { a: 1 })).rejects.toThrow('status 500');
+            expect(post.adapter).toHaveBeenCalledTimes(1);
+
+            const notFound = createFailingWrapper(404, options);
+            await expect(notFound.wrapper.get('/missing')).rejects.toThrow('status 404');
+            expect(notFound.adapter).toHaveBeenCalledTimes(1);
+        });
+
+        it('should honor shouldRetry, methods and report each retry', async () => {
+            const onRetry = vi.fn();
+            const shouldRetry = vi.fn((_err: any, attempt: number) => attempt < 2);
+            const { wrapper, adapter } = createFailingWrapper(400, {
+                enableRetry: true,
+                retryPolicy: { times: 5, delay: 0, methods: ['post'], shouldRetry, onRetry },
+            });
+            await expect(wrapper.post('/orders', { a: 1 })).rejects.toThrow('status 400');
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(onRetry).toHaveBeenCalledTimes(1);
+            expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+            expect(shouldRetry).toHaveBeenLastCalledWith(expect.any(Error), 2);
+        });
+
+        it('should wait for Retry-After before retrying', async () => {
+            const onRetry = vi.fn();
+            const { wrapper, adapter } = createFailingWrapper(
+                429,
+                { enableRetry: true, retryPolicy: { times: 1, delay: 5000, onRetry } },
+                { 'retry-after': '0' },
+            );
+            await expect(wrapper.get('/limited')).rejects.toThrow('status 429');
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+        });
+
+        it('should re-queue retries under a per-host limit without deadlocking', async () => {
+            const wrapper = new AxiosWrapper(
+                { baseURL: 'https://cdn.example.com' },
+                {
+                    mock: true,
+                    maxConcurrentPerHost: 1,
+                    enableRetry: true,
+                    retryTimes: 1,
+                    retryDelay: 0,
+                },
+            );
+            const reply = vi
+                .fn()
+                .mockReturnValueOnce({ status: 503 })
+                .mockReturnValue({ data: 'ok' });
+            wrapper.getMockAdapter()!.on('get', '/asset', reply);
+
+            const [first, second] = await Promise.all([
+                wrapper.get<string>('/asset'),
+                wrapper.get<string>('/asset', { v: 2 }),
+            ]);
+            expect([first.data, second.data]).toEqual(['ok', 'ok']);
+            expect(reply).toHaveBeenCalledTimes(3);
+            expect(wrapper.getQueueStats()).toMatchObject({ active: 0, queued: 0 });
+        });
+
+        it('should release the slot while waiting for Retry-After', async () => {
+            vi.useFakeTimers();
+            const wrapper = new AxiosWrapper(
+                { baseURL: 'https://cdn.example.com' },
+                {
+                    mock: true,
+                    maxConcurrentPerHost: 1,
+                    enableRetry: true,
+                    retryPolicy: { times: 1, maxDelay: 60000 },
+                },
+            );
+            const mock = wrapper.getMockAdapter()!;
+            mock.on(
+                'get',
+                '/flaky',
+                { status: 503, headers: { 'retry-after': '60' } },
+                { times: 1 },
+            );
+            mock.on('get', '/flaky', { data: 'flaky' });
+            mock.on('get', '/other', { data: 'other' });
+            const onRequest = vi.fn();
+            wrapper.on('request', onRequest);
+
+            let flaky: string | undefined;
+            const pending = wrapper.get<string>('/flaky').then((res) => (flaky = res.data));
+            await vi.advanceTimersByTimeAsync(10);
+            expect(wrapper.getQueueStats()).toMatchObject({ active: 0, queued: 0 });
+
+            // 等待重试期间同一 host 的其他请求不受影响
+            const other = wrapper.get<string>('/other', undefined, { priority: 'high' });
+            await vi.advanceTimersByTimeAsync(10);
+            expect((await other).data).toBe('other');
+            expect(flaky).toBeUndefined();
+
+            await vi.advanceTimersByTimeAsync(60000);
+            await pending;
+            expect(flaky).toBe('flaky');
+            expect(onRequest).toHaveBeenCalledTimes(2);
+            vi.useRealTimers();
+        });
+
+        it('should invalidate cached responses after mutating requests', async () => {
+            const { wrapper, adapter } = createWrapper({
+                enableCache: true,
+                cacheInvalidationRules: [{ url: '/users', urls: ['/users*'] }],
+            });
+            await wrapper.get('/users');
+            await wrapper.get('/users/1');
+            await wrapper.get('/profile', undefined, { policy: { cache: { tags: ['me'] } } });
+            expect(adapter).toHaveBeenCalledTimes(3);
+
+            // 规则只匹配修改类方法
+            await wrapper.get('/users', undefined, { policy: { cache: { bypass: true } } });
+            await wrapper.get('/users/1');
+            expect(adapter).toHaveBeenCalledTimes(4);
+
+            await wrapper.post('/users', { name: 'lania' });
+            await wrapper.get('/users');
+            await wrapper.get('/users/1');
+            expect(adapter).toHaveBeenCalledTimes(7);
+
+            // 单次请求声明的失效目标
+            await wrapper.put('/settings', {}, { policy: { invalidate: { tags: ['me'] } } });
+            await wrapper.get('/profile', undefined, { policy: { cache: { tags: ['me'] } } });
+            expect(adapter).toHaveBeenCalledTimes(9);
+
+            expect(wrapper.invalidate('/users*')).toBe(2);
+            expect(wrapper.invalidateTags('me')).toBe(1);
+        });
+
+        it('should schedule requests by priority while the queue is paused', async () => {
+            const { wrapper, adapter } = createWrapper({ maxConcurrent: 1 });
+            wrapper.pauseQueue();
+            const requests = [
+                wrapper.get('/poll', undefined, { priority: 'low' }),
+                wrapper.get('/users'),
+                wrapper.get('/me', undefined, { priority: 'high' }),
+            ];
+            await Promise.resolve();
+            expect(wrapper.getQueueStats()).toMatchObject({ queued: 3, paused: true });
+
+            wrapper.resumeQueue();
+            await Promise.all(requests);
+            expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+                '/me',
+                '/users',
+                '/poll',
+            ]);
+            expect(wrapper.getQueueStats()).toMatchObject({ completed: 3, activeByKey: {} });
+        });
+
+        it('should cancel queued requests by signal, id and group', async () => {
+            const adapter = vi.fn(
+                (config: any) =>
+                    new Promise((resolve, reject) => {
+                        const timer = setTimeout(
+                            () => resolve({ data: null, status: 200, headers: {}, config }),
+                            50,
+                        );
+                        config.signal?.addEventListener('abort', () => {
+                            clearTimeout(timer);
+                            reject(new axios.CanceledError('aborted'));
+                        });
+                    }),
+            );
+            const wrapper = new AxiosWrapper({ adapter } as any, { maxConcurrent: 1 });
+            const running = wrapper.get('/running', undefined, { cancelGroup: 'page-x' });
+            const external = new AbortController();
+            const requests = [
+                wrapper.get('/signal', undefined, { signal: external.signal }),
+                wrapper.get('/id', undefined, { cancelTokenId: 'detail' }),
+                wrapper.get('/group', undefined, { cancelGroup: 'page-x' }),
+            ].map((p) => p.catch((e) => e));
+            // 等待第一个请求经过拦截器到达适配器
+            while (!adapter.mock.calls.length) await new Promise((r) => setTimeout(r, 0));
+            expect(wrapper.getQueueStats().queued).toBe(3);
+
+            external.abort();
+            wrapper.cancelRequest('detail');
+            wrapper.cancelGroup('page-x');
+            const errors = await Promise.all([running.catch((e) => e), ...requests]);
+            expect(errors.every((err) => axios.isCancel(err))).toBe(true);
+            // 只有已开始的请求到达了适配器
+            expect(adapter).toHaveBeenCalledTimes(1);
+            expect(wrapper.getQueueStats()).toMatchObject({ active: 0, queued: 0 });
+        });
+
+        it('should emit lifecycle events and collect metrics', async () => {
+            const { wrapper } = createWrapper({ enableCache: true, enableMetrics: true });
+            const events: string[] = [];
+            const listener = vi.fn();
+            (['request', 'queue', 'response', 'cache'] as const).forEach((event) =>
+                wrapper.on(event, (payload: any) =>
+                    events.push(payload.status ? `${event}:${payload.status}` : event),
+                ),
+            );
+            const off = wrapper.on('response', listener);
+
+            await wrapper.get('/users');
+            await wrapper.get('/users');
+            expect(events).toEqual([
+                'request',
+                'queue',
+                'cache:miss',
+                'response',
+                'request',
+                'queue',
+                'cache:hit',
+                'response',
+            ]);
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({ duration: expect.any(Number) }),
+            );
+            off();
+            await wrapper.get('/users');
+            expect(listener).toHaveBeenCalledTimes(2);
+
+            expect(wrapper.getMetrics()?.endpoints['GET /users']).toMatchObject({
+                count: 3,
+                cacheHits: 2,
+                cacheMisses: 1,
+            });
+            expect(createWrapper({}).wrapper.getMetrics()).toBeNull();
+        });
+
+        it('should report retries, errors and debounce cancellations', async () => {
+            const onError = vi.fn();
+            const failing = createFailingWrapper(503, {
+                enableRetry: true,
+                retryPolicy: { times: 1, delay: 0 },
+                enableMetrics: true,
+            });
+            const retry = vi.fn();
+            const error = vi.fn();
+            failing.wrapper.on('retry', retry);
+            failing.wrapper.on('error', error);
+            await expect(failing.wrapper.get('/flaky')).rejects.toThrow('status 503');
+            expect(retry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 0 }));
+            expect(error).toHaveBeenCalledTimes(1);
+            expect(failing.wrapper.getMetrics()?.total).toMatchObject({
+                count: 1,
+                errors: 1,
+                retries: 1,
+            });
+
+            const { wrapper } = createWrapper({
+                enableDebounce: true,
+                debounceInterval: 10,
+                onError,
+            });
+            const cancel = vi.fn();
+            wrapper.on('cancel', cancel);
+            const [first] = await Promise.allSettled([
+                wrapper.get('/search'),
+                wrapper.get('/search'),
+            ]);
+            expect(first.status).toBe('rejected');
+            expect(cancel).toHaveBeenCalledWith(expect.objectContaining({ reason: 'debounce' }));
+            // 防抖取消不是请求失败，不会触发 onError
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        // 模拟真实适配器：按 validateStatus 决定 resolve / reject
+        const createHttpWrapper = (
+            options: any,
+            respond: (config: any) => { status: number; data?: any; headers?: any },
+        ) => {
+            const adapter = vi.fn(async (config: any) => {
+                const { status, data = null, headers = {} } = respond(config);
+                const response = { data, status, statusText: String(status), headers, config };
+                if (config.validateStatus && !config.validateStatus(status)) {
+                    return Promise.reject(
+                        Object.assign(new Error(`status ${status}`), { config, response }),
+                    );
+                }
+                return response;
+            });
+            return { adapter, wrapper: new AxiosWrapper({ adapter } as any, options) };
+        };
+
+        it('should revalidate with ETag and restore the cached response on 304', async () => {
+            const { wrapper, adapter } = createHttpWrapper(
+                { enableCache: true, httpCache: true },
+                (config) =>
+                    config.headers['If-None-Match'] === '"v1"'
+                        ? { status: 304, headers: { 'cache-control': 'max-age=60' } }
+                        : {
+                              status: 200,
+                              data: { name: 'lania' },
+                              headers: { etag: '"v1"', 'cache-control': 'no-cache', 'x-id': '1' },
+                          },
+            );
+            const first = await wrapper.get('/users');
+            // no-cache：每次都要协商
+            const second = await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(adapter.mock.calls[1][0].headers['If-None-Match']).toBe('"v1"');
+            expect(second.status).toBe(200);
+            expect(second.data).toEqual(first.data);
+            expect(second.headers['x-id']).toBe('1');
+
+            // 304 携带 max-age=60，之后直接命中缓存
+            const third = await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(2);
+            expect(third.headers['x-id']).toBe('1');
+        });
+
+        it('should follow Cache-Control max-age and no-store', async () => {
+            vi.useFakeTimers();
+            const { wrapper, adapter } = createHttpWrapper(
+                { enableCache: true, httpCache: true, cacheTTL: 60 * 1000 },
+                (config) => ({
+                    status: 200,
+                    data: { url: config.url },
+                    headers: {
+                        'cache-control': config.url === '/secret' ? 'no-store' : 'max-age=1',
+                        'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT',
+                    },
+                }),
+            );
+            await wrapper.get('/secret');
+            await wrapper.get('/secret');
+            expect(adapter).toHaveBeenCalledTimes(2);
+
+            await wrapper.get('/users');
+            await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(3);
+
+            // 过期后带上 If-Modified-Since 重新请求
+            vi.advanceTimersByTime(1500);
+            await wrapper.get('/users');
+            expect(adapter).toHaveBeenCalledTimes(4);
+            expect(adapter.mock.calls[3][0].headers['If-Modified-Since']).toBe(
+                'Mon, 01 Jan 2024 00:00:00 GMT',
+            );
+            vi.useRealTimers();
+        });
+    });
+
+    describe('MockAdapter', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should match routes by method and URL pattern and settle by status', async () => {
+            const mock = new MockAdapter();
+            mock.on('get', '/users/*', (config) => ({ data: { url: config.url } }));
+            mock.on('*', /^\/fail/, { status: 500, data: 'boom' });
+            const instance = axios.create({ adapter: mock.adapter });
+
+            const res = await instance.get('/users/1?expand=1');
+            expect(res.status).toBe(200);
+            expect(res.data).toEqual({ url: '/users/1?expand=1' });
+
+            const error: any = await instance.post('/fail').catch((e) => e);
+            expect(error.response.status).toBe(500);
+            expect(error.code).toBe('ERR_BAD_RESPONSE');
+
+            const missing: any = await instance.delete('/users/1').catch((e) => e);
+            expect(missing.response.status).toBe(404);
+        });
+
+        it('should inject latency, errors and expire routes after N matches', async () => {
+            vi.useFakeTimers();
+            const mock = new MockAdapter({ delay: 100 });
+            mock.on('get', '/flaky', {}, { error: 'network', times: 1 });
+            mock.on('get', '/flaky', { data: 'ok' });
+            mock.on('get', '/slow', {}, { error: 'timeout', delay: 0 });
+            const instance = axios.create({ adapter: mock.adapter, timeout: 50 });
+
+            const first = instance.get('/flaky').catch((e) => e);
+            await vi.advanceTimersByTimeAsync(100);
+            expect((await first).code).toBe('ERR_NETWORK');
+
+            const second = instance.get('/flaky');
+            await vi.advanceTimersByTimeAsync(100);
+            expect((await second).data).toBe('ok');
+
+            const timeout: any = await instance.get('/slow').catch((e) => e);
+            expect(timeout.code).toBe('ECONNABORTED');
+            expect(isRetryableError(timeout)).toBe(true);
+        });
+
+        it('should record real responses and replay them from fixtures', async () => {
+            const real = vi.fn(async (config: any) => ({
+                data: JSON.stringify({ id: config.params.id }),
+                status: 200,
+                statusText: 'OK',
+                headers: { 'content-type': 'application/json' },
+                config,
+            }));
+            const recorder = new MockAdapter({ mode: 'record', adapter: real as any });
+            const recording = axios.create({ adapter: recorder.adapter });
+            expect((await recording.get('/users', { params: { id: 1 } })).data).toEqual({ id: 1 });
+
+            const fixtures = JSON.parse(recorder.exportFixtures());
+            expect(fixtures).toHaveLength(1);
+            expect(fixtures[0].response.data).toEqual({ id: 1 });
+
+            const player = new MockAdapter({ mode: 'replay', fixtures, adapter: real as any });
+            const replaying = axios.create({ adapter: player.adapter });
+            expect((await replaying.get('/users', { params: { id: 1 } })).data).toEqual({ id: 1 });
+            const missing: any = await replaying
+                .get('/users', { params: { id: 2 } })
+                .catch((e) => e);
+            expect(missing.response.status).toBe(404);
+            expect(real).toHaveBeenCalledTimes(1);
+        });
+
+        it('should run wrapper interceptors such as cache and retry on mocked responses', async () => {
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableCache: true,
+                    enableRetry: true,
+                    retryPolicy: { times: 1, delay: 0 },
+                },
+            );
+            const mock = wrapper.getMockAdapter()!;
+            const reply = vi.fn(() => ({ data: { name: 'lania' } }));
+            mock.on('get', '/flaky', { status: 503 }, { times: 1 });
+            mock.on('get', '/flaky', reply);
+
+            expect((await wrapper.get('/flaky')).data).toEqual({ name: 'lania' });
+            expect((await wrapper.get('/flaky')).data).toEqual({ name: 'lania' });
+            // 第一次 503 后重试成功，第二次命中缓存
+            expect(reply).toHaveBeenCalledTimes(1);
+            expect(new AxiosWrapper().getMockAdapter()).toBeNull();
+        });
+    });
+
+    describe('OfflineQueue', () => {
+        const createWrapper = (offline: Record<string, any> = {}) =>
+            new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableRetry: true,
+                    retryPolicy: { times: 2, delay: 0 },
+                    offline: { store: false, autoReplay: false, ...offline },
+                },
+            );
+
+        afterEach(() => {
+            delete (navigator as any).onLine;
+        });
+
+        it('should queue mutations on network errors without retrying and replay them', async () => {
+            const onQueued = vi.fn();
+            const onReplayed = vi.fn();
+            const wrapper = createWrapper({ onQueued, onReplayed });
+            const mock = wrapper.getMockAdapter()!;
+            const reply = vi.fn((config: any) => ({ data: JSON.parse(config.data) }));
+            mock.on('post', '/todos', {}, { error: 'network', times: 1 });
+            mock.on('post', '/todos', reply);
+
+            const error = await wrapper.post('/todos', { title: 'a' }).catch((e) => e);
+            expect(error).toBeInstanceOf(OfflineQueuedError);
+            expect(error.request).toMatchObject({ method: 'post', url: '/todos' });
+            expect(onQueued).toHaveBeenCalledTimes(1);
+            // 网络错误没有消耗重试次数
+            expect(reply).not.toHaveBeenCalled();
+
+            const queue = wrapper.getOfflineQueue()!;
+            expect(await queue.getPending()).toHaveLength(1);
+            await queue.replay();
+            expect(reply).toHaveBeenCalledTimes(1);
+            expect(onReplayed.mock.calls[0][1].data).toEqual({ title: 'a' });
+            expect(await queue.getPending()).toHaveLength(0);
+            // 未开启 offline 时没有队列
+            expect(new AxiosWrapper().getOfflineQueue()).toBeNull();
+        });
+
+        it('should queue immediately while offline and report conflicts and failures in order', async () => {
+            const onConflict = vi.fn();
+            const onFailure = vi.fn();
+            const wrapper = createWrapper({ onConflict, onFailure });
+            const mock = wrapper.getMockAdapter()!;
+            const order: string[] = [];
+            mock.on('*', '/items/*', (config: any) => {
+                order.push(config.url);
+                if (config.url === '/items/1') return { status: 409 };
+                if (config.url === '/items/2') return { status: 422 };
+                return { data: 'ok' };
+            });
+
+            Object.defineProperty(navigator, 'onLine', { value: false, configurable: true });
+            await wrapper.put('/items/1', { v: 1 }).catch(() => undefined);
+            await wrapper.delete('/items/2').catch(() => undefined);
+            await wrapper.put('/items/3', { v: 3 }).catch(() => undefined);
+            expect(order).toEqual([]);
+
+            const queue = wrapper.getOfflineQueue()!;
+            const pending = await queue.getPending();
+            expect(pending.map((r) => r.url)).toEqual(['/items/1', '/items/2', '/items/3']);
+            await queue.discard(pending[2].id);
+
+            delete (navigator as any).onLine;
+            await queue.replay();
+            expect(order).toEqual(['/items/1', '/items/2']);
+            expect(onConflict.mock.calls[0][1].response.status).toBe(409);
+            expect(onFailure.mock.calls[0][1].response.status).toBe(422);
+            expect(await queue.getPending()).toHaveLength(0);
+        });
+    });
+
+    describe('ApiClient', () => {
+        const schema = defineApi({
+            users: {
+                get: {
+                    method: 'get',
+                    path: '/users/:id',
+                    response: apiType<{ id: number }>(),
+                    policy: { cache: { ttl: 1000 } },
+                },
+                list: { method: 'get', path: '/users', query: apiType<{ page?: number }>() },
+                update: {
+                    method: 'put',
+                    path: '/users/:id',
+                    body: apiType<{ name: string }>(),
+                    config: { headers: { 'X-Scope': 'users' } },
+                },
+            },
+        });
+
+        it('should build paths and route calls through AxiosWrapper.request', async () => {
+            const wrapper = new AxiosWrapper({}, { mock: true });
+            const request = vi.spyOn(wrapper, 'request');
+            const reply = vi.fn((config: any) => ({
+                data: { id: Number(config.url.split('/').pop()) },
+            }));
+            wrapper.getMockAdapter()!.on('*', '/users*', reply);
+            const api = wrapper.createApiClient(schema);
+
+            expect((await api.users.get({ id: 7 })).data).toEqual({ id: 7 });
+            // 接口级缓存策略生效，第二次命中缓存
+            await api.users.get({ id: 7 });
+            expect(reply).toHaveBeenCalledTimes(1);
+
+            await api.users.list({ query: { page: 2 } });
+            await api.users.update({ id: 'a b', body: { name: 'x' } }, { timeout: 100 });
+            expect(request.mock.calls[2][0]).toMatchObject({
+                method: 'get',
+                url: '/users',
+                params: { page: 2 },
+            });
+            expect(request.mock.calls[3][0]).toMatchObject({
+                method: 'put',
+                url: '/users/a%20b',
+                data: { name: 'x' },
+                timeout: 100,
+                headers: { 'X-Scope': 'users' },
+            });
+        });
+
+        it('should reject calls with missing path parameters', () => {
+            expect(buildApiPath('/users/:id/posts/:postId', { id: 1, postId: 2 })).toBe(
+                '/users/1/posts/2',
+            );
+            expect(() => buildApiPath('/users/:id', {})).toThrow('Missing path parameter "id"');
+        });
+    });
+
+    describe('OpenApiGenerator', () => {
+        const q = (value: string) => `'${value}'`;
+        const document: any = {
+            openapi: '3.0.3',
+            info: { title: 'Petstore', version: '1.0.0' },
+            paths: {
+                '/pets': {
+                    get: {
+                        operationId: 'listPets',
+                        tags: ['pets'],
+                        parameters: [
+                            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+                            {
+                                name: 'status',
+                                in: 'query',
+                                required: true,
+                                schema: { type: 'string', enum: ['available', 'sold'] },
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                content: {
+                                    'application/json': {
+                                        schema: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Pet' },
+                                        },
+                                    },
+                                },
+                            },
+                            default: { $ref: '#/components/responses/Error' },
+                        },
+                    },
+                },
+                '/pets/{pet-id}': {
+                    parameters: [
+                        { name: 'pet-id', in: 'path', required: true, schema: { type: 'integer' } },
+                    ],
+                    put: {
+                        tags: ['pets'],
+                        requestBody: {
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/Pet' },
+                                },
+                            },
+                        },
+                        responses: { 204: { description: 'updated' } },
+                    },
+                },
+            },
+            components: {
+                responses: {
+                    Error: {
+                        content: {
+                            'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+                        },
+                    },
+                },
+                schemas: {
+                    Pet: {
+                        type: 'object',
+                        required: ['id'],
+                        properties: {
+                            id: { type: 'integer' },
+                            tag: { type: 'string', nullable: true, description: 'pet tag' },
+                            kind: {
+                                oneOf: [
+                                    { type: 'string' },
+                                    { type: 'array', items: { type: ['string', 'null'] } },
+                                ],
+                            },
+                        },
+                    },
+                    Error: {
+                        type: 'object',
+                        properties: { code: { type: 'integer' }, message: { type: 'string' } },
+                    },
+                },
+            },
+        };
+
+        it('should generate schema types and per-endpoint query/body/response/error types', () => {
+            const source = generateApiFromOpenApi(document);
+            expect(source).toContain(
+                [
+                    'export interface Pet {',
+                    '    id: number;',
+                    '    /** pet tag */',
+                    '    tag?: string | null;',
+                    '    kind?: string | (string | null)[];',
+                    '}',
+                ].join('\n'),
+            );
+            expect(source).toContain(
+                [
+                    'export interface ListPetsQuery {',
+                    '    limit?: number;',
+                    `    status: ${q('available')} | ${q('sold')};`,
+                    '}',
+                ].join('\n'),
+            );
+            expect(source).toContain('export type ListPetsResponse = Pet[];');
+            expect(source).toContain('export type ListPetsError = Error;');
+            expect(source).toContain('export type PutPetsPetIdBody = Pet;');
+            expect(source).toContain('export type PutPetsPetIdResponse = void;');
+            expect(source).toContain('export type ApiErrorBody = ListPetsError;');
+        });
+
+        it('should emit a defineApi table grouped by tag with colon path parameters', () => {
+            const source = generateApiFromOpenApi(document, {
+                exportName: 'petApi',
+                importFrom: './http',
+            });
+            expect(source).toContain(`import { apiType, defineApi } from ${q('./http')};`);
+            expect(source).toContain(
+                [
+                    '        putPetsPetId: {',
+                    `            method: ${q('put')},`,
+                    `            path: ${q('/pets/:petId')},`,
+                    '            body: apiType<PutPetsPetIdBody>(),',
+                    '            response: apiType<PutPetsPetIdResponse>(),',
+                    '        },',
+                ].join('\n'),
+            );
+            expect(source).toMatch(/export const petApi = defineApi\(\{\n {4}pets: \{/);
+            expect(source).toContain('export type PetApiCodeHandlers =');
+            expect(() => generateApiFromOpenApi({ swagger: '2.0' } as any)).toThrow('OpenAPI 3.x');
+        });
+    });
+
+    describe('ResponseValidator', () => {
+        const responseSchema = {
+            id: Rules.type('number'),
+            owner: { name: [Rules.required(), Rules.type('string')] },
+        };
+
+        it('should reject invalid response data through onError and drop it from the cache', async () => {
+            const onError = vi.fn();
+            const wrapper = new AxiosWrapper({}, { mock: true, enableCache: true, onError });
+            const reply = vi.fn();
+            reply
+                .mockReturnValueOnce({ data: { id: '1', owner: {} } })
+                .mockReturnValue({ data: { id: 1, owner: { name: 'lania' } } });
+            wrapper.getMockAdapter()!.on('get', '/repo', reply);
+
+            const error: any = await wrapper
+                .get('/repo', undefined, { responseSchema })
+                .catch((e) => e);
+            expect(error).toBeInstanceOf(ResponseValidationError);
+            expect(error.errors).toEqual({
+                id: 'Value must be of type number',
+                'owner.name': 'This field is required',
+            });
+            expect(error.response.data.id).toBe('1');
+            expect(onError).toHaveBeenCalledWith(error);
+
+            // 未通过验证的响应没有留在缓存中
+            const res = await wrapper.get<{ id: number; owner: { name: string } }>(
+                '/repo',
+                undefined,
+                { responseSchema },
+            );
+            expect(res.data.owner.name).toBe('lania');
+            expect(reply).toHaveBeenCalledTimes(2);
+        });
+
+        it('should apply a root-level rule to array response bodies', async () => {
+            const wrapper = new AxiosWrapper({}, { mock: true });
+            const mock = wrapper.getMockAdapter()!;
+            mock.on('get', '/repos', { data: [{ id: 1 }, { id: '2' }] }, { times: 1 });
+            mock.on('get', '/repos', { data: [{ id: 1 }] });
+            const schema = Rules.each({ id: Rules.type('number') });
+
+            const error: any = await wrapper
+                .get('/repos', undefined, { responseSchema: schema })
+                .catch((e) => e);
+            expect(error).toBeInstanceOf(ResponseValidationError);
+            expect(error.errors).toEqual({ data: '[1].id: Value must be of type number' });
+
+            const res = await wrapper.get('/repos', undefined, { responseSchema: schema });
+            expect(res.data).toEqual([{ id: 1 }]);
+        });
+
+        it('should not cache results in a shared Validator instance', async () => {
+            const wrapper = new AxiosWrapper({}, { mock: true });
+            wrapper.getMockAdapter()!.on('get', '/repo', { data: { id: 1 } });
+            const rule = vi.fn(() => ({ status: true }));
+            const validator = new Validator({ id: rule });
+
+            await wrapper.get('/repo', undefined, { responseSchema: validator });
+            await wrapper.get('/repo', undefined, { responseSchema: validator });
+            expect(rule).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Double token refresh', () => {
+        const createJwt = (exp: number) =>
+            ['header', Buffer.from(JSON.stringify({ exp })).toString('base64url'), 'sig'].join('.');
+
+        const setup = (options: Record<string, any> = {}) => {
+            const session = { token: 'old-token' };
+            const refreshAccessToken = vi.fn(async () => {
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                session.token = 'new-token';
+                return session.token;
+            });
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableDoubleToken: true,
+                    tokenProvider: () => session.token,
+                    getRefreshToken: () => 'refresh-token',
+                    refreshAccessToken,
+                    ...options,
+                },
+            );
+            const reply = vi.fn((config: any) =>
+                config.headers.Authorization === 'Bearer new-token'
+                    ? { data: { ok: true } }
+                    : { status: 401, data: { code: 'TOKEN_EXPIRED' } },
+            );
+            wrapper.getMockAdapter()!.on('get', /\/profile/, reply);
+            return { session, wrapper, reply, refreshAccessToken };
+        };
+
+        it('should decode the exp claim of a JWT', () => {
+            expect(getJwtExpiry(createJwt(1700000000))).toBe(1700000000 * 1000);
+            expect(getJwtExpiry('opaque-token')).toBeNull();
+            expect(getJwtExpiry('a.not-json.b')).toBeNull();
+        });
+
+        it('should refresh once on 401 and retry concurrent requests with the new token', async () => {
+            const { wrapper, reply, refreshAccessToken } = setup({
+                accessTokenExpiredStatuses: [401],
+            });
+
+            const results = await Promise.all([
+                wrapper.get<{ ok: boolean }>('/profile/1'),
+                wrapper.get<{ ok: boolean }>('/profile/2'),
+            ]);
+            expect(results.map((res) => res.data.ok)).toEqual([true, true]);
+            expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+            expect(reply).toHaveBeenCalledTimes(4);
+        });
+
+        it('should not hold back the refresh call sent through the same instance', async () => {
+            // 未配置 refreshBeforeExpiry：刷新请求经过同一个实例时不等待 refreshTokenPromise
+            const tab: ReturnType<typeof setup> = setup({
+                accessTokenExpiredStatuses: [401],
+                refreshAccessToken: async (refreshToken: string) => {
+                    const res = await tab.wrapper.post<{ token: string }>('/token/refresh', {
+                        refreshToken,
+                    });
+                    tab.session.token = res.data.token;
+                    return res.data.token;
+                },
+            });
+            const { wrapper, reply } = tab;
+            const refresh = vi.fn(() => ({ data: { token: 'new-token' } }));
+            wrapper.getMockAdapter()!.on('post', '/token/refresh', refresh);
+
+            const res = await wrapper.get<{ ok: boolean }>('/profile/1');
+            expect(res.data.ok).toBe(true);
+            expect(refresh).toHaveBeenCalledTimes(1);
+            expect(reply).toHaveBeenCalledTimes(2);
+        });
+
+        it('should refresh a JWT that is about to expire before sending the request', async () => {
+            const { session, wrapper, reply, refreshAccessToken } = setup({
+                refreshBeforeExpiry: 60,
+            });
+            session.token = createJwt(Math.floor(Date.now() / 1000) + 30);
+
+            const results = await Promise.all([
+                wrapper.get<{ ok: boolean }>('/profile/1'),
+                wrapper.get<{ ok: boolean }>('/profile/2'),
+            ]);
+            expect(results.map((res) => res.data.ok)).toEqual([true, true]);
+            expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+            // 请求发出前已换成新 Token，没有出现 401
+            expect(reply).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep using a still-valid token when the proactive refresh fails', async () => {
+            const onRefreshTokenExpired = vi.fn();
+            const { session, wrapper, reply } = setup({
+                refreshBeforeExpiry: 60,
+                refreshAccessToken: vi.fn().mockRejectedValue(new Error('offline')),
+                onRefreshTokenExpired,
+            });
+            session.token = createJwt(Math.floor(Date.now() / 1000) + 30);
+            reply.mockReturnValue({ data: { ok: true } });
+
+            const res = await wrapper.get<{ ok: boolean }>('/profile/1');
+            expect(res.data.ok).toBe(true);
+            expect(reply.mock.calls[0][0].headers.Authorization).toBe(`Bearer ${session.token}`);
+            expect(onRefreshTokenExpired).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('TokenRefreshCoordinator', () => {
+        const createTab = (session: { token: string }, options: Record<string, any> = {}) => {
+            const refreshAccessToken = vi.fn(async () => {
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                session.token = 'new-token';
+                return session.token;
+            });
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableDoubleToken: true,
+                    crossTabRefresh: { channelName: 'test-token-channel' },
+                    tokenProvider: () => session.token,
+                    getRefreshToken: () => 'refresh-token',
+                    refreshAccessToken,
+                    accessTokenExpiredStatuses: [401],
+                    ...options,
+                },
+            );
+            wrapper
+                .getMockAdapter()!
+                .on('get', '/profile', (config) =>
+                    config.headers.Authorization === 'Bearer new-token'
+                        ? { data: { ok: true } }
+                        : { status: 401 },
+                );
+            return { wrapper, refreshAccessToken };
+        };
+        let tabs: AxiosWrapper[] = [];
+
+        afterEach(() => {
+            tabs.forEach((wrapper) => wrapper.getTokenRefreshCoordinator()!.destroy());
+            tabs = [];
+            localStorage.clear();
+        });
+
+        it('should let only one tab refresh while the others wait for its token', async () => {
+            const session = { token: 'old-token' };
+            const a = createTab(session);
+            const b = createTab(session);
+            tabs = [a.wrapper, b.wrapper];
+
+            const results = await Promise.all([
+                a.wrapper.get<{ ok: boolean }>('/profile'),
+                b.wrapper.get<{ ok: boolean }>('/profile'),
+            ]);
+            expect(results.map((res) => res.data.ok)).toEqual([true, true]);
+            expect(
+                a.refreshAccessToken.mock.calls.length + b.refreshAccessToken.mock.calls.length,
+            ).toBe(1);
+        });
+
+        it('should queue simultaneous refreshes on navigator.locks', async () => {
+            // 同名锁按请求顺序依次授予，与浏览器的 LockManager 一致
+            let tail: Promise<unknown> = Promise.resolve();
+            const request = vi.fn((_name: string, _options: LockOptions, callback: () => any) => {
+                const result = tail.then(() => callback());
+                tail = result.catch(() => undefined);
+                return result;
+            });
+            Object.defineProperty(navigator, 'locks', { value: { request }, configurable: true });
+            try {
+                const session = { token: 'old-token' };
+                const a = createTab(session);
+                const b = createTab(session);
+                tabs = [a.wrapper, b.wrapper];
+
+                // 两个标签页在同一时刻发起刷新，都还没有收到对方的 start 消息
+                const coordinators = tabs.map((wrapper) => wrapper.getTokenRefreshCoordinator()!);
+                const tokens = await Promise.all([
+                    coordinators[0].refresh(a.refreshAccessToken),
+                    coordinators[1].refresh(b.refreshAccessToken),
+                ]);
+                expect(tokens).toEqual(['new-token', 'new-token']);
+                expect(request).toHaveBeenCalledTimes(2);
+                expect(request.mock.calls[0][0]).toBe('test-token-channel:lock');
+                expect(a.refreshAccessToken).toHaveBeenCalledTimes(1);
+                expect(b.refreshAccessToken).not.toHaveBeenCalled();
+                expect(localStorage.getItem('test-token-channel:lock')).toBeNull();
+            } finally {
+                delete (navigator as any).locks;
+            }
+        });
+
+        it('should spread a logout to the other tabs', async () => {
+            const session = { token: 'old-token' };
+            const onLogoutA = vi.fn();
+            const a = createTab(session, {
+                refreshAccessToken: vi.fn().mockRejectedValue(new Error('revoked')),
+                onRefreshTokenExpired: onLogoutA,
+            });
+            let onLogoutB!: () => void;
+            const loggedOut = new Promise<void>((resolve) => (onLogoutB = resolve));
+            const b = createTab(session, { onRefreshTokenExpired: () => onLogoutB() });
+            tabs = [a.wrapper, b.wrapper];
+
+            await expect(a.wrapper.get('/profile')).rejects.toThrow('revoked');
+            expect(onLogoutA).toHaveBeenCalledTimes(1);
+            await loggedOut;
+        });
+    });
+
+    describe('AuthStrategy', () => {
+        it('should sign each attempt with a fresh HMAC timestamp and nonce', async () => {
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableRetry: true,
+                    retryTimes: 1,
+                    retryDelay: 1,
+                    authStrategy: new HmacAuthStrategy({ secret: 'secret', keyId: 'key-1' }),
+                },
+            );
+            const attempts: Record<string, string>[] = [];
+            const reply = vi.fn((config: any) => {
+                attempts.push({ ...config.headers.toJSON(), url: axios.getUri(config) });
+                return attempts.length === 1 ? { status: 503 } : { data: 'ok' };
+            });
+            wrapper.getMockAdapter()!.on('put', '/orders/1', reply);
+
+            await wrapper.put('/orders/1', { amount: 10 }, { params: { v: 2 } });
+            expect(attempts).toHaveLength(2);
+            expect(attempts[0]['X-Nonce']).not.toBe(attempts[1]['X-Nonce']);
+            attempts.forEach((headers) => {
+                const payload = [
+                    'PUT',
+                    headers.url,
+                    headers['X-Timestamp'],
+                    headers['X-Nonce'],
+                    JSON.stringify({ amount: 10 }),
+                ].join('\n');
+                expect(headers['X-Signature']).toBe(
+                    createHmac('sha256', 'secret').update(payload).digest('hex'),
+                );
+                expect(headers['X-Key-Id']).toBe('key-1');
+            });
+        });
+
+        it('should combine an API key header with CSRF double-submit', async () => {
+            document.cookie = 'XSRF-TOKEN=csrf%20token';
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    authStrategy: [
+                        new ApiKeyAuthStrategy({ key: () => 'key-1' }),
+                        new CsrfAuthStrategy(),
+                    ],
+                },
+            );
+            const reply = vi.fn(() => ({ data: 'ok' }));
+            wrapper.getMockAdapter()!.on('get', '/items', reply);
+            wrapper.getMockAdapter()!.on('post', '/items', reply);
+
+            await wrapper.get('/items');
+            await wrapper.post('/items', { name: 'a' });
+            const [[read], [write]] = reply.mock.calls as any[];
+            expect(read.headers['X-API-Key']).toBe('key-1');
+            expect(read.headers['X-XSRF-TOKEN']).toBeUndefined();
+            expect(write.headers['X-XSRF-TOKEN']).toBe('csrf token');
+            expect(write.withCredentials).toBe(true);
+            // 未配置 BearerAuthStrategy 时不再添加 Authorization
+            expect(write.headers.Authorization).toBeUndefined();
+            document.cookie = 'XSRF-TOKEN=; Max-Age=0';
+        });
+    });
+
+    describe('MiddlewarePipeline', () => {
+        it('should order, move and remove named middlewares', async () => {
+            const calls: string[] = [];
+            const step = (name: string) => async (_ctx: object, next: () => Promise<void>) => {
+                calls.push(`${name}:in`);
+                await next();
+                calls.push(`${name}:out`);
+            };
+            const pipeline = new MiddlewarePipeline<object>()
+                .use(step('a'), { name: 'a' })
+                .use(step('c'), { name: 'c' })
+                .use(step('b'), { name: 'b', before: 'c' });
+            expect(pipeline.names()).toEqual(['a', 'b', 'c']);
+
+            await pipeline.run({});
+            expect(calls).toEqual(['a:in', 'b:in', 'c:in', 'c:out', 'b:out', 'a:out']);
+
+            pipeline.move('a', { after: 'c' });
+            expect(pipeline.remove('b')).toBe(true);
+            expect(pipeline.names()).toEqual(['c', 'a']);
+            expect(() => pipeline.use(step('a'), { name: 'a' })).toThrow('already exists');
+            expect(() => pipeline.use(step('d'), { after: 'missing' })).toThrow('not found');
+
+            const twice = new MiddlewarePipeline<object>().use(async (_ctx, next) => {
+                await next();
+                await next();
+            });
+            await expect(twice.run({})).rejects.toThrow('next() called multiple times');
+        });
+
+        it('should slot custom middlewares around the built-in ones', async () => {
+            const order: string[] = [];
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableCache: true,
+                    middlewares: [
+                        {
+                            name: 'trace',
+                            before: 'cache',
+                            middleware: async (
+                                ctx: RequestMiddlewareContext,
+                                next: () => Promise<void>,
+                            ) => {
+                                ctx.config.headers.set('X-Trace', 'trace-1');
+                                order.push('trace');
+                                await next();
+                            },
+                        },
+                    ],
+                },
+            );
+            wrapper.use(
+                async (ctx, next) => {
+                    ctx.response = {
+                        ...ctx.response,
+                        data: { ...ctx.response.data, decrypted: true },
+                    };
+                    order.push('decrypt');
+                    await next();
+                },
+                { phase: 'response', after: 'cache' },
+            );
+            const reply = vi.fn((config: any) => ({ data: { trace: config.headers['X-Trace'] } }));
+            wrapper.getMockAdapter()!.on('get', '/secret', reply);
+
+            expect(wrapper.getPipeline('request').names()).toEqual([
+                'token',
+                'trace',
+                'cache',
+                'debounce',
+                'throttle',
+                'interceptor',
+            ]);
+            const first = await wrapper.get('/secret');
+            // 缓存写入的是解密前的原始响应，命中缓存时同样经过解密
+            const second = await wrapper.get('/secret');
+            expect(first.data).toEqual({ trace: 'trace-1', decrypted: true });
+            expect(second.data).toEqual(first.data);
+            expect(reply).toHaveBeenCalledTimes(1);
+            expect(order).toEqual(['trace', 'decrypt', 'trace', 'decrypt']);
+        });
+
+        it('should wrap or remove built-in error middlewares', async () => {
+            const wrapper = new AxiosWrapper(
+                {},
+                { mock: true, enableRetry: true, retryTimes: 1, retryDelay: 0 },
+            );
+            const reply = vi.fn();
+            reply.mockReturnValueOnce({ status: 503 }).mockReturnValue({ data: 'ok' });
+            wrapper.getMockAdapter()!.on('get', '/flaky', reply);
+            const retried = vi.fn();
+            wrapper.getPipeline('error').wrap('retry', (retry) => async (ctx, next) => {
+                retried(ctx.err.response?.status);
+                await retry(ctx, next);
+            });
+
+            expect((await wrapper.get('/flaky')).data).toBe('ok');
+            expect(retried).toHaveBeenCalledWith(503);
+
+            wrapper.getPipeline('error').remove('retry');
+            wrapper.use(
+                (ctx) => {
+                    ctx.err = new Error(`Service unavailable: ${ctx.err.response?.status}`);
+                },
+                { phase: 'error' },
+            );
+            reply.mockReturnValueOnce({ status: 503 });
+            await expect(wrapper.get('/flaky')).rejects.toThrow('Service unavailable: 503');
+        });
+    });
+
+    describe('AxiosWrapperError', () => {
+        it('should normalize failures with the request key, attempt count and cause', async () => {
+            const onError = vi.fn();
+            const wrapper = new AxiosWrapper(
+                { timeout: 50 },
+                { mock: true, enableRetry: true, retryTimes: 1, retryDelay: 1, onError },
+            );
+            const mock = wrapper.getMockAdapter()!;
+            mock.on('get', '/down', { status: 503 });
+            mock.on('get', '/offline', {}, { error: 'network' });
+            mock.on('post', '/slow', {}, { error: 'timeout' });
+
+            const down = await wrapper.get('/down', { page: 1 }).catch((e) => e);
+            expect(down).toBeInstanceOf(HttpStatusError);
+            expect(isHttpStatusError(down) && down.status).toBe(503);
+            expect(down).toMatchObject({
+                kind: 'http',
+                attempt: 2,
+                requestKey: generateRequestKey({
+                    method: 'get',
+                    url: '/down',
+                    params: { page: 1 },
+                }),
+            });
+            expect(axios.isAxiosError(down)).toBe(true);
+            expect(down.cause.response.status).toBe(503);
+
+            const offline = await wrapper.get('/offline').catch((e) => e);
+            expect(offline).toBeInstanceOf(NetworkError);
+            expect(offline).toMatchObject({ code: 'ERR_NETWORK', attempt: 2 });
+
+            // POST 默认不重试
+            const slow = await wrapper.post('/slow', { a: 1 }).catch((e) => e);
+            expect(slow).toBeInstanceOf(TimeoutError);
+            expect(slow).toMatchObject({ kind: 'timeout', code: 'ECONNABORTED', attempt: 1 });
+
+            // 重试用尽与不重试的失败都只上报一次
+            expect(onError.mock.calls.map(([error]) => error)).toEqual([down, offline, slow]);
+        });
+
+        it('should reject business codes and cancelled requests with typed errors', async () => {
+            const onError = vi.fn();
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableDebounce: true,
+                    debounceInterval: 10,
+                    onError,
+                    businessErrorCodes: [4001],
+                    codeHandlers: {
+                        4002: (res) => {
+                            throw new Error(res.data.message);
+                        },
+                    },
+                },
+            );
+            const mock = wrapper.getMockAdapter()!;
+            mock.on('get', '/orders', { data: { code: 4001 } });
+            mock.on('get', '/balance', { data: { code: 4002, message: 'Insufficient balance' } });
+
+            const orders = await wrapper.get('/orders').catch((e) => e);
+            expect(isBusinessError(orders) && orders.businessCode).toBe(4001);
+            const balance = await wrapper.get('/balance').catch((e) => e);
+            expect(balance).toBeInstanceOf(BusinessError);
+            expect(balance.message).toBe('Insufficient balance');
+            expect(onError.mock.calls.map(([error]) => error)).toEqual([orders, balance]);
+
+            const first = wrapper.get('/orders').catch((e) => e);
+            await wrapper.get('/orders').catch(() => undefined);
+            const cancelled = await first;
+            expect(cancelled).toBeInstanceOf(ThrottledError);
+            expect(cancelled).toBeInstanceOf(DebounceThrottleCancelError);
+            expect(isCancelledError(cancelled) && axios.isCancel(cancelled)).toBe(true);
+            expect(onError).toHaveBeenCalledTimes(3);
+        });
+
+        it('should reject expired sessions with AuthExpiredError', async () => {
+            const onRefreshTokenExpired = vi.fn();
+            const wrapper = new AxiosWrapper(
+                {},
+                {
+                    mock: true,
+                    enableDoubleToken: true,
+                    tokenProvider: () => 'old-token',
+                    getRefreshToken: () => 'refresh-token',
+                    refreshAccessToken: vi.fn().mockRejectedValue(new Error('revoked')),
+                    accessTokenExpiredStatuses: [401],
+                    refreshTokenExpiredCodes: ['REFRESH_EXPIRED'],
+                    onRefreshTokenExpired,
+                },
+            );
+            const mock = wrapper.getMockAdapter()!;
+            mock.on('get', '/profile', { status: 401 });
+            mock.on('get', '/session', { data: { code: 'REFRESH_EXPIRED' } });
+
+            const failed = await wrapper.get('/profile').catch((e) => e);
+            expect(failed).toBeInstanceOf(AuthExpiredError);
+            expect(failed).toMatchObject({ reason: 'refresh-failed', kind: 'auth' });
+            expect(failed.cause.message).toBe('revoked');
+
+            const expired = await wrapper.get('/session').catch((e) => e);
+            expect(isAuthExpiredError(expired) && expired.reason).toBe('refresh-token-expired');
+            expect(onRefreshTokenExpired).toHaveBeenCalledTimes(2);
+        });
     });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { Rules, Validator } from '../src/validator';
 
 describe('Rules', () => {
@@ -211,6 +211,31 @@ describe('Rules', () => {
             expect(rule(new Date()).status).toBe(true);
         });
     });
+
+    describe('type', () => {
+        it('should distinguish arrays and null from objects', async () => {
+            expect((await Rules.type('object')({})).status).toBe(true);
+            expect((await Rules.type('object')([])).status).toBe(false);
+            expect((await Rules.type('array')([])).status).toBe(true);
+            expect((await Rules.type(['string', 'null'])(null)).status).toBe(true);
+            expect((await Rules.type('number')('1')).message).toBe('Value must be of type number');
+        });
+    });
+
+    describe('each', () => {
+        it('should validate every item and report the first failing path', async () => {
+            expect((await Rules.each(Rules.type('number'))([1, 2])).status).toBe(true);
+            expect((await Rules.each(Rules.type('number'))([1, '2'])).message).toBe(
+                '[1]: Value must be of type number',
+            );
+            const rule = Rules.each({ id: Rules.required(), name: Rules.type('string') });
+            expect((await rule([{ id: 1, name: 'a' }])).status).toBe(true);
+            expect((await rule([{ id: 1, name: 'a' }, { name: 'b' }])).message).toBe(
+                '[1].id: This field is required',
+            );
+            expect((await rule('not array')).status).toBe(false);
+        });
+    });
 });
 
 describe('Validator', () => {
@@ -282,6 +307,17 @@ describe('Validator', () => {
         expect(result1).toEqual(result2);
     });
 
+    it('should skip the cache when cache is false', async () => {
+        const rule = vi.fn(() => ({ status: true }));
+        const validator = new Validator({ name: rule });
+        await validator.validate({ name: 'John' }, { cache: false });
+        await validator.validate({ name: 'John' }, { cache: false });
+        expect(rule).toHaveBeenCalledTimes(2);
+        await validator.validate({ name: 'John' });
+        await validator.validate({ name: 'John' });
+        expect(rule).toHaveBeenCalledTimes(3);
+    });
+
     it('should clear cache', async () => {
         const validator = new Validator({
             name: Rules.required(),
@@ -343,4 +379,31 @@ describe('Validator', () => {
         const result = await validator.validate({ field: 'test' });
         expect(result.isValid).toBe(false);
     });
-});
\ No newline at end of file
+
+    it('should validate nested objects with dotted error paths', async () => {
+        const validator = new Validator({
+            user: {
+                name: Rules.required(),
+                address: { city: [Rules.required(), Rules.minLength(2)] },
+            },
+            tags: Rules.each(Rules.type('string')),
+        });
+        const valid = await validator.validate({
+            user: { name: 'lania', address: { city: 'SZ' } },
+            tags: ['a'],
+        } as any);
+        expect(valid.isValid).toBe(true);
+
+        const invalid = await validator.validate({
+            user: { address: { city: 'S' } },
+            tags: [],
+        } as any);
+        expect(invalid.errors).toEqual({
+            'user.name': 'This field is required',
+            'user.address.city': 'Length must be at least 2',
+        });
+        // 缺失的子对象按空对象验证
+        const missing = await validator.validate({ tags: [] } as any);
+        expect(Object.keys(missing.errors)).toEqual(['user.name', 'user.address.city']);
+    });
+});